@@ -19,6 +19,8 @@ import { init } from './commands/init.js';
 import { validate } from './commands/validate.js';
 import { watch } from './commands/watch.js';
 import { handoff } from './commands/handoff.js';
+import { diff } from './commands/diff.js';
+import { detect } from './commands/detect.js';
 import * as fs from 'fs';
 
 const pkg = JSON.parse(fs.readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
@@ -49,13 +51,54 @@ program
   .option('--prisma [path]', 'Use Prisma extractor (optional path)')
   .option('--drizzle [path]', 'Use Drizzle extractor (optional path)')
   .option('-o, --output <dir>', 'Output directory')
-  .option('--format <format>', 'Output format (markdown, json)', 'markdown')
+  .option('--schema <names>', 'PostgreSQL schemas to extract, comma-separated (default: public)')
+  .option('--all-schemas', 'Extract every non-system PostgreSQL schema')
+  .option('--format <format>', 'Output format (markdown, json, yaml)')
+  .option('--include <patterns>', 'Only document tables matching these comma-separated patterns')
+  .option('--exclude <patterns>', 'Skip tables matching these comma-separated patterns')
+  .option('--sample-size <n>', 'Documents sampled per collection (MongoDB, Firebase)')
+  .option('--view-definitions', 'Include the SQL of views and materialized views')
+  .option('--routine-bodies', 'Include the source of functions, procedures and triggers')
+  .option('--split-tables', 'Document each table on its own page under <output>/tables')
+  .option('--targets <names>', 'Assistant files to write, comma-separated: claude, agents, copilot, windsurf, cline, aider, html, zod (default: claude,agents)')
+  .option('--cursor', 'Also write Cursor rules to .cursor/rules')
+  .option('--templates <dir>', 'Directory with template overrides (default: <output>/templates)')
+  .option('--inject <files>', 'Also write the schema section into these files, comma-separated (e.g. CLAUDE.md,AGENTS.md)')
   .action(generate);
 
+program
+  .command('detect')
+  .description('Show which schema source would be used and why')
+  .option('-u, --url <url>', 'Database connection URL')
+  .option('--orm <orm>', 'ORM type (prisma, drizzle)')
+  .option('--mysql', 'Use MySQL extractor')
+  .option('--sqlite <path>', 'Use SQLite extractor with file path')
+  .option('--prisma [path]', 'Use Prisma extractor (optional path)')
+  .option('--drizzle [path]', 'Use Drizzle extractor (optional path)')
+  .option('--json', 'Print the resolved source as JSON')
+  .action(detect);
+
+program
+  .command('diff [from] [to]')
+  .description('Compare schemas (snapshot file, ORM schema or database URL). Defaults: .ai snapshot vs. live source')
+  .option('-u, --url <url>', 'Database connection URL for the live source')
+  .option('--mysql', 'Use MySQL extractor for the live source')
+  .option('--sqlite <path>', 'Use SQLite extractor with file path')
+  .option('--prisma [path]', 'Use Prisma extractor (optional path)')
+  .option('--drizzle [path]', 'Use Drizzle extractor (optional path)')
+  .option('--schema <names>', 'PostgreSQL schemas to extract, comma-separated (default: public)')
+  .option('--all-schemas', 'Extract every non-system PostgreSQL schema')
+  .option('--format <format>', 'Report format (human, json, markdown)', 'human')
+  .option('-o, --output <file>', 'Write the report to a file')
+  .option('--exit-code', 'Exit with code 1 when differences are found')
+  .action(diff);
+
 program
   .command('validate')
   .description('Validate generated context against database')
   .option('--strict', 'Fail on any mismatches')
+  .option('--reporter <reporter>', 'Machine-readable report (json, junit, sarif)')
+  .option('--report-file <path>', 'Write the report to a file instead of stdout')
   .action(validate);
 
 program
@@ -67,7 +110,7 @@ program
 program
   .command('show')
   .description('Show current database schema')
-  .option('-f, --format <format>', 'Output format', 'markdown')
+  .option('-f, --format <format>', 'Output format (markdown, json, yaml)', 'markdown')
   .action(async (options) => {
     const { show } = await import('./commands/show.js');
     await show(options);
@@ -0,0 +1,48 @@
+/**
+ * Detect Command
+ * Show which schema source the other commands would use, and why
+ */
+
+import { loadConfig } from '../utils/config.js';
+import { describeSource, detectSource, DETECTION_ORDER, SourceOptions } from '../utils/source-detection.js';
+
+interface DetectOptions extends SourceOptions {
+  json?: boolean;
+}
+
+export async function detect(options: DetectOptions): Promise<void> {
+  const { config, path: configPath } = loadConfig();
+  const { json, ...sourceOptions } = options;
+  const source = detectSource(sourceOptions, config);
+
+  if (json) {
+    const result = source
+      ? {
+          extractor: source.extractor,
+          source: describeSource(source),
+          schemaPath: source.schemaPath,
+          origin: source.origin,
+          reason: source.reason,
+          config: configPath,
+        }
+      : { extractor: null, config: configPath, checked: DETECTION_ORDER };
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    if (!source) process.exitCode = 1;
+    return;
+  }
+
+  console.log('🔎 Detecting schema source...');
+  console.log(`   Config: ${configPath || 'none'}\n`);
+
+  if (!source) {
+    console.log('❌ No schema source found.');
+    console.log('\nChecked, in order:');
+    DETECTION_ORDER.forEach((step, i) => console.log(`   ${i + 1}. ${step}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`✅ Extractor: ${source.extractor}`);
+  console.log(`   Source: ${describeSource(source)}`);
+  console.log(`   Why: ${source.reason}`);
+}
@@ -0,0 +1,114 @@
+/**
+ * Diff Command
+ * Compare two schema sources (database, ORM schema or snapshot file)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UnifiedSchemaInfo } from '../extractors/index.js';
+import { readSnapshot, SNAPSHOT_FILE_NAME } from '../generators/snapshot.js';
+import { diffSchemas, formatDiffHuman, formatDiffMarkdown } from '../utils/schema-diff.js';
+import { extractSchema, GenerateOptions } from './generate.js';
+import { loadConfig } from '../utils/config.js';
+
+interface DiffOptions {
+  url?: string;
+  mysql?: boolean;
+  sqlite?: string;
+  prisma?: string;
+  drizzle?: string;
+  schema?: string;
+  allSchemas?: boolean;
+  format?: string;
+  output?: string;
+  exitCode?: boolean;
+}
+
+const DIFF_FORMATS = ['human', 'json', 'markdown'];
+
+export async function diff(from: string | undefined, to: string | undefined, options: DiffOptions): Promise<void> {
+  const format = options.format || 'human';
+
+  if (!DIFF_FORMATS.includes(format)) {
+    throw new Error(`Unsupported format: ${format}. Use ${DIFF_FORMATS.join(', ')}.`);
+  }
+
+  // Keep stdout clean for machine-readable reports
+  const log = format === 'human' && !options.output ? console.log : console.error;
+
+  const fromSpec = from || path.join(loadConfig().config.outputDir || '.ai', SNAPSHOT_FILE_NAME);
+  log(`🔍 Comparing schemas...`);
+
+  const before = await loadSource(fromSpec, options, log);
+  const after = await loadSource(to, options, log);
+
+  const result = diffSchemas(before.schema, after.schema, { from: before.label, to: after.label });
+
+  let report: string;
+  if (format === 'json') {
+    report = JSON.stringify(result, null, 2) + '\n';
+  } else if (format === 'markdown') {
+    report = formatDiffMarkdown(result);
+  } else {
+    report = formatDiffHuman(result);
+  }
+
+  if (options.output) {
+    await fs.promises.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+    await fs.promises.writeFile(options.output, report);
+    log(`📄 Report written to ${options.output}`);
+  } else {
+    if (format === 'human') log('');
+    process.stdout.write(report);
+  }
+
+  if (options.exitCode && result.changes.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Load one side of the comparison. Without a spec the live source is resolved
+ * from the same flags `generate` accepts.
+ */
+async function loadSource(
+  spec: string | undefined,
+  options: DiffOptions,
+  log: (message: string) => void
+): Promise<{ label: string; schema: UnifiedSchemaInfo }> {
+  if (!spec) {
+    const schema = await extractSchema(
+      {
+        url: options.url,
+        mysql: options.mysql,
+        sqlite: options.sqlite,
+        prisma: options.prisma,
+        drizzle: options.drizzle,
+        schema: options.schema,
+        allSchemas: options.allSchemas,
+      },
+      log
+    );
+    return { label: schema.source || schema.databaseType, schema };
+  }
+
+  if (/\.(json|ya?ml)$/i.test(spec)) {
+    log(`📄 Loading snapshot: ${spec}`);
+    const snapshot = readSnapshot(spec);
+    return { label: `${spec} (${snapshot.generatedAt})`, schema: snapshot.schema };
+  }
+
+  const schema = await extractSchema({ ...toGenerateOptions(spec, options.schema), allSchemas: options.allSchemas }, log);
+  return { label: schema.source || spec, schema };
+}
+
+function toGenerateOptions(spec: string, schemaName?: string): GenerateOptions {
+  if (spec.endsWith('.prisma')) {
+    return { prisma: spec };
+  }
+  if (spec.endsWith('.ts')) {
+    return { drizzle: spec };
+  }
+  // Connection URLs and SQLite paths are classified by the shared source detection
+  return { url: spec, schema: schemaName };
+}
@@ -3,12 +3,19 @@
  * Generates CLAUDE.md and AGENTS.md from database schema
  */
 
-import * as fs from 'fs';
 import * as path from 'path';
-import { createExtractor, ExtractorType, UnifiedSchemaConverter, UnifiedSchemaInfo } from '../extractors/index.js';
+import { createExtractor, UnifiedSchemaConverter, UnifiedSchemaInfo } from '../extractors/index.js';
 import { TemplateGenerator } from '../generators/templates.js';
+import { getDocumentFileName, isDocumentFormat } from '../generators/schema-document.js';
+import { selectTargets } from '../generators/targets.js';
+import { SNAPSHOT_FILE_NAME } from '../generators/snapshot.js';
+import { TYPES_FILE_NAME } from '../generators/typescript-types.js';
+import { CohereConfig, applyTableFilters, loadConfig, parseList, parsePositiveInteger } from '../utils/config.js';
+import { applyAnnotations, findStaleAnnotations, getAnnotationsPath, loadAnnotations } from '../utils/annotations.js';
+import { describeSource, detectSource, SourceDescriptor } from '../utils/source-detection.js';
+import { findTableUsage } from '../utils/code-usage.js';
 
-interface GenerateOptions {
+export interface GenerateOptions {
   url?: string;
   orm?: string;
   output?: string;
@@ -21,126 +28,173 @@ interface GenerateOptions {
   mongodb?: string;
   firebaseKey?: string;
   firebaseProject?: string;
+  allSchemas?: boolean;
+  include?: string;
+  exclude?: string;
+  sampleSize?: string;
+  viewDefinitions?: boolean;
+  routineBodies?: boolean;
+  inject?: string;
+  templates?: string;
+  targets?: string;
+  splitTables?: boolean;
+  cursor?: boolean;
 }
 
 export async function generate(options: GenerateOptions): Promise<void> {
-  const outputDir = options.output || '.ai';
-  const schemaName = options.schema || 'public';
+  const { config, path: configPath } = loadConfig();
+  const outputDir = options.output || config.outputDir || '.ai';
+  const format = options.format || config.format || 'markdown';
+
+  if (format !== 'markdown' && !isDocumentFormat(format)) {
+    throw new Error(`Unsupported format: ${format}. Use markdown, json or yaml.`);
+  }
+
+  const targetNames = parseList(options.targets) ?? config.targets;
+  // Fail on unknown names before connecting
+  const targets = selectTargets(targetNames, config.generators?.agents !== false);
 
   console.log(`🔍 Generating database context...`);
   console.log(`   Output directory: ${outputDir}`);
+  if (configPath) console.log(`   Config: ${configPath}`);
 
-  let extractorType: ExtractorType = 'postgresql';
-  let connectionString = options.url || process.env.DATABASE_URL || '';
-  let schemaPath: string | undefined;
+  const extracted = await extractSchema(options, console.log, config);
 
-  // Determine extractor type
-  if (options.mysql) {
-    extractorType = 'mysql';
-    if (!connectionString) {
-      throw new Error('MySQL connection URL required. Use --url or DATABASE_URL env var.');
-    }
-  } else if (options.sqlite) {
-    extractorType = 'sqlite';
-    connectionString = options.sqlite;
-  } else if (options.prisma) {
-    extractorType = 'prisma';
-    schemaPath = typeof options.prisma === 'string' ? options.prisma : 'prisma/schema.prisma';
-    connectionString = 'dummy'; // Not used for Prisma
-  } else if (options.drizzle) {
-    extractorType = 'drizzle';
-    schemaPath = typeof options.drizzle === 'string' ? options.drizzle : 'src/db/schema.ts';
-    connectionString = 'dummy'; // Not used for Drizzle
-  } else if (options.orm === 'prisma') {
-    extractorType = 'prisma';
-    schemaPath = 'prisma/schema.prisma';
-    connectionString = 'dummy';
-  } else if (options.orm === 'drizzle') {
-    extractorType = 'drizzle';
-    schemaPath = 'src/db/schema.ts';
-    connectionString = 'dummy';
-  } else if (connectionString) {
-    if (connectionString.startsWith('mysql')) {
-      extractorType = 'mysql';
-    } else if (connectionString.startsWith('file:') || connectionString.endsWith('.db') || connectionString.endsWith('.sqlite')) {
-      extractorType = 'sqlite';
-    } else {
-      extractorType = 'postgresql';
-    }
-  } else {
-    // Try to auto-detect
-    if (fs.existsSync('prisma/schema.prisma')) {
-      console.log('👀 Detected Prisma schema, using Prisma extractor...');
-      extractorType = 'prisma';
-      schemaPath = 'prisma/schema.prisma';
-      connectionString = 'dummy';
-    } else if (fs.existsSync('drizzle.config.ts') || fs.existsSync('src/db/schema.ts')) {
-      console.log('👀 Detected Drizzle project, using Drizzle extractor...');
-      extractorType = 'drizzle';
-      schemaPath = 'src/db/schema.ts';
-      connectionString = 'dummy';
-    } else if (options.mongodb || (connectionString && (connectionString.startsWith('mongodb://') || connectionString.startsWith('mongodb+srv://')))) {
-      console.log('👀 Detected MongoDB connection...');
-      extractorType = 'mongodb';
-      connectionString = options.mongodb || connectionString;
-      if (!connectionString) {
-        throw new Error('MongoDB connection URL required. Use --url or DATABASE_URL env var.');
-      }
-    } else if (options.firebaseProject || process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-      console.log('👀 Detected Firebase project...');
-      extractorType = 'firebase';
-      connectionString = 'dummy'; // Not used for Firebase
-    } else {
-      throw new Error(
-        'Database connection not found. Use --url, --sqlite, --prisma, --drizzle, or --mongodb.'
-      );
+  // Team-authored descriptions and rules survive regeneration
+  const annotations = loadAnnotations(outputDir);
+  if (annotations) {
+    console.log(`📌 Annotations: ${getAnnotationsPath(outputDir)}`);
+    for (const finding of findStaleAnnotations(annotations, extracted)) {
+      console.log(`   ⚠️  ${finding.message}`);
     }
   }
+  const unifiedSchema = applyAnnotations(extracted, annotations);
+
+  // Generate and save templates
+  console.log('📝 Generating context files...');
+  const generator = new TemplateGenerator(options.templates || config.templateDir, outputDir);
+  const inject = parseList(options.inject) ?? config.inject ?? [];
+  const cursor = Boolean(options.cursor ?? config.cursor);
+  const splitTables = Boolean(options.splitTables ?? config.splitTables);
+  if (cursor) {
+    console.log('🔎 Finding code that uses each table (for Cursor rule globs)...');
+  }
+  await generator.save(outputDir, unifiedSchema, {
+    format,
+    generators: config.generators,
+    inject,
+    targets: targetNames,
+    domains: config.domains,
+    splitTables,
+    cursor: cursor
+      ? { domains: config.domains, tableFiles: findTableUsage(process.cwd(), unifiedSchema.tables.map((t) => t.name)) }
+      : undefined,
+  });
+
+  // Summary
+  console.log('\n✅ Generation complete!');
+  console.log(`   Tables: ${unifiedSchema.tables.length}`);
+  console.log(`   Output: ${path.resolve(outputDir)}`);
+  console.log('\n📄 Generated files:');
+  for (const target of targets) {
+    console.log(`   - ${target.location === 'output' ? `${outputDir}/${target.file}` : target.file}`);
+  }
+  if (config.generators?.database !== false) {
+    console.log(`   - ${outputDir}/DATABASE.md`);
+    if (splitTables) console.log(`   - ${outputDir}/tables/`);
+  }
+  if (config.generators?.diagrams !== false) console.log(`   - ${outputDir}/diagrams/`);
+  if (config.generators?.types !== false) console.log(`   - ${outputDir}/types/${TYPES_FILE_NAME}`);
+  if (config.generators?.queries !== false) console.log(`   - ${outputDir}/queries/`);
+  console.log(`   - ${outputDir}/${SNAPSHOT_FILE_NAME}`);
+  if (isDocumentFormat(format)) {
+    console.log(`   - ${outputDir}/${getDocumentFileName(format)}`);
+  }
+  inject.forEach((file) => console.log(`   - ${file} (schema section)`));
+  if (cursor) console.log('   - .cursor/rules/cohere-*.mdc');
 
-  console.log(`📦 Using extractor: ${extractorType}`);
-  if (schemaPath) console.log(`   Schema path: ${schemaPath}`);
+  console.log('\n💡 Next steps:');
+  console.log('   1. Review the generated files');
+  console.log(`   2. Add business rules to ${getAnnotationsPath(outputDir)}`);
+  console.log('   3. Commit to version control');
+}
 
-  const extractor = await createExtractor(extractorType, connectionString, {
-    schemaPath,
-    projectId: options.firebaseProject,
-    serviceAccountPath: options.firebaseKey
+/**
+ * Resolve the source from CLI options and config, then extract the unified schema.
+ * Progress goes through `log` so callers emitting machine-readable output can redirect it.
+ */
+export async function extractSchema(
+  options: GenerateOptions,
+  log: (message: string) => void = console.log,
+  config: CohereConfig = loadConfig().config
+): Promise<UnifiedSchemaInfo> {
+  const source = detectSource(options, config);
+  if (!source) {
+    throw new Error(
+      'Database connection not found. Use --url, --sqlite, --prisma, --drizzle, or run: cohere-db detect'
+    );
+  }
+
+  log(`📦 Using extractor: ${source.extractor} (${source.reason})`);
+  if (source.schemaPath) log(`   Schema path: ${source.schemaPath}`);
+
+  return extractFromSource(source, options, config, log);
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Extract and convert the schema of an already resolved source, applying the
+ * configured table filters. Catalog query timings are reported through `log`.
+ */
+export async function extractFromSource(
+  source: SourceDescriptor,
+  options: GenerateOptions = {},
+  config: CohereConfig = {},
+  log?: (message: string) => void
+): Promise<UnifiedSchemaInfo> {
+  const schemaName = options.schema || config.schema || 'public';
+  const allSchemas = Boolean(options.allSchemas ?? config.allSchemas);
+  const sampleSize = parsePositiveInteger(options.sampleSize, '--sample-size') ?? config.sampleSize;
+
+  const extractor = await createExtractor(source.extractor, source.connection || 'dummy', {
+    schemaPath: source.schemaPath,
+    projectId: source.projectId,
+    serviceAccountPath: source.serviceAccountPath,
+    sampleSize,
+    schemas: parseList(schemaName),
+    allSchemas,
+    viewDefinitions: Boolean(options.viewDefinitions ?? config.viewDefinitions),
+    routineBodies: Boolean(options.routineBodies ?? config.routineBodies),
+    onProgress: log
+      ? (step) => log(`   ✓ ${step.name}: ${step.rows.toLocaleString('en-US')} rows (${formatDuration(step.durationMs)})`)
+      : undefined,
   });
   let unifiedSchema: UnifiedSchemaInfo;
+  const started = Date.now();
 
   try {
     const rawSchema = await extractor.extract();
-    rawSchema.databaseType = extractorType;
+    rawSchema.databaseType = source.extractor;
     rawSchema.schemaName = rawSchema.schemaName || schemaName;
-    rawSchema.source = rawSchema.source || schemaPath || connectionString;
+    rawSchema.source = rawSchema.source || describeSource(source);
 
     // Convert to unified format using generic convert
     unifiedSchema = UnifiedSchemaConverter.convert(rawSchema);
 
-    // Add source info
-    unifiedSchema.source = schemaPath || connectionString.replace(/:[^:]*@/, ':***@'); // Hide password
+    // Add source info without credentials
+    unifiedSchema.source = describeSource(source);
 
+    log?.(`⏱️  Extracted ${unifiedSchema.tables.length} tables in ${formatDuration(Date.now() - started)}`);
   } finally {
     if (extractor.close) {
       await extractor.close();
     }
   }
 
-  // Generate and save templates
-  console.log('📝 Generating context files...');
-  const generator = new TemplateGenerator('templates', outputDir);
-  await generator.save(outputDir, unifiedSchema);
-
-  // Summary
-  console.log('\n✅ Generation complete!');
-  console.log(`   Tables: ${unifiedSchema.tables.length}`);
-  console.log(`   Output: ${path.resolve(outputDir)}`);
-  console.log('\n📄 Generated files:');
-  console.log(`   - ${outputDir}/CLAUDE.md`);
-  console.log(`   - ${outputDir}/AGENTS.md`);
-  console.log(`   - ${outputDir}/queries/`);
-
-  console.log('\n💡 Next steps:');
-  console.log('   1. Review the generated files');
-  console.log('   2. Add custom business rules');
-  console.log('   3. Commit to version control');
+  const include = parseList(options.include) ?? config.include;
+  const exclude = parseList(options.exclude) ?? config.exclude;
+  return applyTableFilters(unifiedSchema, include, exclude);
 }
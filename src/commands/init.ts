@@ -20,21 +20,27 @@ export async function init(options: InitOptions): Promise<void> {
   const fullPath = path.resolve(outputDir);
   fs.mkdirSync(fullPath, { recursive: true });
 
-  // Create config file
+  // Create config file. Without --url the connection is read from the
+  // environment at run time so the secret never lands in the file.
   const config = {
-    databaseUrl: options.url || process.env.DATABASE_URL || '',
+    databaseUrl: options.url || '${DATABASE_URL}',
     outputDir,
     schema: 'public',
     format: 'markdown',
+    include: [],
+    exclude: [],
   };
 
-  fs.writeFileSync(
-    path.join(fullPath, 'cohere-config.json'),
-    JSON.stringify(config, null, 2)
-  );
+  // A custom output directory would not be found by the loader, so the
+  // config moves to the project root in that case
+  const configPath = outputDir === '.ai'
+    ? path.join(fullPath, 'cohere-config.json')
+    : path.resolve('.cohererc.json');
+
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
 
   console.log(`✅ Initialized!`);
-  console.log(`\n📄 Created: ${path.join(fullPath, 'cohere-config.json')}`);
+  console.log(`\n📄 Created: ${configPath}`);
   console.log(`\n💡 Next steps:`);
   console.log(`   1. Run 'cohere-db generate' to create context files`);
   console.log(`   2. Or 'cohere-db generate --url "postgresql://..." if URL not set`);
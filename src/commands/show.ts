@@ -5,24 +5,48 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { createExtractor, ExtractorType, UnifiedSchemaConverter } from '../extractors/index.js';
+import type { UnifiedSchemaInfo } from '../extractors/index.js';
+import { TemplateGenerator } from '../generators/templates.js';
+import {
+    SchemaDocument,
+    SchemaDocumentFormat,
+    getDocumentFileName,
+    isDocumentFormat,
+    readSchemaDocument,
+    serializeSchemaDocument,
+} from '../generators/schema-document.js';
+import { CohereConfig, loadConfig } from '../utils/config.js';
+import { detectSource } from '../utils/source-detection.js';
+import { extractFromSource } from './generate.js';
 
 interface ShowOptions {
     format?: string;
 }
 
 export async function show(options: ShowOptions): Promise<void> {
+    const { config, path: configPath } = loadConfig();
     const format = options.format || 'markdown';
+    const aiDir = config.outputDir || '.ai';
+
+    if (isDocumentFormat(format)) {
+        await showDocument(format, aiDir, configPath ? config : null);
+        return;
+    }
+
+    if (format !== 'markdown') {
+        console.error(`❌ Unsupported format: ${format}. Use markdown, json or yaml.`);
+        process.exitCode = 1;
+        return;
+    }
 
     console.log('📊 Loading database schema...\n');
 
-    // Try to load from existing .ai directory first
-    const aiDir = '.ai';
+    // Try to load from existing output directory first
     const claudeFile = path.join(aiDir, 'CLAUDE.md');
     const agentsFile = path.join(aiDir, 'AGENTS.md');
 
     if (fs.existsSync(claudeFile)) {
-        console.log('📄 Found existing context in .ai directory\n');
+        console.log(`📄 Found existing context in ${aiDir} directory\n`);
         const content = fs.readFileSync(claudeFile, 'utf-8');
 
         // Extract and display just the schema section
@@ -37,8 +61,7 @@ export async function show(options: ShowOptions): Promise<void> {
     }
 
     // If no existing context, try to generate from config
-    const configPath = path.join(aiDir, 'cohere-config.json');
-    if (!fs.existsSync(configPath)) {
+    if (!configPath) {
         console.log('⚠️  No schema found.');
         console.log('\nRun one of the following:');
         console.log('  1. cohere init --url "your-database-url"');
@@ -50,91 +73,98 @@ export async function show(options: ShowOptions): Promise<void> {
 
     // Load config and extract schema
     try {
-        const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-        let extractorType: ExtractorType = 'postgresql';
-        let connectionString = config.databaseUrl || process.env.DATABASE_URL;
-        let schemaPath: string | undefined;
-
-        // Auto-detect extractor type
-        if (fs.existsSync('prisma/schema.prisma')) {
-            extractorType = 'prisma';
-            schemaPath = 'prisma/schema.prisma';
-        } else if (fs.existsSync('src/db/schema.ts')) {
-            extractorType = 'drizzle';
-            schemaPath = 'src/db/schema.ts';
-        } else if (connectionString && (connectionString.startsWith('mongodb://') || connectionString.startsWith('mongodb+srv://'))) {
-            extractorType = 'mongodb';
-        } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-            extractorType = 'firebase';
-        } else if (connectionString) {
-            if (connectionString.startsWith('mysql')) {
-                extractorType = 'mysql';
-            } else if (connectionString.includes('.db') || connectionString.includes('.sqlite')) {
-                extractorType = 'sqlite';
-            }
-        }
+        const unifiedSchema = await extractFromConfig(config);
 
-        if (!connectionString && !schemaPath) {
+        if (!unifiedSchema) {
             console.log('⚠️  No database connection or schema file found.');
             console.log('Run: cohere generate');
             return;
         }
 
-        const extractor = await createExtractor(extractorType, connectionString || 'dummy', { schemaPath });
+        console.log(`Database: ${unifiedSchema.databaseType || 'Unknown'}`);
+        console.log(`Tables: ${unifiedSchema.tables.length}\n`);
 
-        try {
-            const rawSchema = await extractor.extract();
-            const unifiedSchema = UnifiedSchemaConverter.convert(rawSchema);
+        console.log('## Tables\n');
 
-            console.log(`Database: ${unifiedSchema.databaseType || 'Unknown'}`);
-            console.log(`Tables: ${unifiedSchema.tables.length}\n`);
-
-            console.log('## Tables\n');
+        for (const table of unifiedSchema.tables) {
+            console.log(`### ${table.name}`);
+            if (table.description) {
+                console.log(`  ${table.description}`);
+            }
+            console.log(`  Columns: ${table.columns.length}`);
 
-            for (const table of unifiedSchema.tables) {
-                console.log(`### ${table.name}`);
-                if (table.description) {
-                    console.log(`  ${table.description}`);
-                }
-                console.log(`  Columns: ${table.columns.length}`);
+            // Show primary keys
+            const pkColumns = table.columns.filter(c => c.isPrimaryKey);
+            if (pkColumns.length > 0) {
+                console.log(`  Primary Key: ${pkColumns.map(c => c.name).join(', ')}`);
+            }
 
-                // Show primary keys
-                const pkColumns = table.columns.filter(c => c.isPrimaryKey);
-                if (pkColumns.length > 0) {
-                    console.log(`  Primary Key: ${pkColumns.map(c => c.name).join(', ')}`);
-                }
+            // Show relations
+            if (table.relations && table.relations.length > 0) {
+                console.log(`  Relations: ${table.relations.length}`);
+            }
 
-                // Show relations
-                if (table.relations && table.relations.length > 0) {
-                    console.log(`  Relations: ${table.relations.length}`);
-                }
+            console.log('');
+        }
 
-                console.log('');
+        // Show relationships
+        const relationships = unifiedSchema.tables
+            .flatMap(t => (t.relations || []).map(rel => ({
+                from: rel.fromTable,
+                to: rel.toTable,
+                cardinality: rel.cardinality
+            })));
+
+        if (relationships.length > 0) {
+            console.log('\n## Relationships\n');
+            for (const rel of relationships) {
+                console.log(`  ${rel.from} [${rel.cardinality}] ${rel.to}`);
             }
+        }
 
-            // Show relationships  
-            const relationships = unifiedSchema.tables
-                .flatMap(t => (t.relations || []).map(rel => ({
-                    from: rel.fromTable,
-                    to: rel.toTable,
-                    cardinality: rel.cardinality
-                })));
-
-            if (relationships.length > 0) {
-                console.log('\n## Relationships\n');
-                for (const rel of relationships) {
-                    console.log(`  ${rel.from} [${rel.cardinality}] ${rel.to}`);
-                }
+    } catch (error) {
+        console.error('❌ Failed to load schema:', error);
+        console.log('\nTry running: cohere generate');
+    }
+}
+
+/**
+ * Print the machine-readable schema document. Only the document goes to stdout
+ * so the output can be piped straight into other tools.
+ */
+async function showDocument(format: SchemaDocumentFormat, aiDir: string, config: CohereConfig | null): Promise<void> {
+    try {
+        let document: SchemaDocument | null = null;
+
+        // Prefer a document written by `generate --format json|yaml`
+        for (const candidate of [getDocumentFileName('json'), getDocumentFileName('yaml')]) {
+            const documentPath = path.join(aiDir, candidate);
+            if (fs.existsSync(documentPath)) {
+                document = readSchemaDocument(documentPath);
+                break;
             }
+        }
 
-        } finally {
-            if (extractor.close) {
-                await extractor.close();
+        if (!document) {
+            const unifiedSchema = config ? await extractFromConfig(config) : null;
+
+            if (!unifiedSchema) {
+                console.error('⚠️  No schema found. Run: cohere generate --format ' + format);
+                process.exitCode = 1;
+                return;
             }
+
+            document = new TemplateGenerator(undefined, aiDir).generateDocument(unifiedSchema);
         }
 
+        process.stdout.write(serializeSchemaDocument(document, format));
     } catch (error) {
         console.error('❌ Failed to load schema:', error);
-        console.log('\nTry running: cohere generate');
+        process.exitCode = 1;
     }
 }
+
+async function extractFromConfig(config: CohereConfig): Promise<UnifiedSchemaInfo | null> {
+    const source = detectSource({}, config);
+    return source ? extractFromSource(source, {}, config) : null;
+}
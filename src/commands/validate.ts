@@ -5,193 +5,251 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { createExtractor, ExtractorType, UnifiedSchemaConverter, UnifiedSchemaInfo } from '../extractors/index.js';
+import {
+  fingerprintSchema,
+  readFingerprintMarker,
+  readSnapshot,
+  SchemaSnapshot,
+  SNAPSHOT_FILE_NAME,
+} from '../generators/snapshot.js';
+import {
+  countBySeverity,
+  FindingSeverity,
+  validateAgainstSnapshot,
+  ValidationFinding,
+} from '../utils/schema-validation.js';
+import {
+  createReport,
+  locateFindings,
+  renderReport,
+  ValidationReporter,
+  VALIDATION_REPORTERS,
+  ValidationStatus,
+} from '../utils/validation-report.js';
+import { CohereConfig, loadConfig } from '../utils/config.js';
+import { checkAnnotations } from '../utils/annotations.js';
+import { detectSource } from '../utils/source-detection.js';
+import { extractFromSource } from './generate.js';
 
 interface ValidateOptions {
   strict?: boolean;
+  reporter?: string;
+  reportFile?: string;
 }
 
+/**
+ * Process exit codes. Warnings only fail the run in strict mode.
+ */
+export const VALIDATE_EXIT_CODES: Record<ValidationStatus, number> = {
+  pass: 0,
+  warnings: 1,
+  errors: 2,
+  failure: 3,
+};
+
 interface ValidationResult {
-  valid: boolean;
-  errors: string[];
-  warnings: string[];
+  status: ValidationStatus;
+  findings: ValidationFinding[];
 }
 
+type Logger = (message?: string, ...rest: unknown[]) => void;
+
 export async function validate(options: ValidateOptions): Promise<void> {
-  console.log('🔍 Validating database context...');
-  console.log(`   Strict mode: ${options.strict ? 'enabled' : 'disabled'}\n`);
+  const reporter = options.reporter as ValidationReporter | undefined;
+  if (reporter && !VALIDATION_REPORTERS.includes(reporter)) {
+    throw new Error(`Unsupported reporter: ${reporter}. Use ${VALIDATION_REPORTERS.join(', ')}.`);
+  }
 
-  const aiDir = '.ai';
-  const configPath = path.join(aiDir, 'cohere-config.json');
+  // Keep stdout for the report when it is not written to a file
+  const log: Logger = reporter && !options.reportFile ? console.error : console.log;
 
-  // Check if context exists
-  if (!fs.existsSync(configPath)) {
-    console.log('❌ No configuration found.');
-    console.log('\nRun: cohere init --url "your-database-url"');
-    return;
-  }
+  log('🔍 Validating database context...');
+  log(`   Strict mode: ${options.strict ? 'enabled' : 'disabled'}\n`);
 
-  const result: ValidationResult = {
-    valid: true,
-    errors: [],
-    warnings: []
-  };
+  const loaded = loadConfig();
+  const aiDir = loaded.config.outputDir || '.ai';
+  const claudeFile = path.join(aiDir, 'CLAUDE.md');
 
+  let result: ValidationResult;
   try {
-    // Load configuration
-    const config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-    let extractorType: ExtractorType = 'postgresql';
-    let connectionString = config.databaseUrl || process.env.DATABASE_URL;
-    let schemaPath: string | undefined;
-
-    // Auto-detect extractor type
-    if (fs.existsSync('prisma/schema.prisma')) {
-      extractorType = 'prisma';
-      schemaPath = 'prisma/schema.prisma';
-      console.log('📦 Detected: Prisma');
-    } else if (fs.existsSync('src/db/schema.ts')) {
-      extractorType = 'drizzle';
-      schemaPath = 'src/db/schema.ts';
-      console.log('📦 Detected: Drizzle');
-    } else if (connectionString && (connectionString.startsWith('mongodb://') || connectionString.startsWith('mongodb+srv://'))) {
-      extractorType = 'mongodb';
-      console.log('📦 Detected: MongoDB');
-    } else if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-      extractorType = 'firebase';
-      console.log('📦 Detected: Firebase');
-    } else if (connectionString) {
-      if (connectionString.startsWith('mysql')) {
-        extractorType = 'mysql';
-        console.log('📦 Detected: MySQL');
-      } else if (connectionString.includes('.db') || connectionString.includes('.sqlite')) {
-        extractorType = 'sqlite';
-        console.log('📦 Detected: SQLite');
-      } else {
-        console.log('📦 Detected: PostgreSQL');
-      }
-    }
+    result = await runValidation(aiDir, loaded.path ? loaded.config : null, options, log);
+  } catch (error) {
+    log('\n❌ Validation failed:', error);
+    result = {
+      status: 'failure',
+      findings: [{
+        severity: 'error',
+        rule: 'extraction-failed',
+        message: error instanceof Error ? error.message : String(error),
+      }],
+    };
+  }
+
+  const exitCode = VALIDATE_EXIT_CODES[result.status];
 
-    if (!connectionString && !schemaPath) {
-      console.log('❌ No database connection or schema file found.');
-      console.log('Run: cohere generate');
-      return;
+  if (reporter) {
+    const content = fs.existsSync(claudeFile) ? fs.readFileSync(claudeFile, 'utf-8') : null;
+    const located = locateFindings(result.findings, claudeFile.split(path.sep).join('/'), content);
+    const report = renderReport(createReport(located, result.status, exitCode, Boolean(options.strict)), reporter);
+
+    if (options.reportFile) {
+      await fs.promises.mkdir(path.dirname(path.resolve(options.reportFile)), { recursive: true });
+      await fs.promises.writeFile(options.reportFile, report);
+      log(`\n📄 ${reporter} report written to ${options.reportFile}`);
+    } else {
+      process.stdout.write(report);
     }
+  }
 
-    console.log('');
+  if (exitCode !== 0) {
+    process.exitCode = exitCode;
+  }
+}
 
-    // Extract current schema
-    console.log('📊 Extracting current schema...');
-    const extractor = await createExtractor(extractorType, connectionString || 'dummy', { schemaPath });
+async function runValidation(
+  aiDir: string,
+  config: CohereConfig | null,
+  options: ValidateOptions,
+  log: Logger
+): Promise<ValidationResult> {
+  // Check if context exists
+  if (!config) {
+    log('❌ No configuration found.');
+    log('\nRun: cohere init --url "your-database-url"');
+    return missingContext('No configuration found (.cohererc or .ai/cohere-config.json)');
+  }
 
-    let currentSchema: UnifiedSchemaInfo;
-    try {
-      const rawSchema = await extractor.extract();
-      currentSchema = UnifiedSchemaConverter.convert(rawSchema);
-    } finally {
-      if (extractor.close) {
-        await extractor.close();
-      }
-    }
+  const source = detectSource({}, config);
+  if (!source) {
+    log('❌ No database connection or schema file found.');
+    log('Run: cohere detect');
+    return {
+      status: 'failure',
+      findings: [{ severity: 'error', rule: 'extraction-failed', message: 'No database connection or schema file found' }],
+    };
+  }
 
-    console.log(`   Tables found: ${currentSchema.tables.length}\n`);
+  log(`📦 Source: ${source.extractor} (${source.reason})`);
+  log('');
 
-    // Check if generated context files exist
-    const claudeFile = path.join(aiDir, 'CLAUDE.md');
-    const agentsFile = path.join(aiDir, 'AGENTS.md');
+  // Check if generated context files exist
+  const claudeFile = path.join(aiDir, 'CLAUDE.md');
+  const agentsFile = path.join(aiDir, 'AGENTS.md');
+  const snapshotFile = path.join(aiDir, SNAPSHOT_FILE_NAME);
 
-    if (!fs.existsSync(claudeFile) && !fs.existsSync(agentsFile)) {
-      result.valid = false;
-      result.errors.push('Generated context files not found');
-      console.log('❌ No generated context files found in .ai directory');
-      console.log('\nRun: cohere generate');
-      return;
-    }
+  if (!fs.existsSync(claudeFile) && !fs.existsSync(agentsFile)) {
+    log(`❌ No generated context files found in ${aiDir} directory`);
+    log('\nRun: cohere generate');
+    return missingContext(`No generated context files found in ${aiDir} directory`);
+  }
 
-    // Parse generated context to extract table names
-    console.log('📄 Parsing generated context...');
-    const generatedTables = new Set<string>();
-
-    if (fs.existsSync(claudeFile)) {
-      const content = fs.readFileSync(claudeFile, 'utf-8');
-      // Extract table names from markdown (looking for ### TableName pattern)
-      const tableMatches = content.matchAll(/###\s+([a-zA-Z_][a-zA-Z0-9_]*)/g);
-      for (const match of tableMatches) {
-        generatedTables.add(match[1]);
-      }
-    }
+  if (!fs.existsSync(snapshotFile)) {
+    log(`❌ No schema snapshot found (${snapshotFile}).`);
+    log('   The context was generated by an older cohere-db version.');
+    log('\nRun: cohere generate');
+    return missingContext(`No schema snapshot found (${snapshotFile})`);
+  }
 
-    console.log(`   Tables documented: ${generatedTables.size}\n`);
+  // Extract current schema
+  log('📊 Extracting current schema...');
+  const currentSchema = await extractFromSource(source, {}, config);
 
-    // Validate tables
-    console.log('🔍 Validating tables...');
-    const currentTableNames = new Set(currentSchema.tables.map(t => t.name));
+  log(`   Tables found: ${currentSchema.tables.length}\n`);
 
-    // Check for missing tables in generated context
-    for (const table of currentSchema.tables) {
-      if (!generatedTables.has(table.name)) {
-        result.warnings.push(`Table '${table.name}' exists in schema but not in generated context`);
-      }
-    }
+  // Load the schema the context was generated from
+  log('📄 Loading generation snapshot...');
+  const snapshot: SchemaSnapshot = readSnapshot(snapshotFile);
+  log(`   Generated at: ${snapshot.generatedAt}`);
+  log(`   Tables documented: ${snapshot.schema.tables.length}\n`);
+
+  const findings: ValidationFinding[] = [];
+
+  if (fs.existsSync(claudeFile)) {
+    findings.push(...checkContextMarker(fs.readFileSync(claudeFile, 'utf-8'), snapshot));
+  }
+
+  // Compare column-by-column and constraint-by-constraint
+  log('🔍 Validating tables, columns and constraints...');
+  findings.push(...validateAgainstSnapshot(snapshot.schema, currentSchema));
+  findings.push(...checkAnnotations(aiDir, currentSchema));
+
+  const counts = countBySeverity(findings);
+  let status: ValidationStatus = 'pass';
+  if (counts.error > 0) {
+    status = 'errors';
+  } else if (counts.warning > 0 && options.strict) {
+    status = 'warnings';
+  }
+
+  // Display results
+  log('');
+
+  if (findings.length === 0) {
+    log('✅ Validation passed!');
+    log('   Tables, columns and constraints match the generated context.');
+  } else {
+    printFindings(log, findings, 'error', '❌ Validation errors:');
+    printFindings(log, findings, 'warning', '⚠️  Validation warnings:');
+    printFindings(log, findings, 'info', 'ℹ️  Informational:');
 
-    // Check for extra tables in generated context
-    for (const tableName of generatedTables) {
-      if (!currentTableNames.has(tableName)) {
-        result.warnings.push(`Table '${tableName}' in generated context but not in current schema`);
-      }
+    if (counts.error > 0 || counts.warning > 0) {
+      log('💡 Recommendation: Run "cohere generate" to update context');
     }
 
-    // Validate column counts
-    for (const table of currentSchema.tables) {
-      if (generatedTables.has(table.name)) {
-        const columnCount = table.columns.length;
-        if (columnCount === 0) {
-          result.warnings.push(`Table '${table.name}' has no columns`);
-        }
-      }
+    if (options.strict && status !== 'pass') {
+      log('\n❌ Validation failed in strict mode');
     }
+  }
 
-    // Display results
-    console.log('');
+  // Summary
+  log('\n📊 Summary:');
+  log(`   Current tables: ${currentSchema.tables.length}`);
+  log(`   Documented tables: ${snapshot.schema.tables.length}`);
+  log(`   Errors: ${counts.error}`);
+  log(`   Warnings: ${counts.warning}`);
+  log(`   Info: ${counts.info}`);
 
-    if (result.errors.length === 0 && result.warnings.length === 0) {
-      console.log('✅ Validation passed!');
-      console.log('   All tables match between schema and generated context.');
-    } else {
-      if (result.errors.length > 0) {
-        console.log('❌ Validation errors:\n');
-        result.errors.forEach(err => console.log(`   - ${err}`));
-        console.log('');
-      }
-
-      if (result.warnings.length > 0) {
-        console.log('⚠️  Validation warnings:\n');
-        result.warnings.forEach(warn => console.log(`   - ${warn}`));
-        console.log('');
-      }
-
-      if (result.warnings.length > 0 && result.errors.length === 0) {
-        console.log('💡 Recommendation: Run "cohere generate" to update context');
-      }
-
-      if (options.strict && (result.errors.length > 0 || result.warnings.length > 0)) {
-        console.log('\n❌ Validation failed in strict mode');
-        process.exit(1);
-      }
-    }
+  return { status, findings };
+}
 
-    // Summary
-    console.log('\n📊 Summary:');
-    console.log(`   Current tables: ${currentSchema.tables.length}`);
-    console.log(`   Documented tables: ${generatedTables.size}`);
-    console.log(`   Errors: ${result.errors.length}`);
-    console.log(`   Warnings: ${result.warnings.length}`);
+function missingContext(message: string): ValidationResult {
+  return {
+    status: 'failure',
+    findings: [{ severity: 'error', rule: 'context-missing', message }],
+  };
+}
 
-  } catch (error) {
-    console.error('\n❌ Validation failed:', error);
+/**
+ * Verify CLAUDE.md was rendered from the snapshot being validated against,
+ * otherwise a clean comparison says nothing about what the assistant reads.
+ */
+function checkContextMarker(content: string, snapshot: SchemaSnapshot): ValidationFinding[] {
+  const marker = readFingerprintMarker(content);
+
+  if (!marker) {
+    return [{
+      severity: 'warning',
+      rule: 'context-unversioned',
+      message: 'CLAUDE.md has no snapshot marker (edited by hand or generated by an older version)',
+    }];
+  }
 
-    if (options.strict) {
-      process.exit(1);
-    }
+  if (marker !== fingerprintSchema(snapshot.schema)) {
+    return [{
+      severity: 'warning',
+      rule: 'context-out-of-sync',
+      message: `CLAUDE.md was generated from a different schema snapshot than ${SNAPSHOT_FILE_NAME}`,
+    }];
   }
+
+  return [];
 }
 
+function printFindings(log: Logger, findings: ValidationFinding[], severity: FindingSeverity, heading: string): void {
+  const matching = findings.filter((f) => f.severity === severity);
+  if (matching.length === 0) return;
+
+  log(`${heading}\n`);
+  matching.forEach((finding) => log(`   - [${finding.rule}] ${finding.message}`));
+  log('');
+}
@@ -6,6 +6,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { generate } from './generate.js';
+import { loadConfig } from '../utils/config.js';
+import { getAnnotationsPath } from '../utils/annotations.js';
+import { detectSource } from '../utils/source-detection.js';
 
 interface WatchOptions {
   debounce?: string;
@@ -17,32 +20,43 @@ export async function watch(options: WatchOptions): Promise<void> {
   console.log('👀 Watch mode enabled...');
   console.log(`   Debounce: ${debounce}ms`);
 
-  // Detect schema files to watch
-  const watchPaths: string[] = [];
+  // Watch the schema file of the source generate would use
+  const { config, path: configPath } = loadConfig();
+  const source = detectSource({}, config);
 
-  if (fs.existsSync('prisma/schema.prisma')) {
-    watchPaths.push('prisma/schema.prisma');
-    console.log('   Watching: prisma/schema.prisma');
+  if (!source || !source.schemaPath) {
+    console.log('\n⚠️  No schema files detected.');
+    if (source) {
+      console.log(`   Source is a live ${source.extractor} database (${source.reason}).`);
+      console.log('   Run "cohere-db generate" after migrations instead.');
+    } else {
+      console.log('   Looking for:');
+      console.log('   - prisma/schema.prisma');
+      console.log('   - src/db/schema.ts');
+      console.log('   - drizzle.config.ts');
+    }
+    return;
   }
 
-  if (fs.existsSync('src/db/schema.ts')) {
-    watchPaths.push('src/db/schema.ts');
-    console.log('   Watching: src/db/schema.ts');
+  console.log(`   Source: ${source.extractor} (${source.reason})`);
+
+  if (!fs.existsSync(source.schemaPath)) {
+    console.log(`\n⚠️  Schema file not found: ${source.schemaPath}`);
+    return;
   }
 
-  if (fs.existsSync('drizzle.config.ts')) {
+  const watchPaths = [source.schemaPath];
+  if (source.extractor === 'drizzle' && fs.existsSync('drizzle.config.ts')) {
     watchPaths.push('drizzle.config.ts');
-    console.log('   Watching: drizzle.config.ts');
   }
-
-  if (watchPaths.length === 0) {
-    console.log('\n⚠️  No schema files detected.');
-    console.log('   Looking for:');
-    console.log('   - prisma/schema.prisma');
-    console.log('   - src/db/schema.ts');
-    console.log('   - drizzle.config.ts');
-    return;
+  if (configPath) {
+    watchPaths.push(configPath);
+  }
+  const annotationsPath = getAnnotationsPath(config.outputDir || '.ai');
+  if (fs.existsSync(annotationsPath)) {
+    watchPaths.push(annotationsPath);
   }
+  watchPaths.forEach((filePath) => console.log(`   Watching: ${filePath}`));
 
   console.log('\n✨ Watching for changes... (Press Ctrl+C to stop)\n');
 
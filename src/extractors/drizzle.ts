@@ -17,6 +17,8 @@ export interface DrizzleColumnInfo {
   defaultValue: string | null;
   isRelation: boolean;
   relationName: string | null;
+  /** Column referenced by `.references(() => table.column)` */
+  relationColumn: string | null;
   onDelete: string | null;
 }
 
@@ -34,6 +36,7 @@ export interface DrizzleRelationInfo {
   toColumns: string[];
   type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
   onDelete: string | null;
+  constraintName: string | null;
 }
 
 export interface DrizzleTableInfo {
@@ -47,14 +50,27 @@ export interface DrizzleTableInfo {
   uniqueConstraints: string[][];
 }
 
+export interface DrizzleEnumInfo {
+  /** SQL name, the first argument of `pgEnum()` */
+  name: string;
+  values: string[];
+}
+
 export interface DrizzleSchemaInfo {
   tables: DrizzleTableInfo[];
+  enums: DrizzleEnumInfo[];
   dialect: 'postgresql' | 'mysql' | 'sqlite';
 }
 
+function quotedStrings(list: string): string[] {
+  return Array.from(list.matchAll(/"([^"]*)"|'([^']*)'/g)).map((m) => m[1] ?? m[2]);
+}
+
 export class DrizzleExtractor {
   private schemaPath: string;
   private schemaContent: string;
+  /** `pgEnum()` results by the variable columns call them through */
+  private enumsByVariable = new Map<string, DrizzleEnumInfo>();
 
   constructor(schemaPath: string) {
     this.schemaPath = schemaPath;
@@ -69,11 +85,14 @@ export class DrizzleExtractor {
     this.schemaContent = fs.readFileSync(this.schemaPath, 'utf-8');
     
     const dialect = this.detectDialect();
+    this.enumsByVariable = this.parseEnums();
     const tables = this.parseTables();
+    this.parseForeignKeys(tables);
     this.parseRelations(tables);
 
     return {
       tables,
+      enums: Array.from(this.enumsByVariable.values()),
       dialect,
     };
   }
@@ -91,11 +110,27 @@ export class DrizzleExtractor {
     return 'postgresql'; // Default
   }
 
+  /**
+   * `export const roleEnum = pgEnum('role', ['user', 'admin'])`
+   */
+  private parseEnums(): Map<string, DrizzleEnumInfo> {
+    const enums = new Map<string, DrizzleEnumInfo>();
+    const enumRegex = /(?:const|export)\s+(\w+)\s*=\s*pgEnum\s*\(\s*["']([^"']+)["']\s*,\s*\[([^\]]*)\]/g;
+
+    let match;
+    while ((match = enumRegex.exec(this.schemaContent)) !== null) {
+      enums.set(match[1], { name: match[2], values: quotedStrings(match[3]) });
+    }
+
+    return enums;
+  }
+
   private parseTables(): DrizzleTableInfo[] {
     const tables: DrizzleTableInfo[] = [];
     
-    // Match table definitions with schema name
-    const tableRegex = /(?:export\s+)?(?:const|export)\s+(\w+)\s*=\s*(?:pgTable|mysqlTable|sqliteTable)\s*\(\s*["']([^"']+)["']\s*,\s*\{([^}]+)\}\s*(?:,\s*(\w+))?\s*\)/g;
+    // Match table definitions with schema name, optionally followed by an
+    // extra config callback `(t) => ({ ... })`
+    const tableRegex = /(?:export\s+)?(?:const|export)\s+(\w+)\s*=\s*(?:pgTable|mysqlTable|sqliteTable)\s*\(\s*["']([^"']+)["']\s*,\s*\{([^}]+)\}\s*(?:,\s*(\w+)\s*\)|,\s*\(|\))/g;
     
     let match;
     while ((match = tableRegex.exec(this.schemaContent)) !== null) {
@@ -160,8 +195,8 @@ export class DrizzleExtractor {
     
     for (let i = 0; i < str.length; i++) {
       const char = str[i];
-      if (char === '{' || char === '[') depth++;
-      if (char === '}' || char === ']') depth--;
+      if (char === '{' || char === '[' || char === '(') depth++;
+      if (char === '}' || char === ']' || char === ')') depth--;
       if (char === ',' && depth === 0) {
         result.push(current);
         current = '';
@@ -185,6 +220,7 @@ export class DrizzleExtractor {
     let defaultValue: string | null = null;
     let isRelation = false;
     let relationName: string | null = null;
+    let relationColumn: string | null = null;
     let onDelete: string | null = null;
 
     // Extract type and options
@@ -195,6 +231,17 @@ export class DrizzleExtractor {
 
     const optionsStr = def.substring(type.length);
 
+    // Enum columns: a `pgEnum()` result, or MySQL's inline `mysqlEnum('role', [...])`
+    const pgEnum = this.enumsByVariable.get(type);
+    if (pgEnum) {
+      type = pgEnum.name;
+    } else if (type === 'mysqlEnum') {
+      const values = optionsStr.match(/^\s*\(\s*["'][^"']*["']\s*,\s*\[([^\]]*)\]/);
+      if (values) {
+        type = `enum(${quotedStrings(values[1]).map((v) => `'${v.replace(/'/g, "''")}'`).join(',')})`;
+      }
+    }
+
     // Parse options
     const optionalMatch = optionsStr.match(/\.optional\(\)/);
     if (optionalMatch) {
@@ -222,6 +269,7 @@ export class DrizzleExtractor {
     if (referencesMatch) {
       isRelation = true;
       relationName = referencesMatch[1];
+      relationColumn = referencesMatch[2];
     }
 
     // Check for onDelete
@@ -255,10 +303,74 @@ export class DrizzleExtractor {
       defaultValue,
       isRelation,
       relationName,
+      relationColumn,
       onDelete,
     };
   }
 
+  /**
+   * Foreign keys from `.references()` on a column and from composite
+   * `foreignKey({ columns, foreignColumns })` in the table's extra config.
+   */
+  private parseForeignKeys(tables: DrizzleTableInfo[]): void {
+    for (const table of tables) {
+      for (const column of table.columns) {
+        if (column.relationName && column.relationColumn) {
+          table.relations.push({
+            name: `${table.name}_${column.name}_fk`,
+            fromTable: table.name,
+            fromColumns: [column.name],
+            toTable: column.relationName,
+            toColumns: [column.relationColumn],
+            type: 'many-to-one',
+            onDelete: column.onDelete,
+            constraintName: null,
+          });
+        }
+      }
+    }
+
+    // A foreignKey() call belongs to the closest table definition above it
+    const tableStarts: { name: string; index: number }[] = [];
+    const startRegex = /(\w+)\s*=\s*(?:pgTable|mysqlTable|sqliteTable)\s*\(/g;
+    let start;
+    while ((start = startRegex.exec(this.schemaContent)) !== null) {
+      tableStarts.push({ name: start[1], index: start.index });
+    }
+
+    const tableMap = new Map(tables.map((t) => [t.name, t]));
+    const foreignKeyRegex = /foreignKey\s*\(\s*\{([^}]*)\}\s*\)((?:\s*\.on(?:Delete|Update)\([^)]*\))*)/g;
+    const propertyList = (body: string, key: string) =>
+      (body.match(new RegExp(`${key}\\s*:\\s*\\[([^\\]]*)\\]`))?.[1] || '')
+        .split(',')
+        .map((ref) => ref.trim())
+        .filter(Boolean);
+
+    let match;
+    while ((match = foreignKeyRegex.exec(this.schemaContent)) !== null) {
+      const owner = tableStarts.filter((t) => t.index < match!.index).pop();
+      const table = owner && tableMap.get(owner.name);
+      if (!table) continue;
+
+      const columns = propertyList(match[1], 'columns').map((ref) => ref.split('.').pop() || ref);
+      const foreignRefs = propertyList(match[1], 'foreignColumns');
+      if (columns.length === 0 || foreignRefs.length === 0) continue;
+
+      const name = match[1].match(/name\s*:\s*["']([^"']+)["']/)?.[1] || null;
+      const onDelete = match[2].match(/onDelete\(\s*["']([^"']+)["']/)?.[1] || null;
+      table.relations.push({
+        name: name || `${table.name}_${columns.join('_')}_fk`,
+        fromTable: table.name,
+        fromColumns: columns,
+        toTable: foreignRefs[0].split('.')[0],
+        toColumns: foreignRefs.map((ref) => ref.split('.').pop() || ref),
+        type: 'many-to-one',
+        onDelete: onDelete ? onDelete.toUpperCase() : null,
+        constraintName: name,
+      });
+    }
+  }
+
   private parseRelations(tables: DrizzleTableInfo[]): void {
     const tableMap = new Map(tables.map((t) => [t.name, t]));
 
@@ -288,6 +400,7 @@ export class DrizzleExtractor {
             toColumns: [],
             type: 'many-to-many',
             onDelete: null,
+            constraintName: null,
           };
           table.relations.push(relation);
         }
@@ -306,6 +419,7 @@ export class DrizzleExtractor {
             toColumns: [],
             type: 'one-to-many',
             onDelete: null,
+            constraintName: null,
           };
           table.relations.push(relation);
         }
@@ -4,7 +4,7 @@
  */
 
 // Database extractors
-export { PostgresExtractor, SchemaInfo as PostgresSchemaInfo } from './postgres.js';
+export { PostgresExtractor, SchemaInfo as PostgresSchemaInfo, ExtractionStep } from './postgres.js';
 export { MySQLExtractor, MySQLSchemaInfo } from './mysql.js';
 export { SQLiteExtractor, SQLiteSchemaInfo } from './sqlite.js';
 
@@ -14,7 +14,7 @@ export { DrizzleExtractor, DrizzleSchemaInfo } from './drizzle.js';
 export { MongoDBExtractor, MongoDBSchemaInfo } from './mongodb.js';
 export { FirebaseExtractor, FirebaseSchemaInfo } from './firebase.js';
 
-import type { SchemaInfo as PostgresSchemaInfo } from './postgres.js';
+import type { SchemaInfo as PostgresSchemaInfo, ExtractionStep } from './postgres.js';
 import type { MySQLSchemaInfo } from './mysql.js';
 import type { SQLiteSchemaInfo } from './sqlite.js';
 import type { PrismaSchemaInfo } from './prisma.js';
@@ -36,6 +36,43 @@ export interface UnifiedColumnInfo {
   onDelete?: string;
   onUpdate?: string;
   description?: string;
+  /** Maximum character length, e.g. 255 for `varchar(255)` */
+  maxLength?: number;
+  /** Total digits and digits after the decimal point of exact numerics */
+  precision?: number;
+  scale?: number;
+  /** Value assigned by the database: identity, AUTO_INCREMENT or AUTOINCREMENT */
+  identity?: 'always' | 'by-default';
+  /** Computed column; cannot be written */
+  generated?: { expression: string; stored: boolean };
+  /** Value the database assigns on every update, e.g. MySQL `ON UPDATE CURRENT_TIMESTAMP` */
+  onUpdateValue?: string;
+  /** Rules the data must follow, from annotations */
+  invariants?: string[];
+  deprecated?: UnifiedDeprecation;
+}
+
+/**
+ * A table or column marked deprecated in the annotations file.
+ */
+export interface UnifiedDeprecation {
+  reason?: string;
+  /** Column or table to use instead */
+  replacedBy?: string;
+}
+
+export interface UnifiedQueryExample {
+  name: string;
+  sql: string;
+  description?: string;
+}
+
+export interface UnifiedCheckInfo {
+  name?: string;
+  /** e.g. `CHECK (total >= 0)` */
+  expression: string;
+  /** Columns the check reads */
+  columns: string[];
 }
 
 export interface UnifiedIndexInfo {
@@ -47,30 +84,176 @@ export interface UnifiedIndexInfo {
 
 export interface UnifiedRelationInfo {
   fromTable: string;
+  /** First of `fromColumns` */
   fromColumn: string;
   toTable: string;
+  /** First of `toColumns` */
   toColumn: string;
+  /** Referencing columns in key order; several for composite foreign keys */
+  fromColumns?: string[];
+  /** Referenced columns, pairwise with `fromColumns` */
+  toColumns?: string[];
+  /** Foreign key constraint name, where the source has one */
+  constraintName?: string;
   cardinality: '1:1' | '1:N' | 'N:1' | 'N:M';
   onDelete?: string;
   onUpdate?: string;
 }
 
+export interface UnifiedTriggerInfo {
+  name: string;
+  /** BEFORE, AFTER or INSTEAD OF */
+  timing: string;
+  /** INSERT, UPDATE, DELETE and/or TRUNCATE */
+  events: string[];
+  /** ROW or STATEMENT */
+  level?: string;
+  /** Function the trigger executes (PostgreSQL) */
+  function?: string;
+  /** Columns the trigger assigns on the new row, e.g. `updated_at` */
+  setsColumns: string[];
+  /** Trigger statement or body, when extracted with routine bodies */
+  definition?: string;
+}
+
+export interface UnifiedRoutineInfo {
+  /** Qualified as `schema.function` outside public */
+  name: string;
+  schema?: string;
+  kind: 'function' | 'procedure';
+  /** Argument list as declared */
+  arguments: string;
+  /** Absent for procedures */
+  returnType?: string;
+  language: string;
+  description?: string;
+  /** Source, when extracted with routine bodies */
+  body?: string;
+}
+
+export interface UnifiedPolicyInfo {
+  name: string;
+  /** ALL, SELECT, INSERT, UPDATE or DELETE */
+  command: string;
+  /** Permissive policies are OR-ed, restrictive ones AND-ed */
+  permissive: boolean;
+  roles: string[];
+  /** Rows visible to or affected by the command */
+  using?: string;
+  /** Rows the command may write */
+  withCheck?: string;
+}
+
+export type UnifiedTableKind = 'table' | 'view' | 'materialized_view';
+
 export interface UnifiedTableInfo {
+  /** Qualified as `schema.table` when several database schemas are documented */
   name: string;
+  /** Database schema (namespace) the table lives in, where the source has one */
+  schema?: string;
+  /** Absent for plain tables */
+  kind?: UnifiedTableKind;
   description?: string;
+  /** SQL of a view, when extracted with view definitions */
+  definition?: string;
+  /** Tables and views a view reads from, named like `name` */
+  dependsOn?: string[];
   columns: UnifiedColumnInfo[];
   indexes: UnifiedIndexInfo[];
   relations: UnifiedRelationInfo[];
   primaryKey: string[];
+  checks?: UnifiedCheckInfo[];
+  triggers?: UnifiedTriggerInfo[];
+  /** Row-level security is enabled; `policies` decide which rows each role can access */
+  rowLevelSecurity?: boolean;
+  /** Policies also apply to the table owner */
+  forceRowLevelSecurity?: boolean;
+  policies?: UnifiedPolicyInfo[];
+  /** Annotated rules, example queries and deprecation */
+  invariants?: string[];
+  examples?: UnifiedQueryExample[];
+  deprecated?: UnifiedDeprecation;
+}
+
+export interface UnifiedEnumInfo {
+  /** Qualified as `schema.enum` outside public */
+  name: string;
+  schema?: string;
+  values: string[];
+  description?: string;
+  /** Meaning of individual values, from annotations */
+  valueDescriptions?: Record<string, string>;
+}
+
+export interface UnifiedDomainInfo {
+  name: string;
+  schema?: string;
+  baseType: string;
+  nullable: boolean;
+  default: string | null;
+  /** Constraint definitions, e.g. `CHECK (VALUE ~* '^.+@.+$')` */
+  checks: string[];
+}
+
+export interface UnifiedCompositeTypeInfo {
+  name: string;
+  schema?: string;
+  fields: { name: string; type: string }[];
 }
 
 export interface UnifiedSchemaInfo {
   tables: UnifiedTableInfo[];
+  enums?: UnifiedEnumInfo[];
+  domains?: UnifiedDomainInfo[];
+  compositeTypes?: UnifiedCompositeTypeInfo[];
+  /** Stored functions and procedures */
+  routines?: UnifiedRoutineInfo[];
+  /** Schema-wide rules and example queries, from annotations */
+  invariants?: string[];
+  examples?: UnifiedQueryExample[];
   databaseType: 'postgresql' | 'mysql' | 'sqlite' | 'prisma' | 'drizzle' | 'mongodb' | 'firebase';
   schemaName?: string;
   source?: string;
 }
 
+/**
+ * Column pairs of a relation. Relations from older snapshots only have
+ * `fromColumn`/`toColumn`.
+ */
+export function relationColumns(relation: UnifiedRelationInfo): { from: string[]; to: string[] } {
+  return {
+    from: relation.fromColumns?.length ? relation.fromColumns : [relation.fromColumn],
+    to: relation.toColumns?.length ? relation.toColumns : [relation.toColumn],
+  };
+}
+
+/**
+ * Column type with its declared length or precision, e.g. `character varying(255)`.
+ */
+export function displayType(col: Pick<UnifiedColumnInfo, 'type' | 'maxLength' | 'precision' | 'scale'>): string {
+  if (col.type.includes('(') || col.type.endsWith('[]')) return col.type;
+  if (col.maxLength) return `${col.type}(${col.maxLength})`;
+  if (col.precision) return `${col.type}(${col.precision},${col.scale ?? 0})`;
+  return col.type;
+}
+
+/**
+ * Relation fields for an ordered column mapping.
+ */
+function relationKey(
+  fromColumns: string[],
+  toColumns: string[],
+  constraintName?: string | null
+): Pick<UnifiedRelationInfo, 'fromColumn' | 'toColumn' | 'fromColumns' | 'toColumns' | 'constraintName'> {
+  return {
+    fromColumn: fromColumns[0] || '',
+    toColumn: toColumns[0] || '',
+    fromColumns,
+    toColumns,
+    ...(constraintName ? { constraintName } : {}),
+  };
+}
+
 // Converter Class
 export class UnifiedSchemaConverter {
   static convert(schemaInfo: any): UnifiedSchemaInfo {
@@ -97,8 +280,44 @@ export class UnifiedSchemaConverter {
 
 function convertPostgres(schema: PostgresSchemaInfo): UnifiedSchemaInfo {
   const source = schema.schemaName ? `postgresql://${schema.schemaName}` : 'postgresql';
+  const schemas = schema.schemas || [schema.schemaName || 'public'];
+  // Bare names are only unambiguous when everything lives in public
+  const qualify = schemas.length > 1 || schemas[0] !== 'public';
+
   return {
-    tables: schema.tables.map((table) => convertTable(table, table.foreignKeys || [], table.indexes || [])),
+    tables: schema.tables.map((table) => {
+      const tableSchema = table.schema || schemas[0];
+      const foreignKeys = (table.foreignKeys || []).map((fk) => {
+        const referencesSchema = fk.referencesSchema || tableSchema;
+        // Cross-schema references stay qualified even when the rest is not
+        const qualifyReference = qualify || referencesSchema !== tableSchema;
+        return {
+          ...fk,
+          referencesTable: qualifyReference ? `${referencesSchema}.${fk.referencesTable}` : fk.referencesTable,
+        };
+      });
+      const name = qualify ? `${tableSchema}.${table.name}` : table.name;
+      const dependsOn = (table.dependsOn || []).map((dep) =>
+        qualify || dep.schema !== tableSchema ? `${dep.schema}.${dep.name}` : dep.name
+      );
+
+      return {
+        ...convertTable({ ...table, name }, foreignKeys, table.indexes || []),
+        schema: tableSchema,
+        ...viewInfo(table.kind, table.definition, dependsOn),
+        ...triggerInfo(table.triggers),
+        ...securityInfo(table),
+      };
+    }),
+    enums: (schema.enums || []).map((e) => ({
+      name: e.name,
+      schema: e.schema,
+      values: e.values,
+      description: e.description || undefined,
+    })),
+    domains: schema.domains || [],
+    compositeTypes: schema.compositeTypes || [],
+    routines: convertRoutines(schema.routines),
     databaseType: 'postgresql',
     schemaName: schema.schemaName,
     source,
@@ -108,7 +327,12 @@ function convertPostgres(schema: PostgresSchemaInfo): UnifiedSchemaInfo {
 function convertMySQL(schema: MySQLSchemaInfo): UnifiedSchemaInfo {
   const source = schema.databaseName ? `mysql://${schema.databaseName}` : 'mysql';
   return {
-    tables: schema.tables.map((table) => convertTable(table, table.foreignKeys || [], table.indexes || [])),
+    tables: schema.tables.map((table) => ({
+      ...convertTable(table, table.foreignKeys || [], table.indexes || []),
+      ...viewInfo(table.kind, table.definition, table.dependsOn),
+      ...triggerInfo(table.triggers),
+    })),
+    routines: convertRoutines(schema.routines),
     databaseType: 'mysql',
     schemaName: schema.databaseName,
     source,
@@ -118,7 +342,10 @@ function convertMySQL(schema: MySQLSchemaInfo): UnifiedSchemaInfo {
 function convertSQLite(schema: SQLiteSchemaInfo): UnifiedSchemaInfo {
   const source = schema.databasePath || 'sqlite';
   return {
-    tables: schema.tables.map((table) => convertSQLiteTable(table)),
+    tables: schema.tables.map((table) => ({
+      ...convertSQLiteTable(table),
+      ...viewInfo(table.kind, table.definition, table.dependsOn),
+    })),
     databaseType: 'sqlite',
     source,
   };
@@ -129,10 +356,11 @@ function convertPrisma(schema: PrismaSchemaInfo): UnifiedSchemaInfo {
   return {
     tables: schema.tables.map((table) => ({
       name: table.name,
+      ...viewInfo(table.kind),
       description: table.description || undefined,
       columns: table.columns.map((col) => ({
         name: col.name,
-        type: col.type,
+        type: col.isList && !col.isRelation ? `${col.type}[]` : col.type,
         nullable: col.isOptional,
         default: col.defaultValue,
         isPrimaryKey: table.primaryKey.includes(col.name),
@@ -151,14 +379,14 @@ function convertPrisma(schema: PrismaSchemaInfo): UnifiedSchemaInfo {
       })),
       relations: table.relations.map((rel) => ({
         fromTable: rel.fromTable,
-        fromColumn: rel.fromFields[0] || '',
+        ...relationKey(rel.fromFields, rel.toFields, rel.constraintName),
         toTable: rel.toTable,
-        toColumn: rel.toFields[0] || '',
         cardinality: mapRelationCardinality(rel.type),
         onDelete: rel.onDelete || undefined,
       })),
       primaryKey: table.primaryKey,
     })),
+    enums: (schema.enums || []).map((e) => ({ name: e.name, values: e.values })),
     databaseType: 'prisma',
     schemaName: schema.generator?.output,
     source,
@@ -190,16 +418,17 @@ function convertDrizzle(schema: DrizzleSchemaInfo): UnifiedSchemaInfo {
         unique: idx.unique,
         isPrimaryKey: false,
       })),
-      relations: table.relations.map((rel) => ({
+      // `relations()` entries name the related table but no columns to join on
+      relations: table.relations.filter((rel) => rel.fromColumns.length > 0 && rel.toColumns.length > 0).map((rel) => ({
         fromTable: rel.fromTable,
-        fromColumn: rel.fromColumns[0] || '',
+        ...relationKey(rel.fromColumns, rel.toColumns, rel.constraintName),
         toTable: rel.toTable,
-        toColumn: rel.toColumns[0] || '',
         cardinality: mapRelationCardinality(rel.type),
         onDelete: rel.onDelete || undefined,
       })),
       primaryKey: table.primaryKey,
     })),
+    enums: (schema.enums || []).map((e) => ({ name: e.name, values: e.values })),
     databaseType: 'drizzle',
     schemaName: schema.dialect,
     source,
@@ -271,17 +500,36 @@ function convertFirebase(schema: FirebaseSchemaInfo): UnifiedSchemaInfo {
   };
 }
 
+/**
+ * Foreign key as the SQL extractors report it, one entry per constraint.
+ */
+interface SqlForeignKey {
+  name?: string;
+  columns: string[];
+  referencesTable: string;
+  referencesColumns: string[];
+  onDelete?: string | null;
+  onUpdate?: string | null;
+}
+
+/**
+ * Accept the single-column shape (`column`/`referencesColumn`) of schemas
+ * extracted before composite keys were supported.
+ */
+function normalizeForeignKey(fk: any): SqlForeignKey {
+  return {
+    ...fk,
+    columns: fk.columns || [fk.column],
+    referencesColumns: fk.referencesColumns || [fk.referencesColumn],
+  };
+}
+
 function convertTable(
   table: any,
-  foreignKeys: {
-    column: string;
-    referencesTable: string;
-    referencesColumn: string;
-    onDelete?: string;
-    onUpdate?: string;
-  }[],
+  rawForeignKeys: SqlForeignKey[],
   indexes: { name: string; columns: string[]; unique: boolean; isPrimaryKey?: boolean }[]
 ): UnifiedTableInfo {
+  const foreignKeys = rawForeignKeys.map(normalizeForeignKey);
   const primaryKeySet = new Set(table.primaryKey || []);
   const uniqueColumns = new Set<string>();
   indexes.forEach((idx) => {
@@ -290,8 +538,14 @@ function convertTable(
     }
   });
 
-  const fkMap = new Map<string, typeof foreignKeys[0]>();
-  foreignKeys.forEach((fk) => fkMap.set(fk.column, fk));
+  // Each column of a composite key references the column at the same position
+  const fkMap = new Map<string, { referencesTable: string; referencesColumn: string; onDelete?: string; onUpdate?: string }>();
+  foreignKeys.forEach((fk) => fk.columns.forEach((column, i) => fkMap.set(column, {
+    referencesTable: fk.referencesTable,
+    referencesColumn: fk.referencesColumns[i],
+    onDelete: fk.onDelete || undefined,
+    onUpdate: fk.onUpdate || undefined,
+  })));
 
   return {
     name: table.name,
@@ -311,6 +565,7 @@ function convertTable(
         onDelete: fk?.onDelete,
         onUpdate: fk?.onUpdate,
         description: col.description || col.comment || undefined,
+        ...columnDetails(col),
       };
     }),
     indexes: indexes.map((idx) => ({
@@ -321,14 +576,14 @@ function convertTable(
     })),
     relations: foreignKeys.map((fk) => ({
       fromTable: table.name,
-      fromColumn: fk.column,
+      ...relationKey(fk.columns, fk.referencesColumns, fk.name),
       toTable: fk.referencesTable,
-      toColumn: fk.referencesColumn,
-      cardinality: 'N:1',
-      onDelete: fk.onDelete,
-      onUpdate: fk.onUpdate,
+      cardinality: 'N:1' as const,
+      onDelete: fk.onDelete || undefined,
+      onUpdate: fk.onUpdate || undefined,
     })),
     primaryKey: table.primaryKey || [],
+    ...convertChecks(table.checks),
   };
 }
 
@@ -362,6 +617,7 @@ function convertSQLiteTable(table: any): UnifiedTableInfo {
         onDelete: fk?.onDelete,
         onUpdate: fk?.onUpdate,
         description: undefined,
+        ...columnDetails(col),
       };
     }),
     indexes: (table.indexes || []).map((idx: any) => ({
@@ -370,19 +626,140 @@ function convertSQLiteTable(table: any): UnifiedTableInfo {
       unique: idx.unique,
       isPrimaryKey: idx.isPrimaryKey,
     })),
-    relations: (table.foreignKeys || []).map((fk: any) => ({
+    relations: groupSQLiteForeignKeys(table.foreignKeys || []).map((rows) => ({
       fromTable: table.name,
-      fromColumn: fk.from,
-      toTable: fk.table,
-      toColumn: fk.to,
-      cardinality: 'N:1',
-      onDelete: fk.onDelete,
-      onUpdate: fk.onUpdate,
+      ...relationKey(rows.map((fk) => fk.from), rows.map((fk) => fk.to)),
+      toTable: rows[0].table,
+      cardinality: 'N:1' as const,
+      onDelete: rows[0].onDelete,
+      onUpdate: rows[0].onUpdate,
     })),
     primaryKey: table.primaryKey || [],
+    ...convertChecks(table.checks),
   };
 }
 
+/**
+ * PRAGMA foreign_key_list returns one row per column; rows sharing an id
+ * form one (possibly composite) key, ordered by seq.
+ */
+function groupSQLiteForeignKeys(foreignKeys: any[]): any[][] {
+  const groups = new Map<number, any[]>();
+  for (const fk of foreignKeys) {
+    groups.set(fk.id, [...(groups.get(fk.id) || []), fk]);
+  }
+  return Array.from(groups.values()).map((rows) => rows.sort((a, b) => a.seq - b.seq));
+}
+
+/**
+ * Length, precision, identity and generation details shared by the SQL extractors.
+ */
+function columnDetails(col: any): Partial<UnifiedColumnInfo> {
+  const details: Partial<UnifiedColumnInfo> = {};
+  if (col.maxLength) details.maxLength = col.maxLength;
+  if (col.precision) {
+    details.precision = col.precision;
+    details.scale = col.scale ?? 0;
+  }
+  if (col.identity) details.identity = col.identity;
+  if (col.generated) details.generated = col.generated;
+  if (col.onUpdateValue) details.onUpdateValue = col.onUpdateValue;
+  return details;
+}
+
+function convertChecks(checks: { name?: string; definition: string; columns: string[] }[] | undefined): Pick<UnifiedTableInfo, 'checks'> {
+  if (!checks || checks.length === 0) return {};
+  return {
+    checks: checks.map((check) => ({
+      ...(check.name ? { name: check.name } : {}),
+      expression: check.definition,
+      columns: check.columns,
+    })),
+  };
+}
+
+/**
+ * View fields of a unified table; plain tables get none.
+ */
+function viewInfo(
+  kind: UnifiedTableKind | undefined,
+  definition?: string | null,
+  dependsOn?: string[]
+): Pick<UnifiedTableInfo, 'kind' | 'definition' | 'dependsOn'> {
+  if (!kind || kind === 'table') return {};
+  return {
+    kind,
+    ...(definition ? { definition } : {}),
+    ...(dependsOn && dependsOn.length > 0 ? { dependsOn } : {}),
+  };
+}
+
+/**
+ * Trigger fields of a unified table; tables without triggers get none.
+ */
+function triggerInfo(
+  triggers: (Omit<UnifiedTriggerInfo, 'definition'> & { definition?: string | null })[] | undefined
+): Pick<UnifiedTableInfo, 'triggers'> {
+  if (!triggers || triggers.length === 0) return {};
+  return {
+    triggers: triggers.map((trigger) => ({
+      name: trigger.name,
+      timing: trigger.timing,
+      events: trigger.events,
+      ...(trigger.level ? { level: trigger.level } : {}),
+      ...(trigger.function ? { function: trigger.function } : {}),
+      setsColumns: trigger.setsColumns || [],
+      ...(trigger.definition ? { definition: trigger.definition } : {}),
+    })),
+  };
+}
+
+/**
+ * Row-level security fields of a unified table; tables without RLS or policies get none.
+ */
+function securityInfo(
+  table: Pick<PostgresSchemaInfo['tables'][number], 'rowLevelSecurity' | 'forceRowLevelSecurity' | 'policies'>
+): Pick<UnifiedTableInfo, 'rowLevelSecurity' | 'forceRowLevelSecurity' | 'policies'> {
+  const policies = table.policies || [];
+  if (!table.rowLevelSecurity && policies.length === 0) return {};
+  return {
+    rowLevelSecurity: Boolean(table.rowLevelSecurity),
+    ...(table.forceRowLevelSecurity ? { forceRowLevelSecurity: true } : {}),
+    policies: policies.map((policy) => ({
+      name: policy.name,
+      command: policy.command,
+      permissive: policy.permissive,
+      roles: policy.roles,
+      ...(policy.using ? { using: policy.using } : {}),
+      ...(policy.withCheck ? { withCheck: policy.withCheck } : {}),
+    })),
+  };
+}
+
+function convertRoutines(
+  routines: {
+    name: string;
+    schema?: string;
+    kind: 'function' | 'procedure';
+    arguments: string;
+    returnType: string | null;
+    language: string;
+    description: string | null;
+    body: string | null;
+  }[] | undefined
+): UnifiedRoutineInfo[] {
+  return (routines || []).map((routine) => ({
+    name: routine.name,
+    ...(routine.schema ? { schema: routine.schema } : {}),
+    kind: routine.kind,
+    arguments: routine.arguments,
+    ...(routine.returnType ? { returnType: routine.returnType } : {}),
+    language: routine.language,
+    ...(routine.description ? { description: routine.description } : {}),
+    ...(routine.body ? { body: routine.body } : {}),
+  }));
+}
+
 function mapRelationCardinality(type: string): UnifiedRelationInfo['cardinality'] {
   switch (type) {
     case 'one-to-one':
@@ -410,18 +787,37 @@ export interface SchemaExtractor {
 export async function createExtractor(
   type: ExtractorType,
   connectionString: string,
-  options?: { schemaPath?: string; projectId?: string; serviceAccountPath?: string }
+  options?: {
+    schemaPath?: string;
+    projectId?: string;
+    serviceAccountPath?: string;
+    sampleSize?: number;
+    schemas?: string[];
+    allSchemas?: boolean;
+    viewDefinitions?: boolean;
+    routineBodies?: boolean;
+    onProgress?: (step: ExtractionStep) => void;
+  }
 ): Promise<SchemaExtractor> {
   switch (type) {
     case 'postgresql':
       const { PostgresExtractor } = await import('./postgres.js');
-      return new PostgresExtractor(connectionString);
+      return new PostgresExtractor(connectionString, {
+        schemas: options?.schemas,
+        allSchemas: options?.allSchemas,
+        viewDefinitions: options?.viewDefinitions,
+        routineBodies: options?.routineBodies,
+        onProgress: options?.onProgress,
+      });
     case 'mysql':
       const { MySQLExtractor } = await import('./mysql.js');
-      return new MySQLExtractor(connectionString);
+      return new MySQLExtractor(connectionString, {
+        viewDefinitions: options?.viewDefinitions,
+        routineBodies: options?.routineBodies,
+      });
     case 'sqlite':
       const { SQLiteExtractor } = await import('./sqlite.js');
-      return new SQLiteExtractor(connectionString);
+      return new SQLiteExtractor(connectionString, { viewDefinitions: options?.viewDefinitions });
     case 'prisma':
       const { PrismaExtractor } = await import('./prisma.js');
       return new PrismaExtractor(options?.schemaPath || 'prisma/schema.prisma');
@@ -430,12 +826,12 @@ export async function createExtractor(
       return new DrizzleExtractor(options?.schemaPath || 'src/db/schema.ts');
     case 'mongodb':
       const { MongoDBExtractor } = await import('./mongodb.js');
-      return new MongoDBExtractor(connectionString);
+      return new MongoDBExtractor(connectionString, options?.sampleSize);
     case 'firebase':
       const { FirebaseExtractor } = await import('./firebase.js');
       const projectId = options?.projectId || 'unknown';
       const serviceAccountPath = options?.serviceAccountPath;
-      return new FirebaseExtractor(projectId, serviceAccountPath);
+      return new FirebaseExtractor(projectId, serviceAccountPath, options?.sampleSize);
     default:
       throw new Error(`Unknown extractor type: ${type}`);
   }
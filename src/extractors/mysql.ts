@@ -12,6 +12,24 @@ export interface MySQLColumnInfo {
   default: string | null;
   extra: string;
   comment: string;
+  /** Character length limit, e.g. 255 for `varchar(255)` */
+  maxLength?: number;
+  /** Precision and scale of `decimal(p,s)` columns */
+  precision?: number;
+  scale?: number;
+  /** AUTO_INCREMENT columns */
+  identity?: 'by-default';
+  /** `GENERATED ALWAYS AS (expression) STORED|VIRTUAL` */
+  generated?: { expression: string; stored: boolean };
+  /** `ON UPDATE CURRENT_TIMESTAMP` */
+  onUpdateValue?: string;
+}
+
+export interface MySQLCheckConstraintInfo {
+  name: string;
+  /** e.g. `CHECK (\`total\` >= 0)` */
+  definition: string;
+  columns: string[];
 }
 
 export interface MySQLIndexInfo {
@@ -23,35 +41,101 @@ export interface MySQLIndexInfo {
 }
 
 export interface MySQLForeignKeyInfo {
-  column: string;
+  /** Constraint name */
+  name: string;
+  /** Referencing columns in key order */
+  columns: string[];
   referencesTable: string;
-  referencesColumn: string;
+  /** Referenced columns, pairwise with `columns` */
+  referencesColumns: string[];
   onDelete: string | null;
   onUpdate: string | null;
 }
 
+export interface MySQLTriggerInfo {
+  name: string;
+  timing: 'BEFORE' | 'AFTER';
+  /** A MySQL trigger fires on a single event */
+  events: string[];
+  /** Columns the trigger assigns with `SET NEW.column = ...` */
+  setsColumns: string[];
+  /** Trigger body, only when `routineBodies` is enabled */
+  definition: string | null;
+}
+
+export interface MySQLRoutineInfo {
+  name: string;
+  kind: 'function' | 'procedure';
+  /** e.g. `IN order_id int, OUT total decimal(12,2)` */
+  arguments: string;
+  /** Null for procedures */
+  returnType: string | null;
+  language: string;
+  description: string | null;
+  /** Source, only when `routineBodies` is enabled */
+  body: string | null;
+}
+
 export interface MySQLTableInfo {
   name: string;
+  kind: 'table' | 'view';
   columns: MySQLColumnInfo[];
   indexes: MySQLIndexInfo[];
   foreignKeys: MySQLForeignKeyInfo[];
   primaryKey: string[];
+  checks: MySQLCheckConstraintInfo[];
+  triggers: MySQLTriggerInfo[];
   engine: string;
   comment: string;
   autoIncrement: string | null;
+  /** View SQL, only when `viewDefinitions` is enabled */
+  definition: string | null;
+  /** Tables and views a view reads from */
+  dependsOn: string[];
 }
 
 export interface MySQLSchemaInfo {
   tables: MySQLTableInfo[];
+  routines: MySQLRoutineInfo[];
   databaseType: 'mysql';
   databaseName: string;
 }
 
+export interface MySQLExtractorOptions {
+  /** Include the SQL of views */
+  viewDefinitions?: boolean;
+  /** Include the source of functions, procedures and triggers */
+  routineBodies?: boolean;
+}
+
+/**
+ * Columns a trigger assigns on the new row (`SET NEW.updated_at = NOW()`).
+ */
+function assignedColumns(body: string | null): string[] {
+  const columns = new Set<string>();
+  for (const match of (body || '').matchAll(/(?:\bSET\s+|,\s*)NEW\.`?(\w+)`?\s*=/gi)) {
+    columns.add(match[1]);
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Whether a CHECK clause mentions the column, bare or backtick-quoted.
+ */
+function mentionsColumn(clause: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\`${escaped}\`|(?<![\\w$])${escaped}(?![\\w$])`).test(clause);
+}
+
 export class MySQLExtractor {
   private pool: Pool;
   private databaseName: string;
+  private viewDefinitions: boolean;
+  private routineBodies: boolean;
 
-  constructor(connectionString: string) {
+  constructor(connectionString: string, options: MySQLExtractorOptions = {}) {
+    this.viewDefinitions = Boolean(options.viewDefinitions);
+    this.routineBodies = Boolean(options.routineBodies);
     // Parse connection string to extract database name
     const url = new URL(connectionString);
     this.databaseName = url.pathname.slice(1) || 'database';
@@ -82,19 +166,44 @@ export class MySQLExtractor {
           
           return {
             name: tableName,
+            kind: table.kind || 'table',
             comment: table.comment || '',
-            engine: table.engine || 'InnoDB',
+            engine: table.engine || (table.kind === 'view' ? '' : 'InnoDB'),
             autoIncrement: table.autoIncrement || null,
             columns,
             indexes,
             foreignKeys,
             primaryKey,
+            checks: [] as MySQLCheckConstraintInfo[],
+            triggers: [] as MySQLTriggerInfo[],
+            definition: table.definition || null,
+            dependsOn: [] as string[],
           };
         })
       );
 
+      const checks = await this.extractCheckConstraints(connection, tablesWithDetails);
+      for (const table of tablesWithDetails) {
+        table.checks = checks.get(table.name) || [];
+      }
+
+      const triggers = await this.extractTriggers(connection);
+      for (const table of tablesWithDetails) {
+        table.triggers = triggers.get(table.name) || [];
+      }
+
+      if (tablesWithDetails.some((t) => t.kind === 'view')) {
+        const dependencies = await this.extractViewDependencies(connection);
+        for (const table of tablesWithDetails) {
+          table.dependsOn = dependencies.get(table.name) || [];
+        }
+      }
+
+      const routines = await this.extractRoutines(connection);
+
       return {
         tables: tablesWithDetails,
+        routines,
         databaseType: 'mysql' as const,
         databaseName: this.databaseName,
       };
@@ -106,23 +215,52 @@ export class MySQLExtractor {
   private async extractTables(connection: PoolConnection): Promise<Partial<MySQLTableInfo>[]> {
     const [rows] = await connection.query<RowDataPacket[]>(`
       SELECT 
-        TABLE_NAME as table_name,
-        TABLE_COMMENT as table_comment,
-        ENGINE as engine,
-        AUTO_INCREMENT as auto_increment
-      FROM information_schema.TABLES
-      WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'
-      ORDER BY TABLE_NAME
-    `, [this.databaseName]);
+        t.TABLE_NAME as table_name,
+        t.TABLE_TYPE as table_type,
+        t.TABLE_COMMENT as table_comment,
+        t.ENGINE as engine,
+        t.AUTO_INCREMENT as auto_increment,
+        CASE WHEN ? THEN v.VIEW_DEFINITION END as view_definition
+      FROM information_schema.TABLES t
+      LEFT JOIN information_schema.VIEWS v
+        ON v.TABLE_SCHEMA = t.TABLE_SCHEMA AND v.TABLE_NAME = t.TABLE_NAME
+      WHERE t.TABLE_SCHEMA = ? AND t.TABLE_TYPE IN ('BASE TABLE', 'VIEW')
+      ORDER BY t.TABLE_NAME
+    `, [this.viewDefinitions, this.databaseName]);
 
     return rows.map((row) => ({
       name: row.table_name,
-      comment: row.table_comment,
+      kind: row.table_type === 'VIEW' ? 'view' as const : 'table' as const,
+      // MySQL sets the comment of views to 'VIEW'
+      comment: row.table_type === 'VIEW' ? '' : row.table_comment,
       engine: row.engine,
       autoIncrement: row.auto_increment?.toString() || null,
+      definition: row.view_definition || null,
     }));
   }
 
+  /**
+   * Tables each view reads from, keyed by view name. VIEW_TABLE_USAGE needs
+   * MySQL 8.0.13+; older servers and MariaDB report no dependencies.
+   */
+  private async extractViewDependencies(connection: PoolConnection): Promise<Map<string, string[]>> {
+    const dependencies = new Map<string, string[]>();
+    try {
+      const [rows] = await connection.query<RowDataPacket[]>(`
+        SELECT VIEW_NAME as view_name, TABLE_NAME as table_name
+        FROM information_schema.VIEW_TABLE_USAGE
+        WHERE VIEW_SCHEMA = ? AND TABLE_SCHEMA = ?
+        ORDER BY VIEW_NAME, TABLE_NAME
+      `, [this.databaseName, this.databaseName]);
+      for (const row of rows) {
+        dependencies.set(row.view_name, [...(dependencies.get(row.view_name) || []), row.table_name]);
+      }
+    } catch {
+      // Table missing on this server version
+    }
+    return dependencies;
+  }
+
   private async extractColumns(
     connection: PoolConnection,
     tableName: string
@@ -134,20 +272,151 @@ export class MySQLExtractor {
         IS_NULLABLE as is_nullable,
         COLUMN_DEFAULT as column_default,
         EXTRA as extra,
-        COLUMN_COMMENT as column_comment
+        COLUMN_COMMENT as column_comment,
+        DATA_TYPE as data_type,
+        CHARACTER_MAXIMUM_LENGTH as character_maximum_length,
+        NUMERIC_PRECISION as numeric_precision,
+        NUMERIC_SCALE as numeric_scale,
+        GENERATION_EXPRESSION as generation_expression
       FROM information_schema.COLUMNS
       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
       ORDER BY ORDINAL_POSITION
     `, [this.databaseName, tableName]);
 
-    return rows.map((row) => ({
-      name: row.column_name,
-      type: row.column_type,
-      nullable: row.is_nullable === 'YES',
-      default: row.column_default,
-      extra: row.extra,
-      comment: row.column_comment,
-    }));
+    return rows.map((row) => {
+      const extra: string = row.extra || '';
+      const isGenerated = /\b(VIRTUAL|STORED) GENERATED\b/i.test(extra);
+      const onUpdate = extra.match(/\bon update (\w+(?:\(\d*\))?)/i);
+      return {
+        name: row.column_name,
+        type: row.column_type,
+        nullable: row.is_nullable === 'YES',
+        default: row.column_default,
+        extra,
+        comment: row.column_comment,
+        ...(row.character_maximum_length && !/(text|blob)$/i.test(row.data_type || '')
+          ? { maxLength: Number(row.character_maximum_length) }
+          : {}),
+        ...(/^(decimal|numeric)$/i.test(row.data_type || '') && row.numeric_precision
+          ? { precision: Number(row.numeric_precision), scale: Number(row.numeric_scale ?? 0) }
+          : {}),
+        ...(/auto_increment/i.test(extra) ? { identity: 'by-default' as const } : {}),
+        ...(isGenerated
+          ? { generated: { expression: row.generation_expression || '', stored: /STORED GENERATED/i.test(extra) } }
+          : {}),
+        ...(onUpdate ? { onUpdateValue: onUpdate[1] } : {}),
+      };
+    });
+  }
+
+  /**
+   * CHECK constraints keyed by table name. information_schema.CHECK_CONSTRAINTS
+   * needs MySQL 8.0.16+ or MariaDB 10.2+; older servers enforce no checks.
+   */
+  private async extractCheckConstraints(
+    connection: PoolConnection,
+    tables: { name: string; columns: MySQLColumnInfo[] }[]
+  ): Promise<Map<string, MySQLCheckConstraintInfo[]>> {
+    const checks = new Map<string, MySQLCheckConstraintInfo[]>();
+    let rows: RowDataPacket[] = [];
+    try {
+      [rows] = await connection.query<RowDataPacket[]>(`
+        SELECT tc.TABLE_NAME as table_name, cc.CONSTRAINT_NAME as constraint_name, cc.CHECK_CLAUSE as check_clause
+        FROM information_schema.TABLE_CONSTRAINTS tc
+        JOIN information_schema.CHECK_CONSTRAINTS cc
+          ON cc.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA AND cc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+        WHERE tc.TABLE_SCHEMA = ? AND tc.CONSTRAINT_TYPE = 'CHECK'
+        ORDER BY tc.TABLE_NAME, cc.CONSTRAINT_NAME
+      `, [this.databaseName]);
+    } catch {
+      return checks;
+    }
+
+    for (const row of rows || []) {
+      const table = tables.find((t) => t.name === row.table_name);
+      const clause: string = row.check_clause || '';
+      // No column list in the catalog; take the column names the clause mentions
+      const columns = (table?.columns || [])
+        .map((c) => c.name)
+        .filter((name) => mentionsColumn(clause, name));
+      checks.set(row.table_name, [
+        ...(checks.get(row.table_name) || []),
+        { name: row.constraint_name, definition: `CHECK (${clause})`, columns },
+      ]);
+    }
+    return checks;
+  }
+
+  /**
+   * Triggers of every table, keyed by table name.
+   */
+  private async extractTriggers(connection: PoolConnection): Promise<Map<string, MySQLTriggerInfo[]>> {
+    const [rows] = await connection.query<RowDataPacket[]>(`
+      SELECT
+        EVENT_OBJECT_TABLE as table_name,
+        TRIGGER_NAME as trigger_name,
+        ACTION_TIMING as timing,
+        EVENT_MANIPULATION as event,
+        ACTION_STATEMENT as action_statement
+      FROM information_schema.TRIGGERS
+      WHERE TRIGGER_SCHEMA = ?
+      ORDER BY EVENT_OBJECT_TABLE, ACTION_ORDER, TRIGGER_NAME
+    `, [this.databaseName]);
+
+    const triggers = new Map<string, MySQLTriggerInfo[]>();
+    for (const row of rows || []) {
+      triggers.set(row.table_name, [
+        ...(triggers.get(row.table_name) || []),
+        {
+          name: row.trigger_name,
+          timing: row.timing,
+          events: [row.event],
+          setsColumns: assignedColumns(row.action_statement),
+          definition: this.routineBodies ? row.action_statement : null,
+        },
+      ]);
+    }
+    return triggers;
+  }
+
+  /**
+   * Stored functions and procedures with their parameter lists.
+   */
+  private async extractRoutines(connection: PoolConnection): Promise<MySQLRoutineInfo[]> {
+    // Parameter 0 of a function is its return value
+    const [rows] = await connection.query<RowDataPacket[]>(`
+      SELECT
+        r.ROUTINE_NAME as routine_name,
+        r.ROUTINE_TYPE as routine_type,
+        r.DTD_IDENTIFIER as return_type,
+        r.ROUTINE_BODY as language,
+        r.ROUTINE_COMMENT as routine_comment,
+        CASE WHEN ? THEN r.ROUTINE_DEFINITION END as body,
+        (
+          SELECT GROUP_CONCAT(
+            CONCAT_WS(' ', IF(r.ROUTINE_TYPE = 'PROCEDURE', p.PARAMETER_MODE, NULL), p.PARAMETER_NAME, p.DTD_IDENTIFIER)
+            ORDER BY p.ORDINAL_POSITION SEPARATOR ', '
+          )
+          FROM information_schema.PARAMETERS p
+          WHERE p.SPECIFIC_SCHEMA = r.ROUTINE_SCHEMA AND p.SPECIFIC_NAME = r.SPECIFIC_NAME AND p.ORDINAL_POSITION > 0
+        ) as arguments
+      FROM information_schema.ROUTINES r
+      WHERE r.ROUTINE_SCHEMA = ?
+      ORDER BY r.ROUTINE_NAME
+    `, [this.routineBodies, this.databaseName]);
+
+    return (rows || []).map((row) => {
+      const kind = row.routine_type === 'PROCEDURE' ? 'procedure' as const : 'function' as const;
+      return {
+        name: row.routine_name,
+        kind,
+        arguments: row.arguments || '',
+        returnType: kind === 'function' ? row.return_type : null,
+        language: row.language || 'SQL',
+        description: row.routine_comment || null,
+        body: row.body || null,
+      };
+    });
   }
 
   private async extractIndexes(
@@ -193,26 +462,39 @@ export class MySQLExtractor {
     connection: PoolConnection,
     tableName: string
   ): Promise<MySQLForeignKeyInfo[]> {
+    // One row per column; rows of a composite key share the constraint name
     const [rows] = await connection.query<RowDataPacket[]>(`
       SELECT 
-        COLUMN_NAME as column_name,
-        REFERENCED_TABLE_NAME as referenced_table_name,
-        REFERENCED_COLUMN_NAME as referenced_column_name,
-        DELETE_RULE as delete_rule,
-        UPDATE_RULE as update_rule
-      FROM information_schema.KEY_COLUMN_USAGE
-      WHERE TABLE_SCHEMA = ? 
-        AND TABLE_NAME = ? 
-        AND REFERENCED_TABLE_NAME IS NOT NULL
+        kcu.CONSTRAINT_NAME as constraint_name,
+        kcu.COLUMN_NAME as column_name,
+        kcu.REFERENCED_TABLE_NAME as referenced_table_name,
+        kcu.REFERENCED_COLUMN_NAME as referenced_column_name,
+        rc.DELETE_RULE as delete_rule,
+        rc.UPDATE_RULE as update_rule
+      FROM information_schema.KEY_COLUMN_USAGE kcu
+      JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+        ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+      WHERE kcu.TABLE_SCHEMA = ? 
+        AND kcu.TABLE_NAME = ? 
+        AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+      ORDER BY kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
     `, [this.databaseName, tableName]);
 
-    return rows.map((row) => ({
-      column: row.column_name,
-      referencesTable: row.referenced_table_name,
-      referencesColumn: row.referenced_column_name,
-      onDelete: row.delete_rule,
-      onUpdate: row.update_rule,
-    }));
+    const foreignKeys = new Map<string, MySQLForeignKeyInfo>();
+    for (const row of rows) {
+      const fk = foreignKeys.get(row.constraint_name) || {
+        name: row.constraint_name,
+        columns: [],
+        referencesTable: row.referenced_table_name,
+        referencesColumns: [],
+        onDelete: row.delete_rule,
+        onUpdate: row.update_rule,
+      };
+      fk.columns.push(row.column_name);
+      fk.referencesColumns.push(row.referenced_column_name);
+      foreignKeys.set(row.constraint_name, fk);
+    }
+    return Array.from(foreignKeys.values());
   }
 
   async close(): Promise<void> {
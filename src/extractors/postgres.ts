@@ -11,6 +11,22 @@ export interface ColumnInfo {
   nullable: boolean;
   default: string | null;
   description: string | null;
+  /** Character length limit, e.g. 255 for `varchar(255)` */
+  maxLength?: number;
+  /** Precision and scale of `numeric(p,s)` columns */
+  precision?: number;
+  scale?: number;
+  /** `GENERATED ALWAYS AS IDENTITY` or `GENERATED BY DEFAULT AS IDENTITY` */
+  identity?: 'always' | 'by-default';
+  /** `GENERATED ALWAYS AS (expression) STORED` */
+  generated?: { expression: string; stored: boolean };
+}
+
+export interface CheckConstraintInfo {
+  name: string;
+  /** As returned by pg_get_constraintdef, e.g. `CHECK ((total >= (0)::numeric))` */
+  definition: string;
+  columns: string[];
 }
 
 export interface IndexInfo {
@@ -21,181 +37,821 @@ export interface IndexInfo {
 }
 
 export interface ForeignKeyInfo {
-  column: string;
+  /** Constraint name */
+  name: string;
+  /** Referencing columns in key order */
+  columns: string[];
+  referencesSchema: string;
   referencesTable: string;
-  referencesColumn: string;
+  /** Referenced columns, pairwise with `columns` */
+  referencesColumns: string[];
   onDelete: string | null;
   onUpdate: string | null;
 }
 
+export interface TriggerInfo {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  /** INSERT, UPDATE, DELETE and/or TRUNCATE */
+  events: string[];
+  level: 'ROW' | 'STATEMENT';
+  /** Trigger function, qualified outside public */
+  function: string;
+  /** Columns the trigger function assigns on NEW, e.g. `updated_at` */
+  setsColumns: string[];
+  /** `CREATE TRIGGER` statement, only when `routineBodies` is enabled */
+  definition: string | null;
+}
+
+export interface RoutineInfo {
+  name: string;
+  schema: string;
+  kind: 'function' | 'procedure';
+  /** Argument list as declared, e.g. `order_id integer, rate numeric DEFAULT 0` */
+  arguments: string;
+  /** Null for procedures */
+  returnType: string | null;
+  language: string;
+  description: string | null;
+  /** Source, only when `routineBodies` is enabled */
+  body: string | null;
+}
+
+export interface PolicyInfo {
+  name: string;
+  /** ALL, SELECT, INSERT, UPDATE or DELETE */
+  command: string;
+  /** Permissive policies are OR-ed, restrictive ones AND-ed */
+  permissive: boolean;
+  /** `public` applies to every role */
+  roles: string[];
+  /** Rows visible to or affected by the command */
+  using: string | null;
+  /** Rows the command may write */
+  withCheck: string | null;
+}
+
+export type RelationKind = 'table' | 'view' | 'materialized_view';
+
 export interface TableInfo {
   name: string;
+  schema: string;
+  kind: RelationKind;
   columns: ColumnInfo[];
   indexes: IndexInfo[];
   foreignKeys: ForeignKeyInfo[];
   primaryKey: string[];
+  checks: CheckConstraintInfo[];
+  triggers: TriggerInfo[];
+  /** `ALTER TABLE ... ENABLE ROW LEVEL SECURITY` */
+  rowLevelSecurity: boolean;
+  /** `FORCE ROW LEVEL SECURITY`: policies apply to the table owner too */
+  forceRowLevelSecurity: boolean;
+  policies: PolicyInfo[];
   description: string | null;
+  /** View SQL, only when `viewDefinitions` is enabled */
+  definition: string | null;
+  /** Tables and views a view reads from */
+  dependsOn: { schema: string; name: string }[];
+}
+
+export interface EnumInfo {
+  name: string;
+  schema: string;
+  values: string[];
+  description: string | null;
+}
+
+export interface DomainInfo {
+  name: string;
+  schema: string;
+  baseType: string;
+  nullable: boolean;
+  default: string | null;
+  checks: string[];
+}
+
+export interface CompositeTypeInfo {
+  name: string;
+  schema: string;
+  fields: { name: string; type: string }[];
 }
 
 export interface SchemaInfo {
   tables: TableInfo[];
+  enums: EnumInfo[];
+  domains: DomainInfo[];
+  compositeTypes: CompositeTypeInfo[];
+  routines: RoutineInfo[];
   databaseType: 'postgresql';
+  /** Comma-separated list of the extracted schemas */
   schemaName: string;
+  schemas: string[];
+}
+
+export interface ExtractionStep {
+  /** Catalog query, e.g. `columns` */
+  name: string;
+  /** Rows it returned */
+  rows: number;
+  durationMs: number;
+}
+
+export interface PostgresExtractorOptions {
+  /** Schemas to extract (default: public) */
+  schemas?: string[];
+  /** Extract every non-system schema */
+  allSchemas?: boolean;
+  /** Include the SQL of views and materialized views */
+  viewDefinitions?: boolean;
+  /** Include the source of functions, procedures and triggers */
+  routineBodies?: boolean;
+  /** Called after each catalog query */
+  onProgress?: (step: ExtractionStep) => void;
 }
 
+const SYSTEM_SCHEMAS = ['pg_catalog', 'information_schema', 'pg_toast'];
+
+/**
+ * information_schema spelling of built-in types, used for array element types
+ * which are only reported by their internal name (`_int4`).
+ */
+const BUILTIN_TYPE_NAMES: Record<string, string> = {
+  int2: 'smallint',
+  int4: 'integer',
+  int8: 'bigint',
+  float4: 'real',
+  float8: 'double precision',
+  bool: 'boolean',
+  varchar: 'character varying',
+  bpchar: 'character',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone',
+  time: 'time without time zone',
+  timetz: 'time with time zone',
+};
+
+/**
+ * Types and functions in public resolve through the default search_path, others need the schema.
+ */
+function qualifyName(schema: string, name: string): string {
+  return schema === 'public' || schema === 'pg_catalog' ? name : `${schema}.${name}`;
+}
+
+/**
+ * Spell out a pg_constraint action code the way information_schema does.
+ */
+function referentialAction(column: string): string {
+  return `CASE ${column} WHEN 'a' THEN 'NO ACTION' WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE' ` +
+    `WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' END`;
+}
+
+/**
+ * Columns a PL/pgSQL trigger function assigns on the new row (`NEW.updated_at := now()`).
+ */
+function assignedColumns(body: string | null): string[] {
+  const columns = new Set<string>();
+  for (const match of (body || '').matchAll(/(?:^|[;\n]|\bTHEN\b|\bELSE\b|\bBEGIN\b)\s*NEW\.(\w+)\s*:?=/gi)) {
+    columns.add(match[1].toLowerCase());
+  }
+  return Array.from(columns);
+}
+
+/**
+ * Group catalog rows by their `table_schema` and `table_name` columns.
+ */
+function groupByTable<T>(rows: any[], map: (row: any) => T): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = `${row.table_schema}.${row.table_name}`;
+    const list = groups.get(key) || [];
+    list.push(map(row));
+    groups.set(key, list);
+  }
+  return groups;
+}
+
+/**
+ * Types declared in the given schemas or used by their tables' columns,
+ * including the element type of array columns.
+ */
+const USED_TYPES_FILTER = `
+  (n.nspname = ANY($1) OR t.oid IN (
+    SELECT a.atttypid FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace cn ON cn.oid = c.relnamespace
+    WHERE cn.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm') AND a.attnum > 0 AND NOT a.attisdropped
+  ) OR t.typarray IN (
+    SELECT a.atttypid FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace cn ON cn.oid = c.relnamespace
+    WHERE cn.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm') AND a.attnum > 0 AND NOT a.attisdropped
+  ))
+`;
+
 export class PostgresExtractor {
   private pool: Pool;
+  private schemas: string[];
+  private allSchemas: boolean;
+  private viewDefinitions: boolean;
+  private routineBodies: boolean;
+  private onProgress?: (step: ExtractionStep) => void;
 
-  constructor(connectionString: string) {
+  constructor(connectionString: string, options: PostgresExtractorOptions = {}) {
     this.pool = new Pool({
       connectionString,
       ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
     });
+    this.schemas = options.schemas && options.schemas.length > 0 ? options.schemas : ['public'];
+    this.allSchemas = Boolean(options.allSchemas);
+    this.viewDefinitions = Boolean(options.viewDefinitions);
+    this.routineBodies = Boolean(options.routineBodies);
+    this.onProgress = options.onProgress;
   }
 
-  async extract(schemaName: string = 'public'): Promise<SchemaInfo> {
+  async extract(schemaNames: string | string[] = this.schemas): Promise<SchemaInfo> {
+    const requested = this.allSchemas ? null : ([] as string[]).concat(schemaNames);
     const client = await this.pool.connect();
     try {
-      const tables = await this.extractTables(client, schemaName);
-      const tablesWithDetails = await Promise.all(
-        tables.map(async (table) => {
-          const tableName = table.name || '';
-          const columns = await this.extractColumns(client, schemaName, tableName);
-          const indexes = await this.extractIndexes(client, schemaName, tableName);
-          const foreignKeys = await this.extractForeignKeys(client, schemaName, tableName);
-          const primaryKey = indexes.filter((i) => i.isPrimaryKey).flatMap((i) => i.columns);
-          
-          return {
-            name: tableName,
-            description: table.description,
-            columns,
-            indexes,
-            foreignKeys,
-            primaryKey,
-          };
-        })
-      );
+      // One query per kind of catalog object for all tables at once; per-table
+      // round trips do not scale to schemas with thousands of tables
+      const tables = await this.step('tables', () => this.extractTables(client, requested));
+      const schemas = requested || Array.from(new Set(tables.map((t) => t.schema)));
+      const columns = await this.step('columns', () => this.extractColumns(client, schemas));
+      // Materialized views are missing from information_schema.columns
+      if (tables.some((t) => t.kind === 'materialized_view')) {
+        const viewColumns = await this.step('materialized view columns', () =>
+          this.extractMaterializedViewColumns(client, schemas)
+        );
+        viewColumns.forEach((list, key) => columns.set(key, list));
+      }
+      const indexes = await this.step('indexes', () => this.extractIndexes(client, schemas));
+      const foreignKeys = await this.step('foreign keys', () => this.extractForeignKeys(client, schemas));
+      const checks = await this.step('check constraints', () => this.extractCheckConstraints(client, schemas));
+      const triggers = await this.step('triggers', () => this.extractTriggers(client, schemas));
+      const policies = await this.step('policies', () => this.extractPolicies(client, schemas));
+      const dependencies = tables.some((t) => t.kind !== 'table')
+        ? await this.step('view dependencies', () => this.extractViewDependencies(client, schemas))
+        : new Map<string, { schema: string; name: string }[]>();
+
+      const tablesWithDetails: TableInfo[] = tables.map((table) => {
+        const key = `${table.schema}.${table.name}`;
+        const tableIndexes = indexes.get(key) || [];
+        return {
+          ...table,
+          columns: columns.get(key) || [],
+          indexes: tableIndexes,
+          foreignKeys: foreignKeys.get(key) || [],
+          primaryKey: tableIndexes.filter((i) => i.isPrimaryKey).flatMap((i) => i.columns),
+          checks: checks.get(key) || [],
+          triggers: triggers.get(key) || [],
+          policies: policies.get(key) || [],
+          dependsOn: dependencies.get(key) || [],
+        };
+      });
+
+      const enums = await this.step('enums', () => this.extractEnums(client, schemas));
+      const domains = await this.step('domains', () => this.extractDomains(client, schemas));
+      const compositeTypes = await this.step('composite types', () => this.extractCompositeTypes(client, schemas));
+      const routines = await this.step('routines', () => this.extractRoutines(client, schemas));
 
       return {
         tables: tablesWithDetails,
+        enums,
+        domains,
+        compositeTypes,
+        routines,
         databaseType: 'postgresql' as const,
-        schemaName,
+        schemaName: schemas.join(','),
+        schemas,
       };
     } finally {
       client.release();
     }
   }
 
-  private async extractTables(client: PoolClient, schemaName: string): Promise<Partial<TableInfo>[]> {
+  /**
+   * Run one catalog query and report its row count and duration.
+   */
+  private async step<T extends unknown[] | Map<string, unknown[]>>(name: string, run: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    const result = await run();
+    const rows = Array.isArray(result)
+      ? result.length
+      : Array.from(result.values()).reduce((sum, list) => sum + list.length, 0);
+    this.onProgress?.({ name, rows, durationMs: Date.now() - started });
+    return result;
+  }
+
+  /**
+   * List base tables, views and materialized views of the requested schemas,
+   * or of every non-system schema when `schemaNames` is null.
+   */
+  private async extractTables(
+    client: PoolClient,
+    schemaNames: string[] | null
+  ): Promise<Pick<
+    TableInfo,
+    'name' | 'schema' | 'kind' | 'description' | 'definition' | 'rowLevelSecurity' | 'forceRowLevelSecurity'
+  >[]> {
+    const schemaFilter = (column: string) => schemaNames
+      ? `${column} = ANY($1)`
+      : `NOT (${column} = ANY($1)) AND ${column} NOT LIKE 'pg\\_%'`;
     const query = `
-      SELECT t.table_name, obj_description(c.oid, 'pg_class') as description
+      SELECT
+        t.table_schema,
+        t.table_name,
+        CASE t.table_type WHEN 'VIEW' THEN 'view' ELSE 'table' END as kind,
+        obj_description(c.oid, 'pg_class') as description,
+        CASE WHEN $2 AND t.table_type = 'VIEW' THEN pg_get_viewdef(c.oid, true) END as definition,
+        c.relrowsecurity as row_security,
+        c.relforcerowsecurity as force_row_security
       FROM information_schema.tables t
-      LEFT JOIN pg_class c ON c.relname = t.table_name
-      LEFT JOIN pg_namespace n ON n.oid = c.relnamespace
-      WHERE t.table_schema = $1
-        AND t.table_type = 'BASE TABLE'
-      ORDER BY t.table_name
+      LEFT JOIN pg_namespace n ON n.nspname = t.table_schema
+      LEFT JOIN pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
+      WHERE ${schemaFilter('t.table_schema')}
+        AND t.table_type IN ('BASE TABLE', 'VIEW')
+      UNION ALL
+      SELECT
+        n.nspname,
+        c.relname,
+        'materialized_view',
+        obj_description(c.oid, 'pg_class'),
+        CASE WHEN $2 THEN pg_get_viewdef(c.oid, true) END,
+        c.relrowsecurity,
+        c.relforcerowsecurity
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${schemaFilter('n.nspname')}
+        AND c.relkind = 'm'
+      ORDER BY 1, 2
     `;
-    const result = await client.query(query, [schemaName]);
+    const result = await client.query(query, [schemaNames || SYSTEM_SCHEMAS, this.viewDefinitions]);
     return result.rows.map((row) => ({
       name: row.table_name,
+      schema: row.table_schema || schemaNames?.[0],
+      kind: row.kind || 'table',
       description: row.description,
+      definition: row.definition || null,
+      rowLevelSecurity: Boolean(row.row_security),
+      forceRowLevelSecurity: Boolean(row.force_row_security),
     }));
   }
 
+  /**
+   * Tables and views each view or materialized view reads from, keyed by
+   * `schema.view`, taken from the dependencies of its rewrite rule.
+   */
+  private async extractViewDependencies(
+    client: PoolClient,
+    schemaNames: string[]
+  ): Promise<Map<string, { schema: string; name: string }[]>> {
+    const query = `
+      SELECT DISTINCT
+        vn.nspname AS view_schema,
+        v.relname AS view_name,
+        tn.nspname AS table_schema,
+        t.relname AS table_name
+      FROM pg_depend d
+      JOIN pg_rewrite r ON r.oid = d.objid
+      JOIN pg_class v ON v.oid = r.ev_class
+      JOIN pg_namespace vn ON vn.oid = v.relnamespace
+      JOIN pg_class t ON t.oid = d.refobjid
+      JOIN pg_namespace tn ON tn.oid = t.relnamespace
+      WHERE d.classid = 'pg_rewrite'::regclass
+        AND d.refclassid = 'pg_class'::regclass
+        AND v.relkind IN ('v', 'm')
+        AND t.oid <> v.oid
+        AND vn.nspname = ANY($1)
+      ORDER BY 1, 2, 3, 4
+    `;
+    const result = await client.query(query, [schemaNames]);
+    const dependencies = new Map<string, { schema: string; name: string }[]>();
+    for (const row of result.rows) {
+      const key = `${row.view_schema}.${row.view_name}`;
+      const list = dependencies.get(key) || [];
+      list.push({ schema: row.table_schema, name: row.table_name });
+      dependencies.set(key, list);
+    }
+    return dependencies;
+  }
+
+  /**
+   * Columns of every table and view in the schemas, keyed by `schema.table`.
+   */
   private async extractColumns(
     client: PoolClient,
-    schemaName: string,
-    tableName: string
-  ): Promise<ColumnInfo[]> {
+    schemaNames: string[]
+  ): Promise<Map<string, ColumnInfo[]>> {
     const query = `
       SELECT 
+        c.table_schema,
+        c.table_name,
         c.column_name,
         c.data_type,
+        c.udt_schema,
+        c.udt_name,
+        c.domain_schema,
+        c.domain_name,
         c.is_nullable = 'YES' as is_nullable,
         c.column_default,
-        pg_catalog.col_description(
-          (SELECT c.oid FROM pg_class WHERE relname = $2)::regclass::oid,
-          c.ordinal_position
-        ) as description
+        c.character_maximum_length,
+        c.numeric_precision,
+        c.numeric_scale,
+        c.is_identity = 'YES' as is_identity,
+        c.identity_generation,
+        c.is_generated = 'ALWAYS' as is_generated,
+        c.generation_expression,
+        a.attgenerated as generated_kind,
+        col_description(pc.oid, c.ordinal_position) as description
       FROM information_schema.columns c
-      WHERE c.table_schema = $1 AND c.table_name = $2
-      ORDER BY c.ordinal_position
+      JOIN pg_namespace n ON n.nspname = c.table_schema
+      JOIN pg_class pc ON pc.relname = c.table_name AND pc.relnamespace = n.oid
+      LEFT JOIN pg_attribute a ON a.attrelid = pc.oid AND a.attname = c.column_name
+      WHERE c.table_schema = ANY($1)
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
     `;
-    const result = await client.query(query, [schemaName, tableName]);
-    return result.rows.map((row) => ({
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
       name: row.column_name,
-      type: row.data_type,
+      type: this.resolveColumnType(row),
       nullable: row.is_nullable,
       default: row.column_default,
       description: row.description,
+      ...(row.character_maximum_length ? { maxLength: Number(row.character_maximum_length) } : {}),
+      // numeric_precision is also reported for integer and float types
+      ...(row.data_type === 'numeric' && row.numeric_precision
+        ? { precision: Number(row.numeric_precision), scale: Number(row.numeric_scale ?? 0) }
+        : {}),
+      ...(row.is_identity ? { identity: row.identity_generation === 'ALWAYS' ? 'always' as const : 'by-default' as const } : {}),
+      ...(row.is_generated ? { generated: { expression: row.generation_expression, stored: row.generated_kind === 's' } } : {}),
+    }));
+  }
+
+  /**
+   * CHECK constraints of every table in the schemas, keyed by `schema.table`.
+   */
+  private async extractCheckConstraints(
+    client: PoolClient,
+    schemaNames: string[]
+  ): Promise<Map<string, CheckConstraintInfo[]>> {
+    const query = `
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        con.conname AS constraint_name,
+        pg_get_constraintdef(con.oid) AS definition,
+        ARRAY(
+          SELECT a.attname FROM pg_attribute a
+          WHERE a.attrelid = con.conrelid AND a.attnum = ANY(con.conkey)
+          ORDER BY a.attnum
+        )::text[] AS columns
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE con.contype = 'c' AND n.nspname = ANY($1)
+      ORDER BY 1, 2, 3
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
+      name: row.constraint_name,
+      definition: row.definition,
+      columns: row.columns || [],
+    }));
+  }
+
+  /**
+   * User-defined triggers of every table in the schemas, keyed by `schema.table`.
+   * The trigger function source is read to find the columns it maintains.
+   */
+  private async extractTriggers(
+    client: PoolClient,
+    schemaNames: string[]
+  ): Promise<Map<string, TriggerInfo[]>> {
+    // tgtype bits: 1 row, 2 before, 4 insert, 8 delete, 16 update, 32 truncate, 64 instead of
+    const query = `
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        t.tgname AS trigger_name,
+        CASE WHEN t.tgtype & 2 = 2 THEN 'BEFORE' WHEN t.tgtype & 64 = 64 THEN 'INSTEAD OF' ELSE 'AFTER' END AS timing,
+        array_remove(ARRAY[
+          CASE WHEN t.tgtype & 4 = 4 THEN 'INSERT' END,
+          CASE WHEN t.tgtype & 16 = 16 THEN 'UPDATE' END,
+          CASE WHEN t.tgtype & 8 = 8 THEN 'DELETE' END,
+          CASE WHEN t.tgtype & 32 = 32 THEN 'TRUNCATE' END
+        ], NULL)::text[] AS events,
+        CASE WHEN t.tgtype & 1 = 1 THEN 'ROW' ELSE 'STATEMENT' END AS level,
+        fn.nspname AS function_schema,
+        p.proname AS function_name,
+        p.prosrc AS function_body,
+        CASE WHEN $2 THEN pg_get_triggerdef(t.oid, true) END AS definition
+      FROM pg_trigger t
+      JOIN pg_class c ON c.oid = t.tgrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_proc p ON p.oid = t.tgfoid
+      JOIN pg_namespace fn ON fn.oid = p.pronamespace
+      WHERE NOT t.tgisinternal AND n.nspname = ANY($1)
+      ORDER BY 1, 2, 3
+    `;
+    const result = await client.query(query, [schemaNames, this.routineBodies]);
+    return groupByTable(result.rows, (row) => ({
+      name: row.trigger_name,
+      timing: row.timing,
+      events: row.events || [],
+      level: row.level,
+      function: qualifyName(row.function_schema, row.function_name),
+      setsColumns: assignedColumns(row.function_body),
+      definition: row.definition || null,
+    }));
+  }
+
+  /**
+   * Row-level security policies of every table in the schemas, keyed by `schema.table`.
+   */
+  private async extractPolicies(
+    client: PoolClient,
+    schemaNames: string[]
+  ): Promise<Map<string, PolicyInfo[]>> {
+    const query = `
+      SELECT
+        schemaname AS table_schema,
+        tablename AS table_name,
+        policyname AS policy_name,
+        permissive = 'PERMISSIVE' AS is_permissive,
+        roles::text[] AS roles,
+        cmd AS command,
+        qual AS using_expression,
+        with_check AS check_expression
+      FROM pg_policies
+      WHERE schemaname = ANY($1)
+      ORDER BY 1, 2, 3
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
+      name: row.policy_name,
+      command: row.command,
+      permissive: row.is_permissive,
+      roles: row.roles || [],
+      using: row.using_expression,
+      withCheck: row.check_expression,
+    }));
+  }
+
+  /**
+   * Columns of every materialized view in the schemas, keyed by `schema.view`.
+   */
+  private async extractMaterializedViewColumns(
+    client: PoolClient,
+    schemaNames: string[]
+  ): Promise<Map<string, ColumnInfo[]>> {
+    const query = `
+      SELECT
+        n.nspname as table_schema,
+        c.relname as table_name,
+        a.attname as column_name,
+        format_type(a.atttypid, a.atttypmod) as data_type,
+        NOT a.attnotnull as is_nullable,
+        col_description(c.oid, a.attnum) as description
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ANY($1) AND c.relkind = 'm' AND a.attnum > 0 AND NOT a.attisdropped
+      ORDER BY n.nspname, c.relname, a.attnum
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable,
+      default: null,
+      description: row.description,
     }));
   }
 
+  /**
+   * Indexes of every table in the schemas, keyed by `schema.table`.
+   */
   private async extractIndexes(
     client: PoolClient,
-    schemaName: string,
-    tableName: string
-  ): Promise<IndexInfo[]> {
+    schemaNames: string[]
+  ): Promise<Map<string, IndexInfo[]>> {
+    // Expression index keys have attnum 0 and no column name
     const query = `
       SELECT 
+        n.nspname as table_schema,
+        t.relname as table_name,
         i.relname as index_name,
-        array_agg(a.attname ORDER BY ix.indkey::integer[]) as columns,
+        ARRAY(
+          SELECT a.attname FROM unnest(ix.indkey::integer[]) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] as columns,
         ix.indisunique as is_unique,
         ix.indisprimary as is_primary_key
-      FROM pg_class t
-      JOIN pg_index ix ON t.oid = ix.indrelid
+      FROM pg_index ix
+      JOIN pg_class t ON t.oid = ix.indrelid
       JOIN pg_class i ON i.oid = ix.indexrelid
       JOIN pg_namespace n ON n.oid = t.relnamespace
-      LEFT JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey::integer[])
-      WHERE t.relname = $1 AND n.nspname = $2
-      GROUP BY i.relname, ix.indisunique, ix.indisprimary
+      WHERE n.nspname = ANY($1)
+      ORDER BY 1, 2, 3
     `;
-    const result = await client.query(query, [tableName, schemaName]);
-    return result.rows.map((row) => ({
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
       name: row.index_name,
-      columns: row.columns.filter(Boolean),
+      columns: (row.columns || []).filter(Boolean),
       unique: row.is_unique,
       isPrimaryKey: row.is_primary_key,
     }));
   }
 
+  /**
+   * Foreign keys of every table in the schemas, keyed by `schema.table`.
+   */
   private async extractForeignKeys(
     client: PoolClient,
-    schemaName: string,
-    tableName: string
-  ): Promise<ForeignKeyInfo[]> {
+    schemaNames: string[]
+  ): Promise<Map<string, ForeignKeyInfo[]>> {
+    // information_schema cannot pair the columns of composite keys; pg_constraint keeps them in order
     const query = `
-      SELECT 
-        kcu.column_name,
-        ccu.table_name AS references_table,
-        ccu.column_name AS references_column,
-        rc.delete_rule AS on_delete,
-        rc.update_rule AS on_update
-      FROM information_schema.table_constraints AS tc
-      JOIN information_schema.key_column_usage AS kcu
-        ON tc.constraint_name = kcu.constraint_name
-        AND tc.table_schema = kcu.table_schema
-      JOIN information_schema.constraint_column_usage AS ccu
-        ON ccu.constraint_name = tc.constraint_name
-        AND ccu.table_schema = tc.table_schema
-      JOIN information_schema.referential_constraints AS rc
-        ON tc.constraint_name = rc.constraint_name
-        AND tc.table_schema = rc.constraint_schema
-      WHERE tc.constraint_type = 'FOREIGN KEY'
-        AND tc.table_schema = $1
-        AND tc.table_name = $2
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        con.conname AS constraint_name,
+        ARRAY(
+          SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS columns,
+        rn.nspname AS references_schema,
+        rc.relname AS references_table,
+        ARRAY(
+          SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        )::text[] AS references_columns,
+        ${referentialAction('con.confdeltype')} AS on_delete,
+        ${referentialAction('con.confupdtype')} AS on_update
+      FROM pg_constraint con
+      JOIN pg_class c ON c.oid = con.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_class rc ON rc.oid = con.confrelid
+      JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+      WHERE con.contype = 'f'
+        AND n.nspname = ANY($1)
+      ORDER BY 1, 2, 3
     `;
-    const result = await client.query(query, [schemaName, tableName]);
-    return result.rows.map((row) => ({
-      column: row.column_name,
+    const result = await client.query(query, [schemaNames]);
+    return groupByTable(result.rows, (row) => ({
+      name: row.constraint_name,
+      columns: row.columns || [],
+      referencesSchema: row.references_schema || row.table_schema,
       referencesTable: row.references_table,
-      referencesColumn: row.references_column,
+      referencesColumns: row.references_columns || [],
       onDelete: row.on_delete,
       onUpdate: row.on_update,
     }));
   }
 
+  /**
+   * information_schema reports enums and composites as `USER-DEFINED` and every
+   * array as `ARRAY`; resolve both to the actual type name.
+   */
+  private resolveColumnType(row: {
+    data_type: string;
+    udt_schema?: string;
+    udt_name?: string;
+    domain_schema?: string;
+    domain_name?: string;
+  }): string {
+    if (row.domain_name) {
+      return qualifyName(row.domain_schema || 'public', row.domain_name);
+    }
+    if (row.data_type === 'USER-DEFINED' && row.udt_name) {
+      return qualifyName(row.udt_schema || 'public', row.udt_name);
+    }
+    if (row.data_type === 'ARRAY' && row.udt_name?.startsWith('_')) {
+      const element = row.udt_name.slice(1);
+      const elementType = row.udt_schema === 'pg_catalog'
+        ? BUILTIN_TYPE_NAMES[element] || element
+        : qualifyName(row.udt_schema || 'public', element);
+      return `${elementType}[]`;
+    }
+    return row.data_type;
+  }
+
+  private async extractEnums(client: PoolClient, schemaNames: string[]): Promise<EnumInfo[]> {
+    const query = `
+      SELECT
+        n.nspname AS enum_schema,
+        t.typname AS enum_name,
+        array_agg(e.enumlabel ORDER BY e.enumsortorder)::text[] AS labels,
+        obj_description(t.oid, 'pg_type') AS description
+      FROM pg_type t
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE ${USED_TYPES_FILTER}
+      GROUP BY n.nspname, t.typname, t.oid
+      ORDER BY n.nspname, t.typname
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return result.rows.map((row) => ({
+      name: qualifyName(row.enum_schema, row.enum_name),
+      schema: row.enum_schema,
+      values: row.labels || [],
+      description: row.description,
+    }));
+  }
+
+  private async extractDomains(client: PoolClient, schemaNames: string[]): Promise<DomainInfo[]> {
+    const query = `
+      SELECT
+        n.nspname AS domain_schema,
+        t.typname AS domain_name,
+        format_type(t.typbasetype, t.typtypmod) AS base_type,
+        NOT t.typnotnull AS is_nullable,
+        t.typdefault AS default_value,
+        array_remove(array_agg(pg_get_constraintdef(con.oid) ORDER BY con.conname), NULL)::text[] AS checks
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      LEFT JOIN pg_constraint con ON con.contypid = t.oid
+      WHERE t.typtype = 'd' AND ${USED_TYPES_FILTER}
+      GROUP BY n.nspname, t.typname, t.typbasetype, t.typtypmod, t.typnotnull, t.typdefault
+      ORDER BY n.nspname, t.typname
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return result.rows.map((row) => ({
+      name: qualifyName(row.domain_schema, row.domain_name),
+      schema: row.domain_schema,
+      baseType: row.base_type,
+      nullable: row.is_nullable,
+      default: row.default_value,
+      checks: row.checks || [],
+    }));
+  }
+
+  private async extractCompositeTypes(client: PoolClient, schemaNames: string[]): Promise<CompositeTypeInfo[]> {
+    const query = `
+      SELECT
+        n.nspname AS type_schema,
+        t.typname AS type_name,
+        array_agg(a.attname ORDER BY a.attnum)::text[] AS field_names,
+        array_agg(format_type(a.atttypid, a.atttypmod) ORDER BY a.attnum)::text[] AS field_types
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+      JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      WHERE t.typtype = 'c' AND ${USED_TYPES_FILTER}
+      GROUP BY n.nspname, t.typname
+      ORDER BY n.nspname, t.typname
+    `;
+    const result = await client.query(query, [schemaNames]);
+    return result.rows.map((row) => ({
+      name: qualifyName(row.type_schema, row.type_name),
+      schema: row.type_schema,
+      fields: (row.field_names || []).map((name: string, i: number) => ({ name, type: row.field_types[i] })),
+    }));
+  }
+
+  /**
+   * Functions and procedures declared in the schemas, leaving out those
+   * installed by extensions.
+   */
+  private async extractRoutines(client: PoolClient, schemaNames: string[]): Promise<RoutineInfo[]> {
+    const query = `
+      SELECT
+        n.nspname AS routine_schema,
+        p.proname AS routine_name,
+        CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END AS kind,
+        pg_get_function_arguments(p.oid) AS arguments,
+        CASE WHEN p.prokind <> 'p' THEN pg_get_function_result(p.oid) END AS return_type,
+        l.lanname AS language,
+        obj_description(p.oid, 'pg_proc') AS description,
+        CASE WHEN $2 THEN p.prosrc END AS body
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_language l ON l.oid = p.prolang
+      WHERE n.nspname = ANY($1)
+        AND p.prokind IN ('f', 'p')
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend d
+          WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+        )
+      ORDER BY 1, 2, 4
+    `;
+    const result = await client.query(query, [schemaNames, this.routineBodies]);
+    return result.rows.map((row) => ({
+      name: qualifyName(row.routine_schema, row.routine_name),
+      schema: row.routine_schema,
+      kind: row.kind,
+      arguments: row.arguments || '',
+      returnType: row.return_type || null,
+      language: row.language,
+      description: row.description,
+      body: row.body || null,
+    }));
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
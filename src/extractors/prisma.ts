@@ -19,6 +19,8 @@ export interface PrismaColumnInfo {
   relationName: string | null;
   relationFields: string[];
   relationReferences: string[];
+  /** Foreign key constraint name from `@relation(map: "...")` */
+  relationMap: string | null;
   onDelete: string | null;
 }
 
@@ -36,10 +38,13 @@ export interface PrismaRelationInfo {
   toFields: string[];
   type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
   onDelete: string | null;
+  constraintName: string | null;
 }
 
 export interface PrismaTableInfo {
   name: string;
+  /** `view` blocks map to database views (previewFeatures = ["views"]) */
+  kind: 'table' | 'view';
   description: string | null;
   columns: PrismaColumnInfo[];
   indexes: PrismaIndexInfo[];
@@ -48,8 +53,14 @@ export interface PrismaTableInfo {
   uniqueConstraints: string[][];
 }
 
+export interface PrismaEnumInfo {
+  name: string;
+  values: string[];
+}
+
 export interface PrismaSchemaInfo {
   tables: PrismaTableInfo[];
+  enums: PrismaEnumInfo[];
   datasource: {
     provider: string;
     url: string;
@@ -63,6 +74,8 @@ export interface PrismaSchemaInfo {
 export class PrismaExtractor {
   private schemaPath: string;
   private schemaContent: string;
+  /** Enum names, so fields of an enum type are not taken for relations */
+  private enumNames = new Set<string>();
 
   constructor(schemaPath: string) {
     this.schemaPath = schemaPath;
@@ -78,10 +91,13 @@ export class PrismaExtractor {
     
     const datasource = this.parseDatasource();
     const generator = this.parseGenerator();
+    const enums = this.parseEnums();
+    this.enumNames = new Set(enums.map((e) => e.name));
     const tables = this.parseModels();
 
     return {
       tables,
+      enums,
       datasource,
       generator,
     };
@@ -107,17 +123,39 @@ export class PrismaExtractor {
     };
   }
 
+  /**
+   * `enum Role { USER ADMIN @map("admin") }`. Values keep their Prisma names,
+   * which is what the client reads and writes.
+   */
+  private parseEnums(): PrismaEnumInfo[] {
+    const enums: PrismaEnumInfo[] = [];
+    const enumRegex = /\benum\s+(\w+)\s*\{([^}]*)\}/g;
+
+    let match;
+    while ((match = enumRegex.exec(this.schemaContent)) !== null) {
+      const values = match[2]
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith('//') && !line.startsWith('@@'))
+        .map((line) => line.split(/\s+/)[0]);
+      enums.push({ name: match[1], values });
+    }
+
+    return enums;
+  }
+
   private parseModels(): PrismaTableInfo[] {
     const models: PrismaTableInfo[] = [];
-    const modelRegex = /model\s+(\w+)\s*\{([^}]+)\}/g;
+    const modelRegex = /\b(model|view)\s+(\w+)\s*\{([^}]+)\}/g;
     
     let match;
     while ((match = modelRegex.exec(this.schemaContent)) !== null) {
-      const modelName = match[1];
-      const modelBody = match[2];
+      const kind = match[1] === 'view' ? 'view' : 'table';
+      const modelName = match[2];
+      const modelBody = match[3];
       
       const table = this.parseModel(modelName, modelBody);
-      models.push(table);
+      models.push({ ...table, kind });
     }
 
     // Parse relations after all models are extracted
@@ -180,6 +218,7 @@ export class PrismaExtractor {
 
     return {
       name,
+      kind: 'table',
       description: null,
       columns,
       indexes,
@@ -205,6 +244,7 @@ export class PrismaExtractor {
     let relationName: string | null = null;
     const relationFields: string[] = [];
     const relationReferences: string[] = [];
+    let relationMap: string | null = null;
     let onDelete: string | null = null;
 
     const builtInTypes = [
@@ -229,7 +269,8 @@ export class PrismaExtractor {
         case 'relation':
           isRelation = true;
           if (body) {
-            const nameMatch = body.match(/name:\s*["']([^"']+)["']/);
+            // `@relation("Author", ...)` or `@relation(name: "Author", ...)`
+            const nameMatch = body.match(/^\s*["']([^"']+)["']/) || body.match(/name:\s*["']([^"']+)["']/);
             if (nameMatch) {
               relationName = nameMatch[1];
             }
@@ -241,6 +282,10 @@ export class PrismaExtractor {
             if (referencesMatch) {
               relationReferences.push(...this.parsePrismaList(referencesMatch[1]));
             }
+            const mapMatch = body.match(/map:\s*["']([^"']+)["']/);
+            if (mapMatch) {
+              relationMap = mapMatch[1];
+            }
             const onDeleteMatch = body.match(/onDelete:\s*([A-Za-z_]+)/);
             if (onDeleteMatch) {
               onDelete = onDeleteMatch[1].toUpperCase();
@@ -250,7 +295,7 @@ export class PrismaExtractor {
       }
     }
 
-    const isBuiltIn = builtInTypes.includes(type);
+    const isBuiltIn = builtInTypes.includes(type) || this.enumNames.has(type);
     if (!isBuiltIn) {
       isRelation = true;
     }
@@ -268,6 +313,7 @@ export class PrismaExtractor {
       relationName,
       relationFields,
       relationReferences,
+      relationMap,
       onDelete,
     };
   }
@@ -275,54 +321,32 @@ export class PrismaExtractor {
   private parseRelations(models: PrismaTableInfo[]): void {
     const modelMap = new Map(models.map((m) => [m.name, m]));
 
-    // Find all relation fields and update them
-    for (const model of models) {
-      for (const column of model.columns) {
-        if (column.isRelation && !column.relationName) {
-          // Try to find the related model
-          const relatedModel = modelMap.get(column.type);
-          if (relatedModel) {
-            // Find corresponding relation field in related model
-            for (const relatedCol of relatedModel.columns) {
-              if (relatedCol.isRelation && relatedCol.type === model.name) {
-                // This is a bidirectional relation
-                column.relationFields = [column.name];
-                column.relationReferences = [relatedCol.name];
-                break;
-              }
-            }
-          }
-        }
-      }
-    }
-
     // Build relation info
     for (const model of models) {
       for (const column of model.columns) {
         if (column.isRelation) {
           const relatedModel = modelMap.get(column.type);
-          if (relatedModel) {
+          const key = relatedModel && this.relationKey(model, column, relatedModel);
+          if (key) {
             const relation: PrismaRelationInfo = {
               name: column.relationName || `${model.name}_${column.name}`,
               fromTable: model.name,
-              fromFields: [column.name],
+              fromFields: key.fromFields,
               toTable: relatedModel.name,
-              toFields: relatedModel.primaryKey,
+              toFields: key.toFields,
               type: column.isList ? 'one-to-many' : 'one-to-one',
               onDelete: column.onDelete,
+              constraintName: column.relationMap,
             };
 
-            // Check for many-to-many (both sides have list relations)
-            for (const relatedCol of relatedModel.columns) {
-              if (relatedCol.isRelation && relatedCol.type === model.name && relatedCol.isList) {
-                relation.type = 'many-to-many';
-                break;
-              }
-            }
-
-            // Check for many-to-one (current side is optional/list)
-            if (column.isOptional || column.isList) {
-              relation.type = column.isList ? 'one-to-many' : 'many-to-one';
+            // Many-to-one when the other side lists this model or this side is optional
+            const listedBack = relatedModel.columns.some((relatedCol) =>
+              relatedCol.isRelation && relatedCol.type === model.name && relatedCol.isList
+            );
+            if (column.isList) {
+              relation.type = 'one-to-many';
+            } else if (listedBack || column.isOptional) {
+              relation.type = 'many-to-one';
             }
 
             model.relations.push(relation);
@@ -332,6 +356,38 @@ export class PrismaExtractor {
     }
   }
 
+  /**
+   * Scalar columns a relation field joins on, in @relation order. A
+   * back-relation field (`posts Post[]`) has no fields/references of its own,
+   * so it takes the owning side's, swapped. Implicit many-to-many relations go
+   * through a join table Prisma manages and have no columns on either model.
+   */
+  private relationKey(
+    model: PrismaTableInfo,
+    column: PrismaColumnInfo,
+    relatedModel: PrismaTableInfo
+  ): { fromFields: string[]; toFields: string[] } | null {
+    if (column.relationFields.length > 0) {
+      return {
+        fromFields: column.relationFields,
+        toFields: column.relationReferences.length > 0 ? column.relationReferences : relatedModel.primaryKey,
+      };
+    }
+
+    const owner = relatedModel.columns.find((relatedCol) =>
+      relatedCol !== column &&
+      relatedCol.isRelation &&
+      relatedCol.type === model.name &&
+      relatedCol.relationFields.length > 0 &&
+      relatedCol.relationName === column.relationName
+    );
+    if (!owner) return null;
+    return {
+      fromFields: owner.relationReferences.length > 0 ? owner.relationReferences : model.primaryKey,
+      toFields: owner.relationFields,
+    };
+  }
+
   async close(): Promise<void> {}
 
   private parsePrismaList(value: string): string[] {
@@ -12,6 +12,21 @@ export interface SQLiteColumnInfo {
   nullable: boolean;
   default: string | null;
   primaryKey: boolean;
+  /** Declared length, e.g. 255 for `VARCHAR(255)`. SQLite does not enforce it */
+  maxLength?: number;
+  precision?: number;
+  scale?: number;
+  /** INTEGER PRIMARY KEY (rowid alias) and AUTOINCREMENT columns */
+  identity?: 'by-default';
+  /** `GENERATED ALWAYS AS (expression) STORED|VIRTUAL` */
+  generated?: { expression: string; stored: boolean };
+}
+
+export interface SQLiteCheckConstraintInfo {
+  /** Only set for `CONSTRAINT name CHECK (...)` */
+  name?: string;
+  definition: string;
+  columns: string[];
 }
 
 export interface SQLiteIndexInfo {
@@ -36,11 +51,22 @@ export interface SQLiteForeignKeyInfo {
 
 export interface SQLiteTableInfo {
   name: string;
+  kind: 'table' | 'view';
   columns: SQLiteColumnInfo[];
   indexes: SQLiteIndexInfo[];
   foreignKeys: SQLiteForeignKeyInfo[];
   primaryKey: string[];
+  checks: SQLiteCheckConstraintInfo[];
   withoutRowId: boolean;
+  /** View SQL, only when `viewDefinitions` is enabled */
+  definition: string | null;
+  /** Tables and views a view reads from */
+  dependsOn: string[];
+}
+
+export interface SQLiteExtractorOptions {
+  /** Include the SQL of views */
+  viewDefinitions?: boolean;
 }
 
 export interface SQLiteSchemaInfo {
@@ -49,11 +75,144 @@ export interface SQLiteSchemaInfo {
   databasePath: string;
 }
 
+/**
+ * SQLite keeps no dependency catalog, so read the FROM/JOIN targets of the view SQL.
+ */
+function findReferencedTables(sql: string, names: string[], self: string): string[] {
+  const referenced = new Set<string>();
+  const pattern = /\b(?:FROM|JOIN)\s+["'`\[]?(\w+)/gi;
+  let match;
+  while ((match = pattern.exec(sql)) !== null) {
+    const name = names.find((n) => n.toLowerCase() === match![1].toLowerCase());
+    if (name && name !== self) referenced.add(name);
+  }
+  return Array.from(referenced).sort();
+}
+
+/**
+ * Whether a CHECK expression mentions the column as a whole identifier; the
+ * name is escaped since SQLite allows any character in quoted identifiers.
+ */
+function mentionsColumn(expression: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`, 'i').test(expression);
+}
+
+interface CreateTableDetails {
+  checks: SQLiteCheckConstraintInfo[];
+  columns: Map<string, Pick<SQLiteColumnInfo, 'identity' | 'generated'>>;
+}
+
+/**
+ * Text inside the parentheses opening at `start`, honouring nesting and quotes.
+ */
+function readParenthesized(text: string, start: number): string {
+  let depth = 0;
+  let quote = '';
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && --depth === 0) {
+      return text.slice(start + 1, i);
+    }
+  }
+  return text.slice(start + 1);
+}
+
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const ch of body) {
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Read CHECK constraints, generated columns and AUTOINCREMENT from the
+ * CREATE TABLE statement, which PRAGMA table_info does not report.
+ */
+function parseCreateTable(sql: string): CreateTableDetails {
+  const details: CreateTableDetails = { checks: [], columns: new Map() };
+  const open = sql.indexOf('(');
+  if (open === -1) return details;
+
+  const parts = splitTopLevel(readParenthesized(sql, open));
+  const isConstraint = (part: string) => /^(CONSTRAINT|PRIMARY|UNIQUE|FOREIGN|CHECK)\b/i.test(part);
+  const columnNames = parts.filter((p) => !isConstraint(p)).map((p) => p.split(/\s+/)[0].replace(/^["`\[]|["`\]]$/g, ''));
+
+  for (const part of parts) {
+    const checkPattern = /(?:CONSTRAINT\s+["`\[]?(\w+)["`\]]?\s+)?CHECK\s*\(/gi;
+    let match;
+    const column = isConstraint(part) ? null : part.split(/\s+/)[0].replace(/^["`\[]|["`\]]$/g, '');
+
+    while ((match = checkPattern.exec(part)) !== null) {
+      const expression = readParenthesized(part, match.index + match[0].length - 1);
+      details.checks.push({
+        ...(match[1] ? { name: match[1] } : {}),
+        definition: `CHECK (${expression})`,
+        columns: column ? [column] : columnNames.filter((name) => mentionsColumn(expression, name)),
+      });
+    }
+
+    if (!column) continue;
+    const info: Pick<SQLiteColumnInfo, 'identity' | 'generated'> = {};
+    const generatedMatch = part.match(/\b(?:GENERATED\s+ALWAYS\s+)?AS\s*\(/i);
+    if (generatedMatch && generatedMatch.index !== undefined) {
+      const openIndex = generatedMatch.index + generatedMatch[0].length - 1;
+      const expression = readParenthesized(part, openIndex);
+      const rest = part.slice(openIndex + expression.length + 2);
+      info.generated = { expression, stored: /^\s*STORED\b/i.test(rest) };
+    }
+    if (/\bAUTOINCREMENT\b/i.test(part) || /^\S+\s+INTEGER\s+PRIMARY\s+KEY\b/i.test(part)) {
+      info.identity = 'by-default';
+    }
+    details.columns.set(column, info);
+  }
+
+  return details;
+}
+
+/**
+ * Length and precision declared in the type, e.g. `VARCHAR(255)` or `DECIMAL(10,2)`.
+ */
+function parseTypeModifiers(type: string): Pick<SQLiteColumnInfo, 'maxLength' | 'precision' | 'scale'> {
+  const match = type.match(/^\s*(\w[\w\s]*?)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/);
+  if (!match) return {};
+  if (/CHAR|TEXT|CLOB/i.test(match[1])) return { maxLength: Number(match[2]) };
+  if (/DEC|NUM/i.test(match[1])) return { precision: Number(match[2]), scale: Number(match[3] ?? 0) };
+  return {};
+}
+
 export class SQLiteExtractor {
   private dbPath: string;
+  private viewDefinitions: boolean;
+  private createStatements = new Map<string, CreateTableDetails>();
 
-  constructor(dbPath: string) {
+  constructor(dbPath: string, options: SQLiteExtractorOptions = {}) {
     this.dbPath = dbPath;
+    this.viewDefinitions = Boolean(options.viewDefinitions);
   }
 
   async extract(): Promise<SQLiteSchemaInfo> {
@@ -91,9 +250,10 @@ export class SQLiteExtractor {
       db.all(`
         SELECT 
           name,
+          type,
           sql
         FROM sqlite_master 
-        WHERE type = 'table' 
+        WHERE type IN ('table', 'view')
           AND name NOT LIKE 'sqlite_%'
         ORDER BY name
       `, (err, rows: any[]) => {
@@ -102,17 +262,25 @@ export class SQLiteExtractor {
           return;
         }
 
+        const names = rows.map((row) => row.name);
         const tables: SQLiteTableInfo[] = rows.map((row) => {
           const sql = row.sql || '';
           const withoutRowId = sql.toUpperCase().includes('WITHOUT ROWID');
+          const isView = row.type === 'view';
+          const details = isView ? { checks: [], columns: new Map() } : parseCreateTable(sql);
+          this.createStatements.set(row.name, details);
           
           return {
             name: row.name,
+            kind: isView ? 'view' : 'table',
             columns: [],
             indexes: [],
             foreignKeys: [],
             primaryKey: [],
+            checks: details.checks,
             withoutRowId,
+            definition: isView && this.viewDefinitions ? sql : null,
+            dependsOn: isView ? findReferencedTables(sql, names, row.name) : [],
           };
         });
 
@@ -125,19 +293,25 @@ export class SQLiteExtractor {
     return new Promise((resolve, reject) => {
       const tableName = table.name;
       
-      db.all(`PRAGMA table_info("${tableName}")`, (err, rows: any[]) => {
+      // table_xinfo also lists generated columns (hidden 2 = virtual, 3 = stored)
+      db.all(`PRAGMA table_xinfo("${tableName}")`, (err, rows: any[]) => {
         if (err) {
           reject(err);
           return;
         }
 
-        const columns: SQLiteColumnInfo[] = rows.map((row) => ({
-          name: row.name,
-          type: row.type || 'TEXT',
-          nullable: row.notnull === 0,
-          default: row.dflt_value,
-          primaryKey: row.pk === 1,
-        }));
+        const details = this.createStatements.get(tableName)?.columns;
+        const columns: SQLiteColumnInfo[] = rows
+          .filter((row) => row.hidden !== 1)
+          .map((row) => ({
+            name: row.name,
+            type: row.type || 'TEXT',
+            nullable: row.notnull === 0,
+            default: row.dflt_value,
+            primaryKey: row.pk === 1,
+            ...parseTypeModifiers(row.type || ''),
+            ...details?.get(row.name),
+          }));
 
         const primaryKey = columns
           .filter((c) => c.primaryKey)
@@ -0,0 +1,271 @@
+/**
+ * ER Diagrams
+ * Renders the relationship graph as a Mermaid erDiagram and as DBML
+ */
+
+import {
+  UnifiedColumnInfo,
+  UnifiedRelationInfo,
+  UnifiedSchemaInfo,
+  UnifiedTableInfo,
+  displayType,
+  relationColumns,
+} from '../extractors/index.js';
+import { SchemaDomain, groupTablesByDomain } from './domains.js';
+
+/**
+ * Above this many tables, one diagram per domain is written as well; a
+ * single Mermaid diagram of a large schema is too dense to read.
+ */
+export const LARGE_SCHEMA_TABLES = 25;
+
+export const MERMAID_FILE_NAME = 'schema.mmd';
+export const DBML_FILE_NAME = 'schema.dbml';
+
+/**
+ * Diagrams only show tables; views have no keys of their own.
+ */
+function diagramTables(schema: UnifiedSchemaInfo): UnifiedTableInfo[] {
+  return schema.tables.filter((t) => !t.kind || t.kind === 'table');
+}
+
+/**
+ * Domains that get their own diagram; none for schemas small enough to show at once.
+ */
+export function diagramDomains(schema: UnifiedSchemaInfo, explicit: Record<string, string[]> = {}): SchemaDomain[] {
+  const tables = diagramTables(schema);
+  if (tables.length <= LARGE_SCHEMA_TABLES) return [];
+  const domains = groupTablesByDomain({ ...schema, tables }, explicit);
+  return domains.length > 1 ? domains : [];
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+function mermaidId(name: string): string {
+  return name.replace(/[^\w-]/g, '_');
+}
+
+/**
+ * Mermaid types and names allow letters, digits, `-`, `_`, `()` and `[]`.
+ */
+function mermaidWord(value: string): string {
+  return value.replace(/[^\w\-()[\]]/g, '_');
+}
+
+function mermaidKeys(col: UnifiedColumnInfo): string {
+  const keys = [
+    col.isPrimaryKey ? 'PK' : '',
+    col.isForeignKey ? 'FK' : '',
+    col.isUnique && !col.isPrimaryKey ? 'UK' : '',
+  ].filter(Boolean);
+  return keys.length > 0 ? ` ${keys.join(', ')}` : '';
+}
+
+function mermaidEntity(table: UnifiedTableInfo, keysOnly: boolean): string {
+  const id = mermaidId(table.name);
+  const label = id === table.name ? id : `${id}["${table.name}"]`;
+  const columns = keysOnly ? table.columns.filter((c) => c.isPrimaryKey) : table.columns;
+
+  let output = `    ${label} {\n`;
+  for (const col of columns) {
+    const comment = col.description ? ` "${col.description.replace(/"/g, "'").replace(/\s+/g, ' ')}"` : '';
+    output += `        ${mermaidWord(displayType(col))} ${mermaidWord(col.name)}${mermaidKeys(col)}${comment}\n`;
+  }
+  return output + '    }\n';
+}
+
+/**
+ * Crow's foot notation; the referenced table is the "one" side. The line is
+ * solid when the foreign key is part of the primary key (identifying).
+ */
+function mermaidRelationship(rel: UnifiedRelationInfo, from: UnifiedTableInfo): string {
+  const { from: columns } = relationColumns(rel);
+  const optional = columns.some((name) => from.columns.find((c) => c.name === name)?.nullable);
+  const line = columns.every((name) => from.primaryKey.includes(name)) ? '--' : '..';
+  const parent = optional ? '|o' : '||';
+  const source = mermaidId(rel.fromTable);
+  const target = mermaidId(rel.toTable);
+  const label = `"${columns.join(', ')}"`;
+
+  switch (rel.cardinality) {
+    case '1:1':
+      return `    ${target} ${parent}${line}o| ${source} : ${label}\n`;
+    case '1:N':
+      return `    ${source} ||${line}o{ ${target} : ${label}\n`;
+    case 'N:M':
+      return `    ${source} }o${line}o{ ${target} : ${label}\n`;
+    default:
+      return `    ${target} ${parent}${line}o{ ${source} : ${label}\n`;
+  }
+}
+
+/**
+ * Mermaid `erDiagram` of the schema, or of `only` these tables plus the key
+ * columns of the tables they are related to.
+ */
+export function renderMermaidDiagram(schema: UnifiedSchemaInfo, only?: string[]): string {
+  const tables = diagramTables(schema);
+  const byName = new Map(tables.map((t) => [t.name, t]));
+  const inScope = (name: string) => !only || only.includes(name);
+  const relations = tables
+    .flatMap((t) => t.relations.map((rel) => ({ rel, from: t })))
+    .filter(({ rel }) => byName.has(rel.toTable) && (inScope(rel.fromTable) || inScope(rel.toTable)));
+  const neighbours = new Set(relations.flatMap(({ rel }) => [rel.fromTable, rel.toTable]).filter((n) => !inScope(n)));
+
+  let output = 'erDiagram\n';
+  for (const table of tables) {
+    if (inScope(table.name) || neighbours.has(table.name)) {
+      output += mermaidEntity(table, !inScope(table.name));
+    }
+  }
+  for (const { rel, from } of relations) {
+    output += mermaidRelationship(rel, from);
+  }
+  return output;
+}
+
+// ============================================================================
+// DBML
+// ============================================================================
+
+function dbmlName(name: string): string {
+  return /^\w+$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * `auth.users` is schema `auth`, table `users` when the table has a schema.
+ */
+function dbmlTableName(table: Pick<UnifiedTableInfo, 'name' | 'schema'>): string {
+  if (table.schema && table.name.startsWith(`${table.schema}.`)) {
+    return `${dbmlName(table.schema)}.${dbmlName(table.name.slice(table.schema.length + 1))}`;
+  }
+  return dbmlName(table.name);
+}
+
+function dbmlType(col: UnifiedColumnInfo): string {
+  const type = displayType(col);
+  return /^[\w.[\](),]+$/.test(type) ? type : `"${type.replace(/"/g, '\\"')}"`;
+}
+
+function dbmlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\s+/g, ' ')}'`;
+}
+
+/**
+ * Numbers, booleans and quoted strings as values, anything else as an expression.
+ */
+function dbmlDefault(value: string): string {
+  if (/^-?\d+(\.\d+)?$/.test(value) || /^(true|false|null)$/i.test(value)) return value.toLowerCase();
+  const literal = value.match(/^'((?:[^']|'')*)'(::[\w .]+)?$/);
+  if (literal) return dbmlString(literal[1].replace(/''/g, "'"));
+  return `\`${value.replace(/`/g, "'")}\``;
+}
+
+function dbmlColumn(col: UnifiedColumnInfo, table: UnifiedTableInfo): string {
+  const singlePrimaryKey = table.primaryKey.length === 1 && col.isPrimaryKey;
+  const settings = [
+    singlePrimaryKey ? 'pk' : '',
+    col.identity ? 'increment' : '',
+    !col.nullable && !singlePrimaryKey ? 'not null' : '',
+    col.isUnique && !col.isPrimaryKey ? 'unique' : '',
+    col.default !== null && col.default !== undefined && !col.identity ? `default: ${dbmlDefault(col.default)}` : '',
+    col.description ? `note: ${dbmlString(col.description)}` : '',
+  ].filter(Boolean);
+  return `  ${dbmlName(col.name)} ${dbmlType(col)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}\n`;
+}
+
+function dbmlTable(table: UnifiedTableInfo): string {
+  let output = `Table ${dbmlTableName(table)} {\n`;
+  for (const col of table.columns) {
+    output += dbmlColumn(col, table);
+  }
+
+  const indexes = [
+    ...(table.primaryKey.length > 1 ? [`(${table.primaryKey.map(dbmlName).join(', ')}) [pk]`] : []),
+    ...table.indexes
+      .filter((idx) => !idx.isPrimaryKey)
+      .map((idx) => {
+        const columns = idx.columns.length === 1 ? dbmlName(idx.columns[0]) : `(${idx.columns.map(dbmlName).join(', ')})`;
+        return `${columns} [${idx.unique ? 'unique, ' : ''}name: ${dbmlString(idx.name)}]`;
+      }),
+  ];
+  if (indexes.length > 0) {
+    output += '\n  indexes {\n';
+    output += indexes.map((idx) => `    ${idx}\n`).join('');
+    output += '  }\n';
+  }
+
+  if (table.description) {
+    output += `\n  Note: ${dbmlString(table.description)}\n`;
+  }
+  return output + '}\n';
+}
+
+const DBML_OPERATORS: Record<UnifiedRelationInfo['cardinality'], string> = {
+  'N:1': '>',
+  '1:N': '<',
+  '1:1': '-',
+  'N:M': '<>',
+};
+
+function dbmlRef(rel: UnifiedRelationInfo, byName: Map<string, UnifiedTableInfo>): string {
+  const { from, to } = relationColumns(rel);
+  const endpoint = (table: string, columns: string[]) => {
+    const name = dbmlTableName(byName.get(table)!);
+    return columns.length === 1 ? `${name}.${dbmlName(columns[0])}` : `${name}.(${columns.map(dbmlName).join(', ')})`;
+  };
+  const actions = [
+    rel.onDelete && rel.onDelete.toUpperCase() !== 'NO ACTION' ? `delete: ${rel.onDelete.toLowerCase()}` : '',
+    rel.onUpdate && rel.onUpdate.toUpperCase() !== 'NO ACTION' ? `update: ${rel.onUpdate.toLowerCase()}` : '',
+  ].filter(Boolean);
+  const name = rel.constraintName && /^\w+$/.test(rel.constraintName) ? ` ${rel.constraintName}` : '';
+  return `Ref${name}: ${endpoint(rel.fromTable, from)} ${DBML_OPERATORS[rel.cardinality]} ${endpoint(rel.toTable, to)}` +
+    `${actions.length > 0 ? ` [${actions.join(', ')}]` : ''}\n`;
+}
+
+/**
+ * DBML for dbdiagram.io and other DBML tools: enums, tables with their
+ * indexes, and one `Ref` per foreign key.
+ */
+export function renderDbml(schema: UnifiedSchemaInfo): string {
+  const tables = diagramTables(schema);
+  const byName = new Map(tables.map((t) => [t.name, t]));
+
+  let output = `// AUTO-GENERATED by cohere-db from the ${schema.databaseType} schema\n`;
+
+  for (const enumInfo of schema.enums || []) {
+    output += `\nEnum ${dbmlTableName(enumInfo)} {\n`;
+    output += enumInfo.values.map((value) => `  ${dbmlName(value)}\n`).join('');
+    output += '}\n';
+  }
+
+  for (const table of tables) {
+    output += '\n' + dbmlTable(table);
+  }
+
+  const refs = tables.flatMap((t) => t.relations).filter((rel) => byName.has(rel.toTable));
+  if (refs.length > 0) {
+    output += '\n' + refs.map((rel) => dbmlRef(rel, byName)).join('');
+  }
+  return output;
+}
+
+/**
+ * Files for `.ai/diagrams/`: the whole schema, plus `schema-<domain>.mmd` per
+ * domain for large schemas.
+ */
+export function generateDiagrams(
+  schema: UnifiedSchemaInfo,
+  explicitDomains: Record<string, string[]> = {}
+): Record<string, string> {
+  const files: Record<string, string> = {
+    [MERMAID_FILE_NAME]: renderMermaidDiagram(schema),
+    [DBML_FILE_NAME]: renderDbml(schema),
+  };
+  for (const domain of diagramDomains(schema, explicitDomains)) {
+    files[`schema-${domain.name}.mmd`] = renderMermaidDiagram(schema, domain.tables);
+  }
+  return files;
+}
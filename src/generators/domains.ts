@@ -0,0 +1,121 @@
+/**
+ * Schema Domains
+ * Groups tables into domains so per-area outputs only carry the tables that belong together
+ */
+
+import type { UnifiedSchemaInfo, UnifiedTableInfo } from '../extractors/index.js';
+import { matchesPattern } from '../utils/config.js';
+
+export interface SchemaDomain {
+  /** File-name safe, e.g. `billing` */
+  name: string;
+  tables: string[];
+}
+
+/**
+ * Tables no relationship connects to others end up here.
+ */
+export const UNGROUPED_DOMAIN = 'other';
+
+export function domainSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || UNGROUPED_DOMAIN;
+}
+
+/**
+ * Group tables, in order of preference:
+ *
+ * 1. `explicit` domains (name → table patterns), first match wins
+ * 2. the database schema, when tables come from several
+ * 3. tables connected by foreign keys, named after the most referenced one
+ *
+ * Tables left over go to `other`.
+ */
+export function groupTablesByDomain(
+  schema: UnifiedSchemaInfo,
+  explicit: Record<string, string[]> = {}
+): SchemaDomain[] {
+  const domains = new Map<string, string[]>();
+  const add = (name: string, table: string) => {
+    const slug = domainSlug(name);
+    domains.set(slug, [...(domains.get(slug) || []), table]);
+  };
+
+  let remaining = schema.tables;
+  if (Object.keys(explicit).length > 0) {
+    remaining = remaining.filter((table) => {
+      const bare = table.name.split('.').pop() || table.name;
+      const match = Object.entries(explicit).find(([, patterns]) =>
+        matchesPattern(table.name, patterns) || matchesPattern(bare, patterns)
+      );
+      if (match) add(match[0], table.name);
+      return !match;
+    });
+  }
+
+  const schemaNames = new Set(remaining.map((t) => t.schema).filter(Boolean));
+  if (schemaNames.size > 1) {
+    remaining.forEach((table) => add(table.schema || UNGROUPED_DOMAIN, table.name));
+    return toList(domains);
+  }
+
+  for (const component of connectedTables(remaining)) {
+    if (component.length === 1 && !hasRelations(schema, component[0])) {
+      add(UNGROUPED_DOMAIN, component[0].name);
+    } else {
+      const root = mostReferenced(schema, component);
+      component.forEach((table) => add(root.name.split('.').pop() || root.name, table.name));
+    }
+  }
+
+  return toList(domains);
+}
+
+function toList(domains: Map<string, string[]>): SchemaDomain[] {
+  return Array.from(domains.entries())
+    .map(([name, tables]) => ({ name, tables }))
+    .sort((a, b) => (a.name === UNGROUPED_DOMAIN ? 1 : b.name === UNGROUPED_DOMAIN ? -1 : a.name.localeCompare(b.name)));
+}
+
+function hasRelations(schema: UnifiedSchemaInfo, table: UnifiedTableInfo): boolean {
+  return table.relations.length > 0 || schema.tables.some((t) => t.relations.some((r) => r.toTable === table.name));
+}
+
+/**
+ * Foreign keys as undirected edges; components keep the schema's table order.
+ */
+function connectedTables(tables: UnifiedTableInfo[]): UnifiedTableInfo[][] {
+  const byName = new Map(tables.map((t) => [t.name, t]));
+  const neighbours = new Map<string, Set<string>>(tables.map((t) => [t.name, new Set<string>()]));
+  for (const table of tables) {
+    for (const rel of table.relations) {
+      if (!byName.has(rel.toTable) || rel.toTable === table.name) continue;
+      neighbours.get(table.name)!.add(rel.toTable);
+      neighbours.get(rel.toTable)!.add(table.name);
+    }
+  }
+
+  const seen = new Set<string>();
+  const components: UnifiedTableInfo[][] = [];
+  for (const table of tables) {
+    if (seen.has(table.name)) continue;
+    const names = new Set<string>([table.name]);
+    const queue = [table.name];
+    while (queue.length > 0) {
+      for (const next of neighbours.get(queue.shift()!)!) {
+        if (!names.has(next)) {
+          names.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    names.forEach((name) => seen.add(name));
+    components.push(tables.filter((t) => names.has(t.name)));
+  }
+  return components;
+}
+
+function mostReferenced(schema: UnifiedSchemaInfo, tables: UnifiedTableInfo[]): UnifiedTableInfo {
+  const count = (table: UnifiedTableInfo) =>
+    schema.tables.reduce((sum, t) => sum + t.relations.filter((r) => r.toTable === table.name).length, 0);
+  return tables.reduce((best, table) => (count(table) > count(best) ? table : best));
+}
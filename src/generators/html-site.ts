@@ -0,0 +1,411 @@
+/**
+ * HTML Schema Browser
+ * Renders TemplateData as a static site that works offline: searchable table
+ * list, one page per table with foreign key links both ways, and an SVG ER diagram
+ */
+
+import type { RelationshipTemplateData, TableTemplateData, TemplateData } from './templates.js';
+
+const STYLE = `* { box-sizing: border-box; }
+body { margin: 0; display: flex; min-height: 100vh; font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+code, pre { font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace; background: #f6f8fa; border-radius: 4px; }
+code { padding: 1px 4px; }
+pre { padding: 12px; overflow: auto; }
+.sidebar { width: 260px; flex-shrink: 0; padding: 16px; border-right: 1px solid #d0d7de; background: #f6f8fa; height: 100vh; position: sticky; top: 0; overflow-y: auto; }
+.sidebar .home { display: block; font-weight: 600; margin-bottom: 12px; }
+.sidebar input { width: 100%; padding: 6px 8px; border: 1px solid #d0d7de; border-radius: 6px; font: inherit; }
+.sidebar ul { list-style: none; padding: 0; margin: 12px 0 0; }
+.sidebar li { padding: 2px 0; }
+.sidebar li.current a { font-weight: 600; color: #1f2328; }
+main { flex: 1; min-width: 0; padding: 24px 32px; max-width: 1100px; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; }
+th, td { border: 1px solid #d0d7de; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+.badge { display: inline-block; font-size: 12px; padding: 0 8px; border-radius: 10px; background: #ddf4ff; color: #0969da; vertical-align: middle; }
+.warning { padding: 8px 12px; border-left: 4px solid #bf8700; background: #fff8c5; }
+.diagram { overflow: auto; border: 1px solid #d0d7de; border-radius: 6px; padding: 8px; }
+.diagram .box rect { fill: #fff; stroke: #57606a; }
+.diagram .box .header { fill: #ddf4ff; }
+.diagram .box.current .header { fill: #0969da; }
+.diagram .box.current .title { fill: #fff; }
+.diagram .title { font-weight: 600; }
+.diagram text { font: 12px ui-monospace, SFMono-Regular, Menlo, monospace; fill: #1f2328; }
+.diagram .key { fill: #8250df; }
+.diagram .edge { fill: none; stroke: #8c959f; stroke-width: 1.5; }
+.diagram a:hover rect { stroke: #0969da; stroke-width: 2; }
+`;
+
+const SEARCH_SCRIPT = `// Filters the table list by table name, column name or description; "/" focuses the box
+(function () {
+  var input = document.getElementById('search');
+  var items = document.querySelectorAll('#table-list li');
+  input.addEventListener('input', function () {
+    var terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    items.forEach(function (item) {
+      var text = item.getAttribute('data-search');
+      item.hidden = !terms.every(function (term) { return text.indexOf(term) !== -1; });
+    });
+  });
+  document.addEventListener('keydown', function (event) {
+    if (event.key === '/' && document.activeElement !== input) {
+      event.preventDefault();
+      input.focus();
+    }
+  });
+})();
+`;
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * The inline Markdown TemplateData strings use: `code` and **bold**.
+ */
+function inline(markdown: string): string {
+  return escapeHtml(markdown)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+}
+
+function pageFile(table: string): string {
+  return `${table.replace(/[^\w.-]/g, '_')}.html`;
+}
+
+function list(items: string[]): string {
+  return `<ul>\n${items.map((item) => `<li>${item}</li>`).join('\n')}\n</ul>\n`;
+}
+
+// ============================================================================
+// ER Diagram
+// ============================================================================
+
+const CHAR_WIDTH = 7.2;
+const ROW_HEIGHT = 18;
+const HEADER_HEIGHT = 26;
+const GAP = 56;
+/** Columns shown per box; keys come first */
+const MAX_ROWS = 12;
+
+interface Box {
+  table: TableTemplateData;
+  rows: { text: string; key: string }[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Tables in breadth-first order along relationships, so related tables land
+ * next to each other in the grid.
+ */
+function relatedOrder(tables: TableTemplateData[], relationships: RelationshipTemplateData[]): TableTemplateData[] {
+  const byName = new Map(tables.map((t) => [t.name, t]));
+  const neighbours = new Map<string, string[]>(tables.map((t) => [t.name, []]));
+  for (const rel of relationships) {
+    if (!byName.has(rel.fromTable) || !byName.has(rel.toTable)) continue;
+    neighbours.get(rel.fromTable)!.push(rel.toTable);
+    neighbours.get(rel.toTable)!.push(rel.fromTable);
+  }
+
+  const ordered: TableTemplateData[] = [];
+  const seen = new Set<string>();
+  for (const table of tables) {
+    if (seen.has(table.name)) continue;
+    const queue = [table.name];
+    seen.add(table.name);
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      ordered.push(byName.get(name)!);
+      for (const next of neighbours.get(name)!) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+  }
+  return ordered;
+}
+
+function layoutBoxes(tables: TableTemplateData[]): Box[] {
+  const boxes: Box[] = tables.map((table) => {
+    const columns = [...table.columns.filter((c) => c.isKey), ...table.columns.filter((c) => !c.isKey)];
+    const rows = columns.slice(0, MAX_ROWS).map((col) => ({
+      text: `${col.name} ${col.type}`,
+      key: [col.isPrimaryKey ? 'PK' : '', col.isForeignKey ? 'FK' : ''].filter(Boolean).join(','),
+    }));
+    if (columns.length > MAX_ROWS) {
+      rows.push({ text: `… ${columns.length - MAX_ROWS} more`, key: '' });
+    }
+    const longest = Math.max(table.name.length, ...rows.map((r) => r.text.length + (r.key ? r.key.length + 2 : 0)));
+    return { table, rows, x: 0, y: 0, width: Math.ceil(longest * CHAR_WIDTH) + 20, height: HEADER_HEIGHT + rows.length * ROW_HEIGHT + 6 };
+  });
+
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(boxes.length)));
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+  boxes.forEach((box, i) => {
+    const column = i % perRow;
+    const row = Math.floor(i / perRow);
+    columnWidths[column] = Math.max(columnWidths[column] || 0, box.width);
+    rowHeights[row] = Math.max(rowHeights[row] || 0, box.height);
+  });
+  boxes.forEach((box, i) => {
+    const column = i % perRow;
+    const row = Math.floor(i / perRow);
+    box.x = GAP / 2 + columnWidths.slice(0, column).reduce((sum, w) => sum + w + GAP, 0);
+    box.y = GAP / 2 + rowHeights.slice(0, row).reduce((sum, h) => sum + h + GAP, 0);
+  });
+  return boxes;
+}
+
+/**
+ * Curve from the referencing box to the referenced one, leaving and entering
+ * through the sides that face each other.
+ */
+function edgePath(from: Box, to: Box): string {
+  if (from === to) {
+    const x = from.x + from.width;
+    const y = from.y + HEADER_HEIGHT / 2;
+    return `M ${x} ${y} C ${x + 30} ${y - 20}, ${x + 30} ${y + 30}, ${x} ${y + 12}`;
+  }
+  const horizontal = from.x + from.width < to.x || to.x + to.width < from.x;
+  if (horizontal) {
+    const leftToRight = from.x < to.x;
+    const x1 = leftToRight ? from.x + from.width : from.x;
+    const x2 = leftToRight ? to.x : to.x + to.width;
+    const y1 = from.y + HEADER_HEIGHT / 2;
+    const y2 = to.y + HEADER_HEIGHT / 2;
+    const bend = (x2 - x1) / 2;
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  }
+  const downwards = from.y < to.y;
+  const x1 = from.x + from.width / 2;
+  const x2 = to.x + to.width / 2;
+  const y1 = downwards ? from.y + from.height : from.y;
+  const y2 = downwards ? to.y : to.y + to.height;
+  const bend = (y2 - y1) / 2;
+  return `M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}`;
+}
+
+/**
+ * SVG ER diagram of `tables`; boxes link to the table pages and arrows point
+ * at the referenced table. `current` is highlighted.
+ */
+export function renderSchemaSvg(
+  tables: TableTemplateData[],
+  relationships: RelationshipTemplateData[],
+  href: (table: string) => string,
+  current?: string
+): string {
+  const boxes = layoutBoxes(relatedOrder(tables, relationships));
+  const byName = new Map(boxes.map((b) => [b.table.name, b]));
+  const width = Math.max(...boxes.map((b) => b.x + b.width), 0) + GAP / 2;
+  const height = Math.max(...boxes.map((b) => b.y + b.height), 0) + GAP / 2;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="0 0 ${Math.ceil(width)} ${Math.ceil(height)}">\n`;
+  svg += '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">' +
+    '<path d="M 0 0 L 10 5 L 0 10 z" fill="#8c959f"/></marker></defs>\n';
+
+  for (const rel of relationships) {
+    const from = byName.get(rel.fromTable);
+    const to = byName.get(rel.toTable);
+    if (!from || !to) continue;
+    svg += `<path class="edge" d="${edgePath(from, to)}" marker-end="url(#arrow)"><title>${escapeHtml(`${rel.joinCondition} (${rel.cardinality})`)}</title></path>\n`;
+  }
+
+  for (const box of boxes) {
+    const classes = box.table.name === current ? 'box current' : 'box';
+    svg += `<a href="${escapeHtml(href(box.table.name))}"><g class="${classes}">\n`;
+    svg += `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="4"/>\n`;
+    svg += `<rect class="header" x="${box.x + 0.5}" y="${box.y + 0.5}" width="${box.width - 1}" height="${HEADER_HEIGHT}" rx="4"/>\n`;
+    svg += `<text class="title" x="${box.x + 10}" y="${box.y + 17}">${escapeHtml(box.table.name)}</text>\n`;
+    box.rows.forEach((row, i) => {
+      const y = box.y + HEADER_HEIGHT + 14 + i * ROW_HEIGHT;
+      svg += `<text x="${box.x + 10}" y="${y}">${escapeHtml(row.text)}</text>`;
+      if (row.key) {
+        svg += `<text class="key" x="${box.x + box.width - 10}" y="${y}" text-anchor="end">${row.key}</text>`;
+      }
+      svg += '\n';
+    });
+    svg += '</g></a>\n';
+  }
+
+  return svg + '</svg>';
+}
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+function renderPage(data: TemplateData, title: string, root: string, main: string, current?: string): string {
+  const items = data.tables.map((table) => {
+    const search = [table.name, table.description, ...table.columns.map((c) => c.name)].join(' ').toLowerCase();
+    const classes = table.name === current ? ' class="current"' : '';
+    return `<li${classes} data-search="${escapeHtml(search)}"><a href="${root}tables/${escapeHtml(pageFile(table.name))}">${escapeHtml(table.name)}</a></li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}assets/style.css">
+</head>
+<body>
+<nav class="sidebar">
+<a class="home" href="${root}index.html">${escapeHtml(`${data.schemaName} (${data.databaseType})`)}</a>
+<input id="search" type="search" placeholder="Search tables and columns" autocomplete="off">
+<ul id="table-list">
+${items.join('\n')}
+</ul>
+</nav>
+<main>
+${main}</main>
+<script src="${root}assets/search.js"></script>
+</body>
+</html>
+`;
+}
+
+function renderIndex(data: TemplateData): string {
+  const href = (table: string) => `tables/${pageFile(table)}`;
+
+  let main = `<h1>${escapeHtml(data.schemaName)} <span class="badge">${escapeHtml(data.databaseType)}</span></h1>\n`;
+  main += `<p>${data.tables.length} tables, ${data.relationships.length} relationships. Generated by cohere-db from the same data as the AI context in <code>CLAUDE.md</code>.</p>\n`;
+
+  main += '<h2>Entity Relationship Diagram</h2>\n';
+  main += `<div class="diagram">\n${renderSchemaSvg(data.tables, data.relationships, href)}\n</div>\n`;
+  main += `<details><summary>Mermaid source</summary>\n<pre>${escapeHtml(data.erDiagram)}</pre>\n</details>\n`;
+
+  main += '<h2>Tables</h2>\n<table>\n<tr><th>Table</th><th>Columns</th><th>Primary Key</th><th>Description</th></tr>\n';
+  for (const table of data.tables) {
+    const kind = table.kind === 'table' ? '' : ` <span class="badge">${table.kind.replace('_', ' ')}</span>`;
+    main += `<tr><td><a href="${escapeHtml(href(table.name))}">${escapeHtml(table.name)}</a>${kind}</td>` +
+      `<td>${table.columns.length}</td><td>${escapeHtml(table.primaryKey)}</td><td>${inline(table.description || '-')}</td></tr>\n`;
+  }
+  main += '</table>\n';
+
+  if (data.businessRules.length > 0) {
+    main += '<h2>Business Rules</h2>\n';
+    main += list(data.businessRules.map((rule) => `<strong>${inline(rule.name)}</strong>: ${inline(rule.description)}`));
+  }
+
+  if (data.enums.length > 0) {
+    main += '<h2>Enums</h2>\n<table>\n<tr><th>Enum</th><th>Values</th></tr>\n';
+    for (const e of data.enums) {
+      const values = e.values.map((v) => {
+        const meaning = e.valueDescriptions?.[v];
+        return `<code>${escapeHtml(v)}</code>${meaning ? ` (${escapeHtml(meaning)})` : ''}`;
+      });
+      main += `<tr><td><code>${escapeHtml(e.name)}</code>${e.description ? `<br>${escapeHtml(e.description)}` : ''}</td><td>${values.join(', ')}</td></tr>\n`;
+    }
+    main += '</table>\n';
+  }
+
+  if (data.invariants.length > 0) {
+    main += '<h2>Invariants</h2>\n' + list(data.invariants.map(inline));
+  }
+
+  main += '<h2>Conventions</h2>\n' + list(data.conventions.map(inline));
+  return renderPage(data, `${data.schemaName} schema`, '', main);
+}
+
+function renderTable(data: TemplateData, table: TableTemplateData): string {
+  const href = (name: string) => pageFile(name);
+  const link = (name: string) => `<a href="${escapeHtml(href(name))}">${escapeHtml(name)}</a>`;
+  const outgoing = data.relationships.filter((r) => r.fromTable === table.name);
+  const incoming = data.relationships.filter((r) => r.toTable === table.name);
+
+  let main = `<h1>${escapeHtml(table.name)}`;
+  if (table.kind !== 'table') {
+    main += ` <span class="badge">${table.kind.replace('_', ' ')}</span>`;
+  }
+  main += '</h1>\n';
+  if (table.deprecated) {
+    const replacement = table.deprecated.replacedBy ? ` Use <code>${escapeHtml(table.deprecated.replacedBy)}</code> instead.` : '';
+    main += `<p class="warning"><strong>Deprecated</strong>${table.deprecated.reason ? `: ${inline(table.deprecated.reason)}` : ''}.${replacement}</p>\n`;
+  }
+  if (table.description) {
+    main += `<p>${inline(table.description)}</p>\n`;
+  }
+
+  main += '<h2>Columns</h2>\n<table>\n<tr><th>Column</th><th>Type</th><th>Nullable</th><th>Default</th><th>Notes</th></tr>\n';
+  for (const col of table.columns) {
+    const keys = [col.isPrimaryKey ? 'PK' : '', col.isForeignKey ? 'FK' : ''].filter(Boolean).join(', ');
+    const target = col.referencesTable ? ` → ${link(col.referencesTable)}` : '';
+    const fallback = col.generatedExpression ? 'generated' : col.identity ? 'identity' : '-';
+    const defaultValue = col.default !== null && col.default !== undefined ? `<code>${escapeHtml(col.default)}</code>` : fallback;
+    main += `<tr><td><code>${escapeHtml(col.name)}</code>${keys ? ` <span class="badge">${keys}</span>` : ''}${target}</td>` +
+      `<td><code>${escapeHtml(col.type)}</code></td><td>${col.nullable ? 'yes' : 'no'}</td><td>${defaultValue}</td>` +
+      `<td>${col.notes === '-' ? '-' : inline(col.notes)}</td></tr>\n`;
+  }
+  main += '</table>\n';
+
+  if (table.constraints.length > 0) {
+    main += '<h2>Constraints</h2>\n' + list(table.constraints.map(inline));
+  }
+  if (table.indexes.length > 0) {
+    main += '<h2>Indexes</h2>\n' + list(table.indexes.map((idx) =>
+      `<code>${escapeHtml(idx.name)}</code> on <code>(${escapeHtml(idx.columns.join(', '))})</code>${idx.unique ? ' (unique)' : ''} - ${inline(idx.purpose)}`));
+  }
+  if (outgoing.length > 0) {
+    main += '<h2>References</h2>\n' + list(outgoing.map((rel) =>
+      `${link(rel.toTable)} (${rel.cardinality}): <code>${escapeHtml(rel.joinCondition)}</code>`));
+  }
+  if (incoming.length > 0) {
+    main += '<h2>Referenced by</h2>\n' + list(incoming.map((rel) =>
+      `${link(rel.fromTable)} (${rel.cardinality}): <code>${escapeHtml(rel.joinCondition)}</code>`));
+  }
+  if (table.triggers.length > 0) {
+    main += '<h2>Triggers</h2>\n' + list(table.triggers.map((t) =>
+      `<code>${escapeHtml(t.name)}</code> (${escapeHtml(`${t.timing} ${t.events.join(' OR ')}`)})`));
+  }
+  if (table.rowLevelSecurity) {
+    main += '<h2>Row-level Security</h2>\n' + list(table.policies.length > 0
+      ? table.policies.map((p) => `<code>${escapeHtml(p.name)}</code> (${escapeHtml(p.command)})${p.using ? `: <code>${escapeHtml(p.using)}</code>` : ''}`)
+      : ['Enabled without policies: only the owner can access rows']);
+  }
+  if (table.invariants.length > 0) {
+    main += '<h2>Invariants</h2>\n' + list(table.invariants.map(inline));
+  }
+  if (table.examples.length > 0) {
+    main += '<h2>Example Queries</h2>\n';
+    for (const example of table.examples) {
+      main += `<p><em>${escapeHtml(example.name)}</em>${example.description ? `: ${inline(example.description)}` : ''}</p>\n`;
+      main += `<pre>${escapeHtml(example.sql.trim())}</pre>\n`;
+    }
+  }
+  if (table.definition) {
+    main += `<h2>Definition</h2>\n<pre>${escapeHtml(table.definition.trim())}</pre>\n`;
+  }
+
+  const related = new Set([table.name, ...outgoing.map((r) => r.toTable), ...incoming.map((r) => r.fromTable)]);
+  if (related.size > 1) {
+    const tables = data.tables.filter((t) => related.has(t.name));
+    const relationships = [...outgoing, ...incoming.filter((r) => r.fromTable !== table.name)];
+    main += `<h2>Diagram</h2>\n<div class="diagram">\n${renderSchemaSvg(tables, relationships, href, table.name)}\n</div>\n`;
+  }
+
+  return renderPage(data, `${table.name} - ${data.schemaName} schema`, '../', main, table.name);
+}
+
+/**
+ * Files of the site, keyed by path relative to its directory.
+ */
+export function renderHtmlSite(data: TemplateData): Record<string, string> {
+  const files: Record<string, string> = {
+    'index.html': renderIndex(data),
+    'assets/style.css': STYLE,
+    'assets/search.js': SEARCH_SCRIPT,
+  };
+  for (const table of data.tables) {
+    files[`tables/${pageFile(table.name)}`] = renderTable(data, table);
+  }
+  return files;
+}
@@ -0,0 +1,194 @@
+/**
+ * Managed Regions
+ * Marks generated content so regeneration replaces it without touching hand-written text
+ */
+
+export const REGION_END = '<!-- cohere:end -->';
+
+const REGION_BEGIN = /^<!--\s*cohere:begin\s+([\w.-]+)\s*-->$/;
+const REGION_END_LINE = /^<!--\s*cohere:end\s*-->$/;
+
+/**
+ * Region name used when cohere-db injects into a repository-root CLAUDE.md or AGENTS.md.
+ */
+export const INJECTED_REGION = 'database';
+
+export interface ManagedRegion {
+  name: string;
+  /** Line index of the begin marker */
+  start: number;
+  /** Line index of the end marker */
+  end: number;
+}
+
+export function regionBegin(name: string): string {
+  return `<!-- cohere:begin ${name} -->`;
+}
+
+export function wrapRegion(name: string, body: string): string {
+  return `${regionBegin(name)}\n${body.trim()}\n${REGION_END}`;
+}
+
+/**
+ * Locate the managed regions of a file. Markers inside code fences are text.
+ */
+export function findRegions(content: string): ManagedRegion[] {
+  const lines = content.split('\n');
+  const regions: ManagedRegion[] = [];
+  let open: { name: string; start: number } | null = null;
+  let fenced = false;
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.startsWith('```')) {
+      fenced = !fenced;
+      return;
+    }
+    if (fenced) return;
+
+    const begin = line.match(REGION_BEGIN);
+    if (begin) {
+      if (open) {
+        throw new Error(`Managed region "${begin[1]}" on line ${index + 1} starts inside "${open.name}"`);
+      }
+      if (regions.some((r) => r.name === begin[1])) {
+        throw new Error(`Managed region "${begin[1]}" appears twice (line ${index + 1})`);
+      }
+      open = { name: begin[1], start: index };
+    } else if (REGION_END_LINE.test(line)) {
+      if (!open) {
+        throw new Error(`${REGION_END} on line ${index + 1} has no matching cohere:begin`);
+      }
+      regions.push({ ...open, end: index });
+      open = null;
+    }
+  });
+
+  if (open) {
+    throw new Error(`Managed region "${open.name}" is never closed with ${REGION_END}`);
+  }
+  return regions;
+}
+
+/**
+ * Wrap each `## ` section of a generated document in its own region, named
+ * after the heading, so hand-written sections can sit between them.
+ */
+export function toManagedSections(markdown: string): string {
+  const sections: { name: string; lines: string[] }[] = [{ name: 'header', lines: [] }];
+  let fenced = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) fenced = !fenced;
+    if (!fenced && line.startsWith('## ')) {
+      sections.push({ name: sectionName(line.slice(3), sections.map((s) => s.name)), lines: [] });
+    }
+    sections[sections.length - 1].lines.push(line);
+  }
+
+  return sections
+    .filter((s) => s.lines.join('\n').trim())
+    .map((s) => wrapRegion(s.name, s.lines.join('\n')))
+    .join('\n\n') + '\n';
+}
+
+function sectionName(heading: string, taken: string[]): string {
+  const base = heading.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'section';
+  let name = base;
+  for (let i = 2; taken.includes(name); i++) {
+    name = `${base}-${i}`;
+  }
+  return name;
+}
+
+/**
+ * Shift every heading down a level, e.g. to nest a generated document under a
+ * section of an existing file.
+ */
+export function demoteHeadings(markdown: string): string {
+  let fenced = false;
+  return markdown.split('\n').map((line) => {
+    if (line.trim().startsWith('```')) fenced = !fenced;
+    return !fenced && /^#{1,5} /.test(line) ? `#${line}` : line;
+  }).join('\n');
+}
+
+/**
+ * Combine freshly generated regions with the file on disk:
+ *
+ * - regions present in both are replaced with the generated content
+ * - regions no longer generated are removed
+ * - new regions are placed after the region that precedes them in the generated file
+ * - everything outside the markers is kept as written
+ *
+ * A file without markers that cohere-db wrote (older versions) is replaced;
+ * any other file gets the generated regions appended.
+ */
+export function mergeRegions(existing: string | null, generated: string): string {
+  if (existing === null || existing.trim() === '') {
+    return generated;
+  }
+
+  const generatedLines = generated.trimEnd().split('\n');
+  const incoming = findRegions(generated).map((r) => ({
+    name: r.name,
+    lines: generatedLines.slice(r.start, r.end + 1),
+  }));
+
+  const lines = existing.split('\n');
+  const regions = findRegions(existing);
+  if (regions.length === 0) {
+    if (/AUTO-GENERATED by cohere/.test(existing)) {
+      return generated;
+    }
+    return existing.trimEnd() + '\n\n' + generated;
+  }
+
+  // Alternate hand-written text and regions, in file order
+  type Segment = { name?: string; lines: string[] };
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const region of regions) {
+    segments.push({ lines: lines.slice(cursor, region.start) });
+    segments.push({ name: region.name, lines: lines.slice(region.start, region.end + 1) });
+    cursor = region.end + 1;
+  }
+  segments.push({ lines: lines.slice(cursor) });
+
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    if (segment.name === undefined) {
+      merged.push(segment);
+      continue;
+    }
+    const replacement = incoming.find((r) => r.name === segment.name);
+    if (replacement) {
+      merged.push({ name: segment.name, lines: replacement.lines });
+    } else {
+      // Dropped region: also drop the blank line that separated it
+      const next = segments[segments.indexOf(segment) + 1];
+      if (next && next.lines[0] === '') next.lines.shift();
+    }
+  }
+
+  incoming.forEach((region, index) => {
+    if (merged.some((s) => s.name === region.name)) return;
+
+    const previous = incoming.slice(0, index).reverse().find((r) => merged.some((s) => s.name === r.name));
+    const following = incoming.slice(index + 1).find((r) => merged.some((s) => s.name === r.name));
+    const placed: Segment[] = [{ name: region.name, lines: region.lines }];
+
+    if (previous) {
+      const at = merged.findIndex((s) => s.name === previous.name);
+      merged.splice(at + 1, 0, { lines: [''] }, ...placed);
+    } else if (following) {
+      const at = merged.findIndex((s) => s.name === following.name);
+      merged.splice(at, 0, ...placed, { lines: [''] });
+    } else {
+      const last = merged[merged.length - 1].lines;
+      merged.push({ lines: last[last.length - 1] === '' ? [] : [''] }, ...placed);
+    }
+  });
+
+  return merged.flatMap((s) => s.lines).join('\n').replace(/\n*$/, '\n');
+}
@@ -0,0 +1,472 @@
+/**
+ * Rule Inference
+ * Detects data patterns in a unified schema so generated rules only claim what the schema shows
+ */
+
+import type { UnifiedColumnInfo, UnifiedSchemaInfo, UnifiedTableInfo } from '../extractors/index.js';
+import type { BusinessRule } from './templates.js';
+
+export type SchemaPatternKind =
+  | 'tenant-key'
+  | 'soft-delete'
+  | 'audit-timestamps'
+  | 'optimistic-lock'
+  | 'polymorphic'
+  | 'status-enum';
+
+export interface PatternOccurrence {
+  table: string;
+  /** Columns showing the pattern in this table */
+  columns: string[];
+  /** Allowed values, for status columns and polymorphic type columns */
+  values?: string[];
+  /** How the database fills the columns, e.g. "trigger `touch_updated_at`" */
+  maintainedBy?: string[];
+}
+
+export interface SchemaPattern {
+  kind: SchemaPatternKind;
+  /** Column the pattern is keyed on (`organization_id`, `deleted_at`), or the prefix of a polymorphic pair */
+  key: string;
+  occurrences: PatternOccurrence[];
+  /** Table the tenant key references */
+  root?: string;
+  /** Condition that keeps live rows, e.g. `deleted_at IS NULL` */
+  filter?: string;
+}
+
+const TENANT_KEYS = ['organization_id', 'org_id', 'tenant_id', 'workspace_id', 'account_id', 'company_id', 'team_id'];
+// Archived rows are still live data, so `archived_at` is not a deletion marker
+const SOFT_DELETE_TIMESTAMPS = ['deleted_at', 'removed_at'];
+const SOFT_DELETE_FLAGS = ['is_deleted', 'deleted'];
+const CREATED_COLUMNS = ['created_at', 'inserted_at', 'created_on'];
+const UPDATED_COLUMNS = ['updated_at', 'modified_at', 'updated_on'];
+const VERSION_COLUMNS = ['version', 'lock_version', 'row_version'];
+
+/**
+ * `organizationId` and `organization_id` both read as `organization_id`.
+ */
+function snakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+function findColumn(table: UnifiedTableInfo, names: string[]): UnifiedColumnInfo | undefined {
+  for (const name of names) {
+    const column = table.columns.find((c) => snakeCase(c.name) === name);
+    if (column) return column;
+  }
+  return undefined;
+}
+
+function isBooleanType(type: string): boolean {
+  return /^(bool|boolean|tinyint\(1\)|bit)$/i.test(type);
+}
+
+function isIntegerType(type: string): boolean {
+  return /int|serial|number|bigint/i.test(type);
+}
+
+function dataTables(schema: UnifiedSchemaInfo): UnifiedTableInfo[] {
+  return schema.tables.filter((t) => !t.kind || t.kind === 'table');
+}
+
+/**
+ * Values a column accepts, from its enum type or a single-column `IN` check.
+ */
+function allowedValues(schema: UnifiedSchemaInfo, table: UnifiedTableInfo, column: UnifiedColumnInfo): string[] | undefined {
+  const enumType = (schema.enums || []).find((e) => e.name === column.type.replace(/\[\]$/, ''));
+  if (enumType) return enumType.values;
+
+  const inline = column.type.match(/^enum\((.*)\)$/i);
+  if (inline) return quotedValues(inline[1]);
+
+  for (const check of table.checks || []) {
+    if (check.columns.length !== 1 || check.columns[0] !== column.name) continue;
+    if (!/\bIN\s*\(|=\s*ANY\s*\(/i.test(check.expression)) continue;
+    const values = quotedValues(check.expression);
+    if (values.length > 0) return values;
+  }
+  return undefined;
+}
+
+function quotedValues(text: string): string[] {
+  return Array.from(text.matchAll(/'((?:[^']|'')*)'/g)).map((m) => m[1].replace(/''/g, "'"));
+}
+
+/**
+ * SQL string literal for a value, with quotes doubled.
+ */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * How the database fills a column: a trigger, `ON UPDATE`, or for creation
+ * times a default. A default is only applied on insert, so it does not keep a
+ * modification time current.
+ */
+function maintainedBy(table: UnifiedTableInfo, column: UnifiedColumnInfo, onUpdate: boolean): string[] {
+  const sources = (table.triggers || [])
+    .filter((t) => t.setsColumns.includes(column.name))
+    .map((t) => `trigger \`${t.name}\``);
+  if (column.onUpdateValue) sources.push(`\`ON UPDATE ${column.onUpdateValue}\``);
+  if (!onUpdate && column.default) sources.push(`default \`${column.default}\``);
+  return sources;
+}
+
+function detectTenantKey(schema: UnifiedSchemaInfo): SchemaPattern | null {
+  const tables = dataTables(schema);
+  let best: SchemaPattern | null = null;
+
+  for (const key of TENANT_KEYS) {
+    const occurrences: PatternOccurrence[] = [];
+    let root: string | undefined;
+    for (const table of tables) {
+      const column = findColumn(table, [key]);
+      if (!column) continue;
+      occurrences.push({ table: table.name, columns: [column.name] });
+      root = root || column.referencesTable;
+    }
+    // A column name alone is weak evidence: the key must reference the tenant
+    // table, or be on most tables
+    if (occurrences.length < 2 || (!root && occurrences.length * 2 <= tables.length)) continue;
+    if (!best || occurrences.length > best.occurrences.length) {
+      best = { kind: 'tenant-key', key, occurrences, ...(root ? { root } : {}) };
+    }
+  }
+
+  return best;
+}
+
+function detectSoftDeletes(schema: UnifiedSchemaInfo): SchemaPattern[] {
+  const patterns = new Map<string, SchemaPattern>();
+
+  for (const table of dataTables(schema)) {
+    const timestamp = findColumn(table, SOFT_DELETE_TIMESTAMPS);
+    const flag = findColumn(table, SOFT_DELETE_FLAGS);
+    const column = timestamp && timestamp.nullable ? timestamp : flag && isBooleanType(flag.type) ? flag : undefined;
+    if (!column) continue;
+
+    const filter = column === timestamp ? `${column.name} IS NULL` : `${column.name} = false`;
+    const pattern = patterns.get(filter) || { kind: 'soft-delete' as const, key: column.name, occurrences: [], filter };
+    pattern.occurrences.push({ table: table.name, columns: [column.name] });
+    patterns.set(filter, pattern);
+  }
+
+  return Array.from(patterns.values());
+}
+
+function detectAuditTimestamps(schema: UnifiedSchemaInfo): SchemaPattern | null {
+  const occurrences: PatternOccurrence[] = [];
+
+  for (const table of dataTables(schema)) {
+    const created = findColumn(table, CREATED_COLUMNS);
+    const updated = findColumn(table, UPDATED_COLUMNS);
+    const columns = [created, updated].filter((c): c is UnifiedColumnInfo => Boolean(c));
+    if (columns.length === 0) continue;
+    const sources = columns.flatMap((c) => maintainedBy(table, c, c === updated).map((s) => `\`${c.name}\` by ${s}`));
+    occurrences.push({
+      table: table.name,
+      columns: columns.map((c) => c.name),
+      ...(sources.length > 0 ? { maintainedBy: sources } : {}),
+    });
+  }
+
+  if (occurrences.length === 0) return null;
+  return { kind: 'audit-timestamps', key: occurrences[0].columns[0], occurrences };
+}
+
+function detectVersionColumns(schema: UnifiedSchemaInfo): SchemaPattern | null {
+  const occurrences: PatternOccurrence[] = [];
+
+  for (const table of dataTables(schema)) {
+    const column = findColumn(table, VERSION_COLUMNS);
+    if (column && isIntegerType(column.type) && !column.nullable) {
+      occurrences.push({ table: table.name, columns: [column.name] });
+    }
+  }
+
+  if (occurrences.length === 0) return null;
+  return { kind: 'optimistic-lock', key: occurrences[0].columns[0], occurrences };
+}
+
+/**
+ * `commentable_type` + `commentable_id` where the id is not a foreign key.
+ */
+function detectPolymorphicPairs(schema: UnifiedSchemaInfo): SchemaPattern[] {
+  const patterns: SchemaPattern[] = [];
+
+  for (const table of dataTables(schema)) {
+    for (const typeColumn of table.columns) {
+      const match = snakeCase(typeColumn.name).match(/^(\w+)_type$/);
+      if (!match) continue;
+      const idColumn = findColumn(table, [`${match[1]}_id`]);
+      if (!idColumn || idColumn.isForeignKey) continue;
+      const values = allowedValues(schema, table, typeColumn);
+      patterns.push({
+        kind: 'polymorphic',
+        key: match[1],
+        occurrences: [{ table: table.name, columns: [typeColumn.name, idColumn.name], ...(values ? { values } : {}) }],
+      });
+    }
+  }
+
+  return patterns;
+}
+
+function detectStatusColumns(schema: UnifiedSchemaInfo): SchemaPattern | null {
+  const occurrences: PatternOccurrence[] = [];
+
+  for (const table of dataTables(schema)) {
+    for (const column of table.columns) {
+      if (!/^(\w+_)?(status|state)$/.test(snakeCase(column.name))) continue;
+      const values = allowedValues(schema, table, column);
+      if (values && values.length > 0) {
+        occurrences.push({ table: table.name, columns: [column.name], values });
+      }
+    }
+  }
+
+  if (occurrences.length === 0) return null;
+  return { kind: 'status-enum', key: occurrences[0].columns[0], occurrences };
+}
+
+/**
+ * Patterns the schema shows evidence of. Each names the tables it was found in.
+ */
+export function inferSchemaPatterns(schema: UnifiedSchemaInfo): SchemaPattern[] {
+  return [
+    detectTenantKey(schema),
+    ...detectSoftDeletes(schema),
+    detectAuditTimestamps(schema),
+    detectVersionColumns(schema),
+    ...detectPolymorphicPairs(schema),
+    detectStatusColumns(schema),
+  ].filter((p): p is SchemaPattern => Boolean(p));
+}
+
+export function patternTables(pattern: SchemaPattern): string[] {
+  return pattern.occurrences.map((o) => o.table);
+}
+
+export function tablePatterns(patterns: SchemaPattern[], table: string): { pattern: SchemaPattern; occurrence: PatternOccurrence }[] {
+  return patterns.flatMap((pattern) =>
+    pattern.occurrences.filter((o) => o.table === table).map((occurrence) => ({ pattern, occurrence }))
+  );
+}
+
+export function formatTableList(tables: string[], limit = 8): string {
+  const shown = tables.slice(0, limit).map((t) => `\`${t}\``).join(', ');
+  return tables.length > limit ? `${shown} and ${tables.length - limit} more` : shown;
+}
+
+function primaryKeyOf(schema: UnifiedSchemaInfo, table: string): string {
+  return schema.tables.find((t) => t.name === table)?.primaryKey[0] || 'id';
+}
+
+/**
+ * Business rules for the detected patterns. Tenant isolation is left to the
+ * access rules when the database enforces row-level security.
+ */
+export function inferBusinessRules(schema: UnifiedSchemaInfo, patterns: SchemaPattern[]): BusinessRule[] {
+  const rules: BusinessRule[] = [];
+  const hasRowLevelSecurity = schema.tables.some((t) => t.rowLevelSecurity);
+
+  for (const pattern of patterns) {
+    const tables = patternTables(pattern);
+    const [first] = pattern.occurrences;
+    const pk = primaryKeyOf(schema, first.table);
+
+    switch (pattern.kind) {
+      case 'tenant-key': {
+        if (hasRowLevelSecurity) break;
+        const column = first.columns[0];
+        rules.push({
+          name: 'Tenant Isolation',
+          description: `\`${column}\` scopes rows to a tenant${pattern.root ? ` (\`${pattern.root}\`)` : ''}. Filter every query on these tables by it.`,
+          rule: `SELECT * FROM ${first.table} WHERE ${pk} = $1 AND ${column} = $2`,
+          examples: [
+            '-- Correct: tenant filter included',
+            `SELECT * FROM ${first.table} WHERE ${pk} = $1 AND ${column} = $2;`,
+            '-- Wrong: reads across tenants',
+            `SELECT * FROM ${first.table} WHERE ${pk} = $1;`,
+          ],
+          appliesTo: tables,
+        });
+        break;
+      }
+      case 'soft-delete': {
+        const column = first.columns[0];
+        const remove = pattern.filter!.endsWith('IS NULL') ? `${column} = NOW()` : `${column} = true`;
+        rules.push({
+          name: `Soft Deletes (\`${column}\`)`,
+          description: `Rows are marked deleted instead of removed. Exclude them with \`${pattern.filter}\` unless deleted rows are wanted.`,
+          rule: `UPDATE ${first.table} SET ${remove} WHERE ${pk} = $1`,
+          examples: [
+            '-- Soft delete',
+            `UPDATE ${first.table} SET ${remove} WHERE ${pk} = $1;`,
+            '-- Live rows only',
+            `SELECT * FROM ${first.table} WHERE ${pattern.filter};`,
+          ],
+          appliesTo: tables,
+        });
+        break;
+      }
+      case 'audit-timestamps': {
+        const maintained = pattern.occurrences.filter((o) => o.maintainedBy);
+        const sources = maintained.length > 0
+          ? ` Set by the database on ${formatTableList(maintained.map((o) => o.table))}; set them in application code elsewhere.`
+          : ' Nothing in the database sets them; set them in application code.';
+        const created = first.columns.find((c) => CREATED_COLUMNS.includes(snakeCase(c)));
+        const updated = pattern.occurrences.map((o) => o.columns.find((c) => UPDATED_COLUMNS.includes(snakeCase(c)))).find(Boolean);
+        const examples: string[] = [];
+        if (created) {
+          examples.push('-- Recent rows first', `SELECT * FROM ${first.table} ORDER BY ${created} DESC LIMIT 10;`);
+        }
+        if (updated) {
+          const table = pattern.occurrences.find((o) => o.columns.includes(updated))!.table;
+          examples.push('-- Changes since the last sync', `SELECT * FROM ${table} WHERE ${updated} > $1;`);
+        }
+        rules.push({
+          name: 'Audit Timestamps',
+          description: `Creation and modification times are recorded.${sources}`,
+          rule: created ? `ORDER BY ${created} DESC` : `WHERE ${updated} > $1`,
+          examples,
+          appliesTo: tables,
+        });
+        break;
+      }
+      case 'optimistic-lock': {
+        const column = first.columns[0];
+        rules.push({
+          name: 'Optimistic Locking',
+          description: `Updates must check and increment \`${column}\`. Zero updated rows means another writer changed the row first: reload and retry.`,
+          rule: `UPDATE ${first.table} SET ..., ${column} = ${column} + 1 WHERE ${pk} = $1 AND ${column} = $2`,
+          examples: [
+            '-- Update only if nobody else has',
+            `UPDATE ${first.table} SET ${column} = ${column} + 1 WHERE ${pk} = $1 AND ${column} = $2 RETURNING ${column};`,
+          ],
+          appliesTo: tables,
+        });
+        break;
+      }
+      case 'polymorphic': {
+        const [typeColumn, idColumn] = first.columns;
+        const values = first.values ? ` One of: ${first.values.map((v) => `\`${v}\``).join(', ')}.` : '';
+        const example = first.values?.[0] || 'Post';
+        rules.push({
+          name: `Polymorphic Reference (\`${pattern.key}\`)`,
+          description: `\`${idColumn}\` points at a different table depending on \`${typeColumn}\`, with no foreign key to enforce it.${values} Always match both columns.`,
+          rule: `WHERE ${typeColumn} = $1 AND ${idColumn} = $2`,
+          examples: [
+            '-- Join one target type',
+            `SELECT * FROM ${first.table} WHERE ${typeColumn} = ${sqlString(example)} AND ${idColumn} = $1;`,
+          ],
+          appliesTo: tables,
+        });
+        break;
+      }
+      case 'status-enum': {
+        rules.push({
+          name: 'Status Values',
+          description: 'Status columns only accept these values:\n\n' +
+            pattern.occurrences.map((o) => `- \`${o.table}.${o.columns[0]}\`: ${o.values!.map((v) => `\`${v}\``).join(', ')}`).join('\n'),
+          rule: `WHERE ${first.columns[0]} IN (${first.values!.map(sqlString).join(', ')})`,
+          examples: [
+            `SELECT * FROM ${first.table} WHERE ${first.columns[0]} = ${sqlString(first.values![0])};`,
+          ],
+          appliesTo: tables,
+        });
+        break;
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Query conventions: general SQL hygiene plus one per detected pattern.
+ */
+export function inferConventions(patterns: SchemaPattern[]): string[] {
+  const conventions = ['Use parameterized queries to prevent SQL injection'];
+
+  for (const pattern of patterns) {
+    const tables = formatTableList(patternTables(pattern));
+    switch (pattern.kind) {
+      case 'tenant-key':
+        conventions.push(`Include \`${pattern.key}\` in WHERE clauses on ${tables}`);
+        break;
+      case 'soft-delete':
+        conventions.push(`Add \`${pattern.filter}\` when reading ${tables}`);
+        break;
+      case 'audit-timestamps':
+        conventions.push(`Order lists by \`${pattern.key}\` DESC (${tables})`);
+        break;
+      case 'optimistic-lock':
+        conventions.push(`Check and increment \`${pattern.key}\` on every UPDATE of ${tables}`);
+        break;
+    }
+  }
+
+  conventions.push('Use COALESCE for nullable column handling');
+  conventions.push('Use EXPLAIN ANALYZE to optimize slow queries');
+  return conventions;
+}
+
+/**
+ * One-line usage note for a table from the patterns it shows.
+ */
+export function inferUsagePattern(table: UnifiedTableInfo, patterns: SchemaPattern[]): string {
+  const notes: string[] = [];
+  const tenant = patterns.find((p) => p.kind === 'tenant-key');
+  if (tenant?.root === table.name) {
+    notes.push(`Tenant root: ${patternTables(tenant).length} tables reference it through \`${tenant.key}\`.`);
+  }
+
+  for (const { pattern, occurrence } of tablePatterns(patterns, table.name)) {
+    switch (pattern.kind) {
+      case 'tenant-key':
+        notes.push(`Tenant-scoped by \`${occurrence.columns[0]}\`.`);
+        break;
+      case 'soft-delete':
+        notes.push(`Soft-deleted: filter \`${pattern.filter}\`.`);
+        break;
+      case 'optimistic-lock':
+        notes.push(`Optimistic locking on \`${occurrence.columns[0]}\`.`);
+        break;
+      case 'polymorphic':
+        notes.push(`Polymorphic \`${occurrence.columns.join('`/`')}\`.`);
+        break;
+      case 'status-enum':
+        notes.push(`\`${occurrence.columns[0]}\` is one of ${occurrence.values!.map((v) => `\`${v}\``).join(', ')}.`);
+        break;
+    }
+  }
+
+  if (notes.length > 0) return notes.join(' ');
+  return table.relations.length === 0 ? 'Standalone table. No foreign key dependencies.' : 'Standard CRUD.';
+}
+
+/**
+ * Tenant ownership summary; empty when no tenant key was found.
+ */
+export function inferOwnershipRules(schema: UnifiedSchemaInfo, patterns: SchemaPattern[]): string {
+  const tenant = patterns.find((p) => p.kind === 'tenant-key');
+  if (!tenant) return '';
+
+  const scoped = new Set(patternTables(tenant));
+  const shared = dataTables(schema)
+    .map((t) => t.name)
+    .filter((name) => !scoped.has(name) && name !== tenant.root);
+
+  let rules = `- **Tenant key**: \`${tenant.key}\` on ${formatTableList(Array.from(scoped))}\n`;
+  if (tenant.root) {
+    rules += `- **Tenant table**: \`${tenant.root}\`\n`;
+  }
+  if (shared.length > 0) {
+    rules += `- **Not tenant-scoped**: ${formatTableList(shared)}. Check ownership some other way before writing\n`;
+  }
+  rules += `- **Writes**: Set \`${tenant.key}\` from the authenticated session, never from request input\n`;
+  return rules;
+}
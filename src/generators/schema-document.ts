@@ -0,0 +1,64 @@
+/**
+ * Schema Document
+ * Versioned, machine-readable representation of the extracted schema (.ai/schema.json)
+ */
+
+import * as fs from 'fs';
+import yaml from 'js-yaml';
+import type { UnifiedSchemaInfo } from '../extractors/index.js';
+import type { BusinessRule, RelationshipTemplateData } from './templates.js';
+
+/**
+ * Bumped whenever the document layout changes in a way consumers must handle.
+ */
+export const SCHEMA_DOCUMENT_VERSION = 1;
+
+export type SchemaDocumentFormat = 'json' | 'yaml';
+
+export interface SchemaDocument {
+  formatVersion: number;
+  generator: {
+    name: string;
+    version: string;
+  };
+  generatedAt: string;
+  schema: UnifiedSchemaInfo;
+  relationships: RelationshipTemplateData[];
+  businessRules: BusinessRule[];
+  conventions: string[];
+}
+
+export function isDocumentFormat(format: string | undefined): format is SchemaDocumentFormat {
+  return format === 'json' || format === 'yaml';
+}
+
+export function getDocumentFileName(format: SchemaDocumentFormat): string {
+  return format === 'yaml' ? 'schema.yaml' : 'schema.json';
+}
+
+export function serializeSchemaDocument(document: SchemaDocument, format: SchemaDocumentFormat): string {
+  if (format === 'yaml') {
+    return yaml.dump(document, { noRefs: true, lineWidth: -1 });
+  }
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+export function parseSchemaDocument(content: string, format: SchemaDocumentFormat): SchemaDocument {
+  const document = (format === 'yaml' ? yaml.load(content) : JSON.parse(content)) as SchemaDocument;
+
+  if (!document || typeof document !== 'object' || !document.schema) {
+    throw new Error('Invalid schema document: missing "schema" section');
+  }
+  if (document.formatVersion > SCHEMA_DOCUMENT_VERSION) {
+    throw new Error(
+      `Schema document version ${document.formatVersion} is newer than supported version ${SCHEMA_DOCUMENT_VERSION}. Upgrade cohere-db.`
+    );
+  }
+
+  return document;
+}
+
+export function readSchemaDocument(filePath: string): SchemaDocument {
+  const format: SchemaDocumentFormat = /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+  return parseSchemaDocument(fs.readFileSync(filePath, 'utf-8'), format);
+}
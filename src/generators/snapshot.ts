@@ -0,0 +1,56 @@
+/**
+ * Schema Snapshot
+ * Persists the unified schema at generation time so later runs can tell what changed
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { UnifiedSchemaInfo } from '../extractors/index.js';
+import { SCHEMA_DOCUMENT_VERSION, SchemaDocument, readSchemaDocument } from './schema-document.js';
+
+export const SNAPSHOT_FILE_NAME = 'schema.snapshot.json';
+
+/**
+ * A snapshot is a schema document without the derived sections, so any
+ * `schema.json`/`schema.yaml` written by `--format` can be read as one.
+ */
+export type SchemaSnapshot = Pick<SchemaDocument, 'formatVersion' | 'generator' | 'generatedAt' | 'schema'>;
+
+export function createSnapshot(schema: UnifiedSchemaInfo, version: string): SchemaSnapshot {
+  return {
+    formatVersion: SCHEMA_DOCUMENT_VERSION,
+    generator: {
+      name: 'cohere-db',
+      version,
+    },
+    generatedAt: new Date().toISOString(),
+    schema,
+  };
+}
+
+export function serializeSnapshot(snapshot: SchemaSnapshot): string {
+  return JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+export function readSnapshot(filePath: string): SchemaSnapshot {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Schema snapshot not found at: ${filePath}. Run: cohere-db generate`);
+  }
+  return readSchemaDocument(filePath);
+}
+
+/**
+ * Short content hash of the table structure, embedded in CLAUDE.md so
+ * `validate` can tell which snapshot a context file was generated from.
+ */
+export function fingerprintSchema(schema: UnifiedSchemaInfo): string {
+  return crypto.createHash('sha256').update(JSON.stringify(schema.tables)).digest('hex').slice(0, 16);
+}
+
+export function renderFingerprintMarker(schema: UnifiedSchemaInfo): string {
+  return `<!-- cohere-db:snapshot ${fingerprintSchema(schema)} -->`;
+}
+
+export function readFingerprintMarker(content: string): string | null {
+  return content.match(/<!--\s*cohere-db:snapshot\s+([0-9a-f]+)\s*-->/)?.[1] || null;
+}
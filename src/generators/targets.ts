@@ -0,0 +1,218 @@
+/**
+ * Output Targets
+ * Registry of the assistant instruction files: where each lives, how much it may hold and how it is laid out
+ */
+
+import type { UnifiedSchemaInfo } from '../extractors/index.js';
+import { renderHtmlSite } from './html-site.js';
+import { INJECTED_REGION, toManagedSections, wrapRegion } from './managed-regions.js';
+import type { TemplateData } from './templates.js';
+import { renderZodSchemas } from './zod-schemas.js';
+
+export interface TargetSection {
+  heading: string;
+  lines: string[];
+}
+
+/**
+ * What targets render from. `summary` is the compact form for assistants
+ * with small instruction files, most important section first.
+ */
+export interface TargetContent {
+  databaseType: string;
+  claudeMd: string;
+  agentsMd: string;
+  summary: TargetSection[];
+  /** Where the full context is, relative to the project root, e.g. `.ai/CLAUDE.md` */
+  fullContextPath: string;
+  /** What the Markdown documents are rendered from */
+  data: TemplateData;
+  schema: UnifiedSchemaInfo;
+}
+
+export interface OutputTarget {
+  name: string;
+  /** Assistant that reads the file */
+  assistant: string;
+  /** `output`: inside the output directory; `root`: relative to the project root */
+  location: 'output' | 'root';
+  file: string;
+  /** Characters the assistant reads at most; the summary is cut down to fit */
+  maxChars?: number;
+  /**
+   * Whole file content, managed regions included; or, for a directory
+   * `file`, the files to write in it keyed by relative path
+   */
+  render(content: TargetContent): string | Record<string, string>;
+}
+
+/**
+ * Written unless `--targets` says otherwise.
+ */
+export const DEFAULT_TARGETS = ['claude', 'agents'];
+
+const registry = new Map<string, OutputTarget>();
+
+/**
+ * Add a target, or replace the one with the same name.
+ */
+export function registerTarget(target: OutputTarget): void {
+  registry.set(target.name, target);
+}
+
+export function listTargets(): OutputTarget[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Look up targets by name, in the order given.
+ */
+export function resolveTargets(names: string[]): OutputTarget[] {
+  return Array.from(new Set(names)).map((name) => {
+    const target = registry.get(name);
+    if (!target) {
+      throw new Error(`Unknown target "${name}". Use one of: ${Array.from(registry.keys()).join(', ')}`);
+    }
+    return target;
+  });
+}
+
+/**
+ * Targets to write: `names`, or the defaults without AGENTS.md when that
+ * generator is off. CLAUDE.md is always included; validate and show read it.
+ */
+export function selectTargets(names: string[] | undefined, agents = true): OutputTarget[] {
+  return resolveTargets(['claude', ...(names ?? DEFAULT_TARGETS.filter((name) => name !== 'agents' || agents))]);
+}
+
+type SectionFormatter = (heading: string, lines: string[]) => string;
+
+const markdownSection: SectionFormatter = (heading, lines) =>
+  `## ${heading}\n\n${lines.map((line) => `- ${line}`).join('\n')}\n\n`;
+
+/**
+ * Windsurf recommends grouping related rules in XML tags.
+ */
+const xmlSection: SectionFormatter = (heading, lines) => {
+  const tag = heading.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  return `<${tag}>\n${lines.map((line) => `- ${line}`).join('\n')}\n</${tag}>\n\n`;
+};
+
+/**
+ * Render the summary as one managed region of at most `maxChars` characters.
+ * Sections are added in order; the first that does not fit keeps as many
+ * lines as it can, and everything after it is left to the full context.
+ */
+export function renderSummary(
+  content: TargetContent,
+  intro: string,
+  formatSection: SectionFormatter = markdownSection,
+  maxChars = Infinity
+): string {
+  const header = `# Database (${content.databaseType})\n\n${intro}\n\n`;
+  const footer = `Full schema, query patterns and edge cases: \`${content.fullContextPath}\`\n`;
+  // The region markers and trailing newline count against the limit too
+  const budget = maxChars - wrapRegion(INJECTED_REGION, '').length - 1;
+  const fits = (body: string) => body.length + footer.length <= budget;
+
+  let body = header;
+  for (const section of content.summary) {
+    if (section.lines.length === 0) continue;
+    const full = formatSection(section.heading, section.lines);
+    if (fits(body + full)) {
+      body += full;
+      continue;
+    }
+
+    const partial = (kept: number) => formatSection(section.heading, [
+      ...section.lines.slice(0, kept),
+      `… ${section.lines.length - kept} more in \`${content.fullContextPath}\``,
+    ]);
+    // Most lines that still fit, by binary search
+    let low = 0;
+    let high = section.lines.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(body + partial(mid))) low = mid;
+      else high = mid - 1;
+    }
+    if (low > 0) body += partial(low);
+    break;
+  }
+
+  return wrapRegion(INJECTED_REGION, (body + footer).trimEnd()) + '\n';
+}
+
+registerTarget({
+  name: 'claude',
+  assistant: 'Claude Code',
+  location: 'output',
+  file: 'CLAUDE.md',
+  render: (content) => toManagedSections(content.claudeMd),
+});
+
+registerTarget({
+  name: 'agents',
+  assistant: 'Codex and other AGENTS.md readers',
+  location: 'output',
+  file: 'AGENTS.md',
+  render: (content) => toManagedSections(content.agentsMd),
+});
+
+registerTarget({
+  name: 'copilot',
+  assistant: 'GitHub Copilot',
+  location: 'root',
+  file: '.github/copilot-instructions.md',
+  // Copilot code review reads only the first 4,000 characters
+  maxChars: 4000,
+  render(content) {
+    return renderSummary(content, 'Use this schema when writing queries, migrations or data access code.',
+      markdownSection, this.maxChars);
+  },
+});
+
+registerTarget({
+  name: 'windsurf',
+  assistant: 'Windsurf',
+  location: 'root',
+  file: '.windsurfrules',
+  // Windsurf ignores workspace rules past 6,000 characters
+  maxChars: 6000,
+  render(content) {
+    return renderSummary(content, 'Follow these rules when working with the database.', xmlSection, this.maxChars);
+  },
+});
+
+registerTarget({
+  name: 'cline',
+  assistant: 'Cline',
+  location: 'root',
+  file: '.clinerules',
+  render: (content) => renderSummary(content, 'Follow these rules when working with the database.'),
+});
+
+registerTarget({
+  name: 'aider',
+  assistant: 'Aider',
+  location: 'root',
+  file: 'CONVENTIONS.md',
+  render: (content) => renderSummary(content,
+    'Database conventions for this project. Load with `aider --read CONVENTIONS.md`.'),
+});
+
+registerTarget({
+  name: 'html',
+  assistant: 'People, in a browser',
+  location: 'output',
+  file: 'site',
+  render: (content) => renderHtmlSite(content.data),
+});
+
+registerTarget({
+  name: 'zod',
+  assistant: 'Zod, for validating API payloads',
+  location: 'output',
+  file: 'zod',
+  render: (content) => renderZodSchemas(content.schema),
+});
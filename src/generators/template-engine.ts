@@ -0,0 +1,253 @@
+/**
+ * Template Engine
+ * Renders user templates with the Handlebars subset the shipped templates use:
+ * {{path}}, {{#each}}, {{#if}}/{{else}}, {{#unless}}, {{> partial}} and {{! comments}}
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Renders a partial by name for a context; undefined when it does not exist.
+ */
+export type PartialResolver = (name: string, context: unknown) => string | undefined;
+
+export interface TemplateOverrides {
+  /** Whole-document templates keyed by file name, e.g. `CLAUDE.md` */
+  documents: Record<string, string>;
+  /** Partials keyed by name, from `partials/<name>.md` */
+  partials: Record<string, string>;
+}
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string }
+  | { type: 'partial'; name: string; path?: string }
+  | { type: 'block'; kind: 'each' | 'if' | 'unless'; path: string; body: Node[]; inverse: Node[] };
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; tag: string };
+
+interface Frame {
+  context: unknown;
+  locals?: Record<string, unknown>;
+}
+
+const TAG = /\{\{(\{?)([\s\S]*?)\}?\}\}/g;
+
+/**
+ * Split a template into text and tags. Block, comment and partial tags that
+ * sit alone on a line take the line with them, so templates can put each on
+ * its own line without leaving blank lines in the output.
+ */
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    tokens.push({ type: 'text', value: template.slice(cursor, match.index) });
+    tokens.push({ type: 'tag', tag: match[2].trim() });
+    cursor = match.index! + match[0].length;
+  }
+  tokens.push({ type: 'text', value: template.slice(cursor) });
+
+  // Whether the text before the next tag starts at the beginning of a line
+  let lineStart = true;
+  for (let i = 1; i < tokens.length; i += 2) {
+    const token = tokens[i] as Extract<Token, { type: 'tag' }>;
+    const before = tokens[i - 1] as Extract<Token, { type: 'text' }>;
+    const after = tokens[i + 1] as Extract<Token, { type: 'text' }>;
+
+    const newline = before.value.lastIndexOf('\n');
+    const startsLine = (newline >= 0 || lineStart) && /^[ \t]*$/.test(before.value.slice(newline + 1));
+    const standalone = /^[#/!>]|^else$/.test(token.tag) && startsLine && /^[ \t]*(\r?\n|$)/.test(after.value);
+
+    if (standalone) {
+      before.value = before.value.replace(/[ \t]*$/, '');
+      after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '');
+    }
+    lineStart = standalone;
+  }
+
+  return tokens;
+}
+
+function parse(template: string, source: string): Node[] {
+  const root: Node[] = [];
+  const stack: { node: Extract<Node, { type: 'block' }>; inElse: boolean }[] = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.inverse : top.node.body) : root;
+  };
+
+  for (const token of tokenize(template)) {
+    if (token.type === 'text') {
+      if (token.value) target().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const tag = token.tag;
+    if (tag.startsWith('!')) continue;
+
+    const open = tag.match(/^#(each|if|unless)\s+(\S+)$/);
+    if (open) {
+      const node: Node = { type: 'block', kind: open[1] as 'each' | 'if' | 'unless', path: open[2], body: [], inverse: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new Error(`${source}: {{else}} outside a block`);
+      top.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(each|if|unless)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.node.kind !== close[1]) {
+        throw new Error(`${source}: {{/${close[1]}}} does not close ${top ? `{{#${top.node.kind}}}` : 'any block'}`);
+      }
+      continue;
+    }
+
+    const partial = tag.match(/^>\s*([\w.-]+)(?:\s+(\S+))?$/);
+    if (partial) {
+      target().push({ type: 'partial', name: partial[1], path: partial[2] });
+      continue;
+    }
+
+    if (/^[#/^>]/.test(tag)) {
+      throw new Error(`${source}: unsupported tag {{${tag}}}`);
+    }
+    target().push({ type: 'value', path: tag });
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`${source}: {{#${stack[stack.length - 1].node.kind} ${stack[stack.length - 1].node.path}}} is never closed`);
+  }
+  return root;
+}
+
+/**
+ * Resolve `name`, `a.b`, `this`, `../name` or `@index` against the context
+ * stack; plain names fall back to enclosing contexts.
+ */
+function lookup(frames: Frame[], expression: string): unknown {
+  let depth = frames.length - 1;
+  let rest = expression;
+  while (rest.startsWith('../')) {
+    depth = Math.max(depth - 1, 0);
+    rest = rest.slice(3);
+  }
+
+  if (rest === 'this' || rest === '.') return frames[depth].context;
+  if (rest.startsWith('this.')) rest = rest.slice(5);
+
+  const [head, ...tail] = rest.split('.');
+  for (let i = depth; i >= 0; i--) {
+    const frame = frames[i];
+    let value: unknown;
+    if (head.startsWith('@')) {
+      if (!frame.locals || !(head in frame.locals)) continue;
+      value = frame.locals[head];
+    } else if (frame.context !== null && typeof frame.context === 'object' && head in (frame.context as object)) {
+      value = (frame.context as Record<string, unknown>)[head];
+    } else {
+      continue;
+    }
+    return tail.reduce<unknown>((current, key) =>
+      current !== null && current !== undefined ? (current as Record<string, unknown>)[key] : undefined, value);
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function renderNodes(nodes: Node[], frames: Frame[], partials: PartialResolver, source: string): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value':
+        output += stringify(lookup(frames, node.path));
+        break;
+      case 'partial': {
+        const context = node.path ? lookup(frames, node.path) : frames[frames.length - 1].context;
+        const rendered = partials(node.name, context);
+        if (rendered === undefined) throw new Error(`${source}: unknown partial "${node.name}"`);
+        output += rendered;
+        break;
+      }
+      case 'block': {
+        const value = lookup(frames, node.path);
+        if (node.kind === 'each') {
+          const entries: [string | number, unknown][] = Array.isArray(value)
+            ? value.map((item, index) => [index, item])
+            : value && typeof value === 'object' ? Object.entries(value) : [];
+          if (entries.length === 0) {
+            output += renderNodes(node.inverse, frames, partials, source);
+          }
+          entries.forEach(([key, item], index) => {
+            const locals = { '@index': index, '@key': key, '@first': index === 0, '@last': index === entries.length - 1 };
+            output += renderNodes(node.body, [...frames, { context: item, locals }], partials, source);
+          });
+        } else {
+          const show = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+          output += renderNodes(show ? node.body : node.inverse, frames, partials, source);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template against `data`. Output is not escaped: templates produce
+ * Markdown, not HTML.
+ */
+export function renderTemplate(
+  template: string,
+  data: unknown,
+  partials: PartialResolver = () => undefined,
+  source = 'template'
+): string {
+  return renderNodes(parse(template, source), [{ context: data }], partials, source);
+}
+
+/**
+ * Read document templates and `partials/` from a directory; empty when it does not exist.
+ */
+export function loadTemplateOverrides(templateDir: string): TemplateOverrides {
+  const overrides: TemplateOverrides = { documents: {}, partials: {} };
+  const read = (dir: string, into: Record<string, string>, key: (file: string) => string) => {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return;
+    for (const file of fs.readdirSync(dir)) {
+      const filePath = path.join(dir, file);
+      if (file.endsWith('.md') && fs.statSync(filePath).isFile()) {
+        into[key(file)] = fs.readFileSync(filePath, 'utf-8');
+      }
+    }
+  };
+
+  read(templateDir, overrides.documents, (file) => file);
+  read(path.join(templateDir, 'partials'), overrides.partials, (file) => file.replace(/\.md$/, ''));
+  return overrides;
+}
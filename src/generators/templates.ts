@@ -11,83 +11,122 @@ import {
   SQLiteSchemaInfo,
   PrismaSchemaInfo,
   DrizzleSchemaInfo,
+  UnifiedSchemaConverter as ExtractorSchemaConverter,
+  UnifiedColumnInfo,
+  UnifiedIndexInfo,
+  UnifiedRelationInfo,
+  UnifiedTableInfo,
+  UnifiedSchemaInfo,
+  UnifiedEnumInfo,
+  UnifiedDomainInfo,
+  UnifiedCompositeTypeInfo,
+  UnifiedTableKind,
+  UnifiedTriggerInfo,
+  UnifiedRoutineInfo,
+  UnifiedPolicyInfo,
+  UnifiedDeprecation,
+  UnifiedQueryExample,
+  displayType,
+  relationColumns,
 } from '../extractors/index.js';
+import {
+  SchemaDocument,
+  SchemaDocumentFormat,
+  SCHEMA_DOCUMENT_VERSION,
+  getDocumentFileName,
+  serializeSchemaDocument,
+} from './schema-document.js';
+import { SNAPSHOT_FILE_NAME, createSnapshot, renderFingerprintMarker, serializeSnapshot } from './snapshot.js';
+import { INJECTED_REGION, demoteHeadings, mergeRegions, toManagedSections, wrapRegion } from './managed-regions.js';
+import { TemplateOverrides, loadTemplateOverrides, renderTemplate } from './template-engine.js';
+import { SchemaDomain, groupTablesByDomain } from './domains.js';
+import { TargetContent, TargetSection, selectTargets } from './targets.js';
+import { MERMAID_FILE_NAME, diagramDomains, generateDiagrams, renderMermaidDiagram } from './diagrams.js';
+import { TYPES_FILE_NAME, TypeMapping, renderTypeScriptTypes, usedTypeMappings } from './typescript-types.js';
+import { usageGlobs } from '../utils/code-usage.js';
+import {
+  SchemaPattern,
+  formatTableList,
+  inferBusinessRules,
+  inferConventions,
+  inferOwnershipRules,
+  inferSchemaPatterns,
+  inferUsagePattern,
+  patternTables,
+} from './rule-inference.js';
+import type { GeneratorToggles } from '../utils/config.js';
 
 // ============================================================================
 // Unified Schema Types
 // ============================================================================
 
-export interface UnifiedColumnInfo {
-  name: string;
-  type: string;
-  nullable: boolean;
-  default: string | null;
-  isPrimaryKey: boolean;
-  isUnique: boolean;
-  isForeignKey: boolean;
-  referencesTable?: string;
-  referencesColumn?: string;
-  onDelete?: string;
-  onUpdate?: string;
-  description?: string;
-}
-
-export interface UnifiedIndexInfo {
-  name: string;
-  columns: string[];
-  unique: boolean;
-  isPrimaryKey: boolean;
-}
-
-export interface UnifiedRelationInfo {
-  fromTable: string;
-  fromColumn: string;
-  toTable: string;
-  toColumn: string;
-  cardinality: '1:1' | '1:N' | 'N:1' | 'N:M';
-  onDelete?: string;
-  onUpdate?: string;
-}
-
-export interface UnifiedTableInfo {
-  name: string;
-  description?: string;
-  columns: UnifiedColumnInfo[];
-  indexes: UnifiedIndexInfo[];
-  relations: UnifiedRelationInfo[];
-  primaryKey: string[];
-}
-
-export interface UnifiedSchemaInfo {
-  tables: UnifiedTableInfo[];
-  databaseType: 'postgresql' | 'mysql' | 'sqlite' | 'prisma' | 'drizzle' | 'mongodb' | 'firebase';
-  schemaName?: string;
-  source?: string;
-}
+// Defined next to the converters; re-exported for template consumers
+export type {
+  UnifiedColumnInfo,
+  UnifiedIndexInfo,
+  UnifiedRelationInfo,
+  UnifiedTableInfo,
+  UnifiedSchemaInfo,
+  UnifiedEnumInfo,
+  UnifiedDomainInfo,
+  UnifiedCompositeTypeInfo,
+  UnifiedTableKind,
+  UnifiedTriggerInfo,
+  UnifiedRoutineInfo,
+  UnifiedPolicyInfo,
+  UnifiedDeprecation,
+  UnifiedQueryExample,
+} from '../extractors/index.js';
 
 // ============================================================================
 // Template Data Types
 // ============================================================================
 
-interface TemplateData {
+export interface TemplateData {
   timestamp: string;
   databaseType: string;
   schemaName: string;
   source: string;
   tables: TableTemplateData[];
   relationships: RelationshipTemplateData[];
+  enums: UnifiedEnumInfo[];
+  domains: UnifiedDomainInfo[];
+  compositeTypes: UnifiedCompositeTypeInfo[];
+  routines: UnifiedRoutineInfo[];
+  /** Schema-wide invariants and example queries from annotations */
+  invariants: string[];
+  examples: UnifiedQueryExample[];
   cardinalitySummary: string;
   businessRules: BusinessRule[];
   conventions: string[];
   ownershipRules: string;
+  patterns: SchemaPattern[];
   typeMappings: TypeMapping[];
   performanceTips: string[];
+  /** Mermaid erDiagram of all tables, and of each domain for large schemas */
+  erDiagram: string;
+  domainDiagrams: { name: string; diagram: string }[];
+  snapshotMarker: string;
   version: string;
 }
 
-interface TableTemplateData {
+export interface TableTemplateData {
   name: string;
+  kind: UnifiedTableKind;
   description: string;
+  definition: string;
+  dependsOn: string[];
+  /** CHECK constraints spanning several columns */
+  tableChecks: string[];
+  /** Primary key, unique, foreign key and check constraints, one line each */
+  constraints: string[];
+  triggers: UnifiedTriggerInfo[];
+  rowLevelSecurity: boolean;
+  forceRowLevelSecurity: boolean;
+  policies: UnifiedPolicyInfo[];
+  invariants: string[];
+  examples: UnifiedQueryExample[];
+  deprecated?: UnifiedDeprecation;
   columns: ColumnTemplateData[];
   indexes: IndexTemplateData[];
   relations: string[];
@@ -95,266 +134,229 @@ interface TableTemplateData {
   foreignKeyCount: number;
   columnList: string;
   usagePattern: string;
+  /** Tenant key column when the table is tenant-scoped */
+  tenantColumn?: string;
+  /** Condition that hides soft-deleted rows, e.g. `deleted_at IS NULL` */
+  softDeleteFilter?: string;
 }
 
-interface ColumnTemplateData {
+export interface ColumnTemplateData {
   name: string;
   type: string;
   nullable: boolean;
   default: string | null;
   isKey: boolean;
+  isPrimaryKey: boolean;
+  isForeignKey: boolean;
+  /** Table a foreign key column points to */
+  referencesTable?: string;
   description: string;
+  /** Allowed values when the column type is an enum */
+  enumValues?: string[];
+  /** CHECK constraints on this column alone */
+  checks: string[];
+  identity?: 'always' | 'by-default';
+  generatedExpression?: string;
+  /** Triggers that assign this column, e.g. `set_updated_at` (BEFORE UPDATE) */
+  setByTriggers: string[];
+  invariants: string[];
+  deprecated?: UnifiedDeprecation;
+  /** Description and constraints for the Notes column, `-` when there are none */
+  notes: string;
 }
 
-interface IndexTemplateData {
+export interface IndexTemplateData {
   name: string;
   columns: string[];
   unique: boolean;
   purpose: string;
 }
 
-interface RelationshipTemplateData {
+export interface RelationshipTemplateData {
   fromTable: string;
   toTable: string;
   cardinality: string;
   onDelete?: string;
+  /** e.g. `orders.tenant_id = customers.tenant_id AND orders.customer_id = customers.id` */
+  joinCondition: string;
+  constraintName?: string;
   description: string;
 }
 
-interface BusinessRule {
+export interface BusinessRule {
   name: string;
   description: string;
   rule: string;
   examples: string[];
+  /** Tables the schema shows the pattern in */
+  appliesTo: string[];
 }
 
-interface TypeMapping {
-  dbType: string;
-  tsType: string;
-  notes?: string;
+export interface SaveOptions {
+  format?: 'markdown' | SchemaDocumentFormat;
+  /** Files to skip; CLAUDE.md and the snapshot are always written */
+  generators?: GeneratorToggles;
+  /**
+   * Existing files (e.g. the repository-root CLAUDE.md) to add the schema
+   * section to. AGENTS.md files get the AGENTS.md content, others CLAUDE.md.
+   */
+  inject?: string[];
+  /**
+   * Assistant files to write (see `targets.ts`), default CLAUDE.md and
+   * AGENTS.md. CLAUDE.md is always written; validate and show read it.
+   */
+  targets?: string[];
+  /** Also write Cursor rules */
+  cursor?: CursorRuleOptions;
+  /** Domain name → table patterns, for the per-domain diagrams of large schemas */
+  domains?: Record<string, string[]>;
+  /** Document each table on its own page under `tables/` instead of in DATABASE.md */
+  splitTables?: boolean;
+  /** Project root, for files outside the output directory (default: the working directory) */
+  rootDir?: string;
 }
 
-// ============================================================================
-// Type Mappings
-// ============================================================================
+export interface CursorRuleOptions {
+  /** Domain name → table patterns; tables are grouped automatically otherwise */
+  domains?: Record<string, string[]>;
+  /** Source files mentioning each table, used for the rule globs */
+  tableFiles?: Record<string, string[]>;
+  /** Directory to write the rules to (default: `<rootDir>/.cursor/rules`) */
+  rulesDir?: string;
+}
+
+/**
+ * Prefix of the rule files cohere-db owns in `.cursor/rules`.
+ */
+export const CURSOR_RULE_PREFIX = 'cohere-';
+
+/**
+ * The always-applied rule; a domain with the same name gets a suffixed rule.
+ */
+const CURSOR_OVERVIEW_RULE = `${CURSOR_RULE_PREFIX}overview`;
+
+function cursorRuleName(domain: SchemaDomain): string {
+  const name = `${CURSOR_RULE_PREFIX}${domain.name}`;
+  return name === CURSOR_OVERVIEW_RULE ? `${name}-domain` : name;
+}
+
+/**
+ * Frontmatter value: plain when YAML reads it back unchanged, double-quoted otherwise.
+ */
+function yamlScalar(value: string): string {
+  return /^([\w./-][\w./*,-]*)?$/.test(value) ? value : JSON.stringify(value);
+}
+
+const KIND_LABELS: Record<UnifiedTableKind, string> = {
+  table: 'table',
+  view: 'view',
+  materialized_view: 'materialized view',
+};
+
+/**
+ * GitHub-style anchor for a markdown heading (`auth.users` → `authusers`).
+ */
+function headingAnchor(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9_\- ]/g, '').replace(/ /g, '-');
+}
+
+/**
+ * Column list of a key: `user_id`, or `(tenant_id, user_id)` when composite.
+ */
+function keyColumns(columns: string[]): string {
+  return columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+}
+
+/**
+ * ON clause joining a relation's tables, one equality per column pair.
+ */
+function joinCondition(rel: UnifiedRelationInfo, fromAlias = rel.fromTable, toAlias = rel.toTable): string {
+  const { from, to } = relationColumns(rel);
+  return from.map((column, i) => `${fromAlias}.${column} = ${toAlias}.${to[i]}`).join(' AND ');
+}
+
+/**
+ * `Deprecated: moved to billing, use \`plan_id\` instead`
+ */
+function deprecationNote(deprecation: UnifiedDeprecation): string {
+  let note = deprecation.reason ? `Deprecated: ${deprecation.reason.replace(/\.$/, '')}` : 'Deprecated';
+  if (deprecation.replacedBy) {
+    note += `, use \`${deprecation.replacedBy}\` instead`;
+  }
+  return note;
+}
+
+/**
+ * Page of a table when the documentation is split, e.g. `auth.users.md`.
+ */
+function tablePageName(table: string): string {
+  return `${table.replace(/[^\w.-]/g, '_')}.md`;
+}
+
+/**
+ * Referential actions worth mentioning; NO ACTION is the default.
+ */
+function referentialActions(rel: UnifiedRelationInfo): string {
+  return [
+    rel.onDelete && rel.onDelete.toUpperCase() !== 'NO ACTION' ? `ON DELETE ${rel.onDelete.toUpperCase()}` : '',
+    rel.onUpdate && rel.onUpdate.toUpperCase() !== 'NO ACTION' ? `ON UPDATE ${rel.onUpdate.toUpperCase()}` : '',
+  ].filter(Boolean).join(', ');
+}
 
-const TYPE_MAPPINGS: TypeMapping[] = [
-  // PostgreSQL
-  { dbType: 'uuid', tsType: 'string', notes: 'UUID v4' },
-  { dbType: 'text', tsType: 'string' },
-  { dbType: 'varchar', tsType: 'string' },
-  { dbType: 'integer', tsType: 'number' },
-  { dbType: 'bigint', tsType: 'number' },
-  { dbType: 'boolean', tsType: 'boolean' },
-  { dbType: 'timestamp', tsType: 'Date' },
-  { dbType: 'jsonb', tsType: 'Record<string, unknown>' },
-  // MySQL
-  { dbType: 'int', tsType: 'number' },
-  { dbType: 'datetime', tsType: 'Date' },
-  { dbType: 'enum', tsType: 'string', notes: 'Enum values' },
-  // SQLite
-  { dbType: 'INTEGER', tsType: 'number' },
-  { dbType: 'TEXT', tsType: 'string' },
-  { dbType: 'REAL', tsType: 'number' },
-  { dbType: 'BLOB', tsType: 'Buffer' },
-  // Prisma
-  { dbType: 'String', tsType: 'string' },
-  { dbType: 'Int', tsType: 'number' },
-  { dbType: 'Boolean', tsType: 'boolean' },
-  { dbType: 'DateTime', tsType: 'Date' },
-];
+function constraintLines(table: UnifiedTableInfo): string[] {
+  const lines: string[] = [];
+  if (table.primaryKey.length > 0) {
+    lines.push(`Primary key: \`${keyColumns(table.primaryKey)}\``);
+  }
+  for (const col of table.columns.filter((c) => c.isUnique && !c.isPrimaryKey)) {
+    lines.push(`Unique: \`${col.name}\``);
+  }
+  for (const rel of table.relations) {
+    const { from, to } = relationColumns(rel);
+    const name = rel.constraintName ? ` \`${rel.constraintName}\`` : '';
+    const actions = referentialActions(rel);
+    lines.push(`Foreign key${name}: \`${keyColumns(from)}\` → \`${rel.toTable}\` (\`${to.join(', ')}\`)${actions ? `, ${actions}` : ''}`);
+  }
+  for (const check of table.checks || []) {
+    lines.push(`Check${check.name ? ` \`${check.name}\`` : ''}: \`${check.expression}\``);
+  }
+  return lines;
+}
+
+/**
+ * When a trigger fires, e.g. `BEFORE INSERT OR UPDATE`.
+ */
+function triggerFiring(trigger: UnifiedTriggerInfo): string {
+  return `${trigger.timing} ${trigger.events.join(' OR ')}`;
+}
 
 // ============================================================================
 // Unified Schema Converter
 // ============================================================================
 
+/**
+ * Per-source entry points, kept for API compatibility. Conversion lives next
+ * to the extractors so every command converts the same way.
+ */
 export class UnifiedSchemaConverter {
   static fromPostgres(schema: PostgresSchemaInfo): UnifiedSchemaInfo {
-    return {
-      tables: schema.tables.map((table) => ({
-        name: table.name,
-        description: table.description || undefined,
-        columns: table.columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.nullable,
-          default: col.default,
-          isPrimaryKey: table.primaryKey.includes(col.name),
-          isUnique: table.indexes.some((i) => i.unique && i.columns.includes(col.name)),
-          isForeignKey: table.foreignKeys.some((fk) => fk.column === col.name),
-          referencesTable: table.foreignKeys.find((fk) => fk.column === col.name)?.referencesTable,
-          referencesColumn: table.foreignKeys.find((fk) => fk.column === col.name)?.referencesColumn,
-          onDelete: table.foreignKeys.find((fk) => fk.column === col.name)?.onDelete || undefined,
-          description: col.description || undefined,
-        })),
-        indexes: table.indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          isPrimaryKey: idx.isPrimaryKey,
-        })),
-        relations: table.foreignKeys.map((fk) => ({
-          fromTable: table.name,
-          fromColumn: fk.column,
-          toTable: fk.referencesTable,
-          toColumn: fk.referencesColumn,
-          cardinality: 'N:1' as const,
-          onDelete: fk.onDelete || undefined,
-        })),
-        primaryKey: table.primaryKey,
-      })),
-      databaseType: 'postgresql',
-      schemaName: schema.schemaName,
-    };
+    return ExtractorSchemaConverter.convert({ ...schema, databaseType: 'postgresql' });
   }
 
   static fromMySQL(schema: MySQLSchemaInfo): UnifiedSchemaInfo {
-    return {
-      tables: schema.tables.map((table) => ({
-        name: table.name,
-        description: table.comment || undefined,
-        columns: table.columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.nullable,
-          default: col.default,
-          isPrimaryKey: table.primaryKey.includes(col.name),
-          isUnique: table.indexes.some((i) => i.unique && i.columns.includes(col.name)),
-          isForeignKey: table.foreignKeys.some((fk) => fk.column === col.name),
-          referencesTable: table.foreignKeys.find((fk) => fk.column === col.name)?.referencesTable,
-          referencesColumn: table.foreignKeys.find((fk) => fk.column === col.name)?.referencesColumn,
-          onDelete: table.foreignKeys.find((fk) => fk.column === col.name)?.onDelete || undefined,
-          description: col.comment || undefined,
-        })),
-        indexes: table.indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          isPrimaryKey: idx.isPrimaryKey,
-        })),
-        relations: table.foreignKeys.map((fk) => ({
-          fromTable: table.name,
-          fromColumn: fk.column,
-          toTable: fk.referencesTable,
-          toColumn: fk.referencesColumn,
-          cardinality: 'N:1' as const,
-          onDelete: fk.onDelete || undefined,
-        })),
-        primaryKey: table.primaryKey,
-      })),
-      databaseType: 'mysql',
-      schemaName: schema.databaseName,
-    };
+    return ExtractorSchemaConverter.convert({ ...schema, databaseType: 'mysql' });
   }
 
   static fromSQLite(schema: SQLiteSchemaInfo): UnifiedSchemaInfo {
-    return {
-      tables: schema.tables.map((table) => ({
-        name: table.name,
-        columns: table.columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.nullable,
-          default: col.default,
-          isPrimaryKey: table.primaryKey.includes(col.name),
-          isUnique: table.indexes.some((i) => i.unique && i.columns.includes(col.name)),
-          isForeignKey: table.foreignKeys.some((fk) => fk.from === col.name),
-          referencesTable: table.foreignKeys.find((fk) => fk.from === col.name)?.table,
-          referencesColumn: table.foreignKeys.find((fk) => fk.from === col.name)?.to,
-          onDelete: table.foreignKeys.find((fk) => fk.from === col.name)?.onDelete,
-        })),
-        indexes: table.indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          isPrimaryKey: idx.isPrimaryKey,
-        })),
-        relations: table.foreignKeys.map((fk) => ({
-          fromTable: table.name,
-          fromColumn: fk.from,
-          toTable: fk.table,
-          toColumn: fk.to,
-          cardinality: 'N:1' as const,
-          onDelete: fk.onDelete || undefined,
-        })),
-        primaryKey: table.primaryKey,
-      })),
-      databaseType: 'sqlite',
-    };
+    return ExtractorSchemaConverter.convert({ ...schema, databaseType: 'sqlite' });
   }
 
   static fromPrisma(schema: PrismaSchemaInfo): UnifiedSchemaInfo {
-    return {
-      tables: schema.tables.map((table) => ({
-        name: table.name,
-        description: table.description || undefined,
-        columns: table.columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.isOptional,
-          default: col.defaultValue,
-          isPrimaryKey: table.primaryKey.includes(col.name),
-          isUnique: col.isUnique,
-          isForeignKey: col.isRelation,
-          referencesTable: col.isRelation ? col.type : undefined,
-          onDelete: col.onDelete || undefined,
-        })),
-        indexes: table.indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          isPrimaryKey: false,
-        })),
-        relations: table.relations.map((rel) => ({
-          fromTable: rel.fromTable,
-          fromColumn: rel.fromFields[0] || '',
-          toTable: rel.toTable,
-          toColumn: rel.toFields[0] || '',
-          cardinality: rel.type === 'one-to-one' ? '1:1' : rel.type === 'one-to-many' ? '1:N' : rel.type === 'many-to-one' ? 'N:1' : 'N:M',
-          onDelete: rel.onDelete || undefined,
-        })),
-        primaryKey: table.primaryKey,
-      })),
-      databaseType: 'prisma',
-      schemaName: schema.generator?.output || 'prisma',
-    };
+    return ExtractorSchemaConverter.convert({ ...schema, databaseType: 'prisma' });
   }
 
   static fromDrizzle(schema: DrizzleSchemaInfo): UnifiedSchemaInfo {
-    return {
-      tables: schema.tables.map((table) => ({
-        name: table.name,
-        description: table.description || undefined,
-        columns: table.columns.map((col) => ({
-          name: col.name,
-          type: col.type,
-          nullable: col.isOptional,
-          default: col.defaultValue,
-          isPrimaryKey: col.isPrimaryKey,
-          isUnique: col.isUnique,
-          isForeignKey: col.isRelation,
-          referencesTable: col.relationName || undefined,
-          onDelete: col.onDelete || undefined,
-        })),
-        indexes: table.indexes.map((idx) => ({
-          name: idx.name,
-          columns: idx.columns,
-          unique: idx.unique,
-          isPrimaryKey: false,
-        })),
-        relations: table.relations.map((rel) => ({
-          fromTable: rel.fromTable,
-          fromColumn: rel.fromColumns[0] || '',
-          toTable: rel.toTable,
-          toColumn: rel.toColumns[0] || '',
-          cardinality: rel.type === 'one-to-one' ? '1:1' : rel.type === 'one-to-many' ? '1:N' : rel.type === 'many-to-one' ? 'N:1' : 'N:M',
-          onDelete: rel.onDelete || undefined,
-        })),
-        primaryKey: table.primaryKey,
-      })),
-      databaseType: 'drizzle',
-      schemaName: schema.dialect,
-    };
+    return ExtractorSchemaConverter.convert({ ...schema, databaseType: 'drizzle' });
   }
 }
 
@@ -365,15 +367,30 @@ export class UnifiedSchemaConverter {
 export class TemplateGenerator {
   private templateDir: string;
   private outputDir: string;
-
-  constructor(templateDir: string = 'templates', outputDir: string = '.ai') {
-    this.templateDir = templateDir;
+  private overrides: TemplateOverrides | null = null;
+
+  /**
+   * Templates in `templateDir` (default `<outputDir>/templates`) replace the
+   * built-in rendering: `CLAUDE.md`, `AGENTS.md`, `DATABASE.md`,
+   * `edge-cases.md` and `constraints.md` for whole documents, `partials/table.md`,
+   * `partials/column.md` and `partials/relationship.md` for blocks.
+   */
+  constructor(templateDir?: string, outputDir: string = '.ai') {
+    this.templateDir = templateDir ?? path.join(outputDir, 'templates');
     this.outputDir = outputDir;
   }
 
-  generate(schema: UnifiedSchemaInfo): {
+  generate(schema: UnifiedSchemaInfo, options: Pick<SaveOptions, 'domains' | 'splitTables'> = {}): {
+    /** What every document is rendered from */
+    data: TemplateData;
     claudeMd: string;
     agentsMd: string;
+    databaseMd: string;
+    /** `tables/` pages, when split */
+    tablePages: Record<string, string>;
+    diagrams: Record<string, string>;
+    /** `types/database.ts` */
+    types: Record<string, string>;
     queries: Record<string, string>;
     edgeCasesMd: string;
     constraintsMd: string;
@@ -382,21 +399,32 @@ export class TemplateGenerator {
     handoffTemplates: Record<string, string>;
     decisionTemplates: Record<string, string>;
   } {
-    const data = this.buildTemplateData(schema);
-
-    const claudeMd = this.renderClaudeMd(data);
-    const agentsMd = this.renderAgentsMd(data);
-    const queries = this.generateAllQueryTemplates(schema);
-    const edgeCasesMd = this.renderEdgeCasesMd(data);
-    const constraintsMd = this.renderConstraintsMd(data);
+    const data = this.buildTemplateData(schema, options.domains);
+
+    const claudeMd = this.renderDocument('CLAUDE.md', data, () => this.renderClaudeMd(data));
+    const agentsMd = this.renderDocument('AGENTS.md', data, () => this.renderAgentsMd(data));
+    const databaseMd = this.renderDocument('DATABASE.md', data, () => this.renderDatabaseMd(data, options.splitTables));
+    const tablePages = options.splitTables
+      ? Object.fromEntries(data.tables.map((t) => [tablePageName(t.name), this.renderTablePage(t, data)]))
+      : {};
+    const diagrams = generateDiagrams(schema, options.domains);
+    const types = { [TYPES_FILE_NAME]: renderTypeScriptTypes(schema) };
+    const queries = this.generateAllQueryTemplates(schema, data.patterns);
+    const edgeCasesMd = this.renderDocument('edge-cases.md', data, () => this.renderEdgeCasesMd(data));
+    const constraintsMd = this.renderDocument('constraints.md', data, () => this.renderConstraintsMd(data));
     const testTemplates = this.generateTestTemplates(schema);
     const memoryPatterns = this.generateMemoryPatterns(schema);
     const handoffTemplates = this.generateHandoffTemplates(schema);
     const decisionTemplates = this.generateDecisionTemplates(schema);
 
     return {
+      data,
       claudeMd,
       agentsMd,
+      databaseMd,
+      tablePages,
+      diagrams,
+      types,
       queries,
       edgeCasesMd,
       constraintsMd,
@@ -407,10 +435,64 @@ export class TemplateGenerator {
     };
   }
 
-  async save(outputPath: string, schema: UnifiedSchemaInfo): Promise<void> {
+  /**
+   * Build the versioned machine-readable document for `--format json|yaml`.
+   */
+  generateDocument(schema: UnifiedSchemaInfo): SchemaDocument {
+    const data = this.buildTemplateData(schema);
+
+    return {
+      formatVersion: SCHEMA_DOCUMENT_VERSION,
+      generator: {
+        name: 'cohere-db',
+        version: data.version,
+      },
+      generatedAt: data.timestamp,
+      schema,
+      relationships: data.relationships,
+      businessRules: data.businessRules,
+      conventions: data.conventions,
+    };
+  }
+
+  /**
+   * Cursor rules (`.mdc`): an always-applied overview, plus one rule per
+   * domain attached to the files that use its tables.
+   */
+  generateCursorRules(schema: UnifiedSchemaInfo, options: CursorRuleOptions = {}): Record<string, string> {
+    const data = this.buildTemplateData(schema);
+    const domains = groupTablesByDomain(schema, options.domains);
+    const rules: Record<string, string> = {};
+
+    rules[`${CURSOR_OVERVIEW_RULE}.mdc`] = this.renderCursorRule(
+      `${data.databaseType} database overview - ${data.tables.length} tables in ${domains.length} domains, business rules and conventions`,
+      [],
+      true,
+      this.renderCursorOverview(data, domains)
+    );
+
+    for (const domain of domains) {
+      const files = domain.tables.flatMap((t) => options.tableFiles?.[t] || []);
+      rules[`${cursorRuleName(domain)}.mdc`] = this.renderCursorRule(
+        `Schema of the ${domain.name} tables (${domain.tables.join(', ')}) - columns, keys, relationships and rules`,
+        usageGlobs(files),
+        false,
+        this.renderCursorDomain(data, domain)
+      );
+    }
+
+    return rules;
+  }
+
+  async save(outputPath: string, schema: UnifiedSchemaInfo, options: SaveOptions = {}): Promise<void> {
     const {
+      data,
       claudeMd,
       agentsMd,
+      databaseMd,
+      tablePages,
+      diagrams,
+      types,
       queries,
       edgeCasesMd,
       constraintsMd,
@@ -418,55 +500,112 @@ export class TemplateGenerator {
       memoryPatterns,
       handoffTemplates,
       decisionTemplates
-    } = this.generate(schema);
+    } = this.generate(schema, options);
 
     const fullOutputPath = path.resolve(outputPath);
+    const rootDir = path.resolve(options.rootDir || '.');
     await fs.promises.mkdir(fullOutputPath, { recursive: true });
+    const enabled = (name: keyof GeneratorToggles) => options.generators?.[name] !== false;
 
-    await fs.promises.writeFile(path.join(fullOutputPath, 'CLAUDE.md'), claudeMd);
-    await fs.promises.writeFile(path.join(fullOutputPath, 'AGENTS.md'), agentsMd);
-    await fs.promises.writeFile(path.join(fullOutputPath, 'edge-cases.md'), edgeCasesMd);
-    await fs.promises.writeFile(path.join(fullOutputPath, 'constraints.md'), constraintsMd);
-
-    const queriesDir = path.join(fullOutputPath, 'queries');
-    await fs.promises.mkdir(queriesDir, { recursive: true });
+    const targetContent: TargetContent = {
+      databaseType: schema.databaseType,
+      claudeMd,
+      agentsMd,
+      summary: this.buildTargetSummary(schema),
+      fullContextPath: path.relative(rootDir, path.join(fullOutputPath, 'CLAUDE.md')).split(path.sep).join('/'),
+      data,
+      schema,
+    };
+    // Managed regions keep whatever else the team wrote in these files
+    for (const target of selectTargets(options.targets, enabled('agents'))) {
+      const filePath = path.join(target.location === 'output' ? fullOutputPath : rootDir, target.file);
+      const rendered = target.render(targetContent);
+      if (typeof rendered === 'string') {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await this.writeManaged(filePath, rendered);
+      } else {
+        await this.writeDirectory(filePath, rendered);
+      }
+    }
 
-    for (const [filename, content] of Object.entries(queries)) {
-      await fs.promises.writeFile(path.join(queriesDir, filename), content);
+    if (enabled('database')) {
+      await this.writeManaged(path.join(fullOutputPath, 'DATABASE.md'), toManagedSections(databaseMd));
+      if (options.splitTables) {
+        const tablesDir = path.join(fullOutputPath, 'tables');
+        await fs.promises.mkdir(tablesDir, { recursive: true });
+        // Pages of dropped tables would otherwise stay around
+        for (const file of await fs.promises.readdir(tablesDir)) {
+          if (file.endsWith('.md') && !(file in tablePages)) {
+            await fs.promises.unlink(path.join(tablesDir, file));
+          }
+        }
+        for (const [file, content] of Object.entries(tablePages)) {
+          await this.writeManaged(path.join(tablesDir, file), toManagedSections(content));
+        }
+      }
+    }
+    if (enabled('edgeCases')) {
+      await this.writeManaged(path.join(fullOutputPath, 'edge-cases.md'), toManagedSections(edgeCasesMd));
+    }
+    if (enabled('constraints')) {
+      await this.writeManaged(path.join(fullOutputPath, 'constraints.md'), toManagedSections(constraintsMd));
     }
 
-    // Save test templates
-    const testDir = path.join(fullOutputPath, 'test-templates');
-    await fs.promises.mkdir(testDir, { recursive: true });
+    if (options.cursor) {
+      const rulesDir = path.resolve(rootDir, options.cursor.rulesDir || path.join('.cursor', 'rules'));
+      const rules = this.generateCursorRules(schema, options.cursor);
+      await fs.promises.mkdir(rulesDir, { recursive: true });
+      // Domains come and go with the schema; drop rules for ones that no longer exist
+      for (const file of await fs.promises.readdir(rulesDir)) {
+        if (file.startsWith(CURSOR_RULE_PREFIX) && file.endsWith('.mdc') && !(file in rules)) {
+          await fs.promises.unlink(path.join(rulesDir, file));
+        }
+      }
+      for (const [file, content] of Object.entries(rules)) {
+        await fs.promises.writeFile(path.join(rulesDir, file), content);
+      }
+    }
 
-    for (const [filename, content] of Object.entries(testTemplates)) {
-      await fs.promises.writeFile(path.join(testDir, filename), content);
+    for (const target of options.inject || []) {
+      const content = path.basename(target).toUpperCase() === 'AGENTS.MD' ? agentsMd : claudeMd;
+      await this.writeManaged(path.resolve(rootDir, target), wrapRegion(INJECTED_REGION, demoteHeadings(content)) + '\n');
     }
 
-    // Save memory patterns
-    const memoryDir = path.join(fullOutputPath, 'memory');
-    await fs.promises.mkdir(memoryDir, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(fullOutputPath, SNAPSHOT_FILE_NAME),
+      serializeSnapshot(createSnapshot(schema, '1.0.2'))
+    );
 
-    for (const [filename, content] of Object.entries(memoryPatterns)) {
-      await fs.promises.writeFile(path.join(memoryDir, filename), content);
+    if (options.format && options.format !== 'markdown') {
+      await fs.promises.writeFile(
+        path.join(fullOutputPath, getDocumentFileName(options.format)),
+        serializeSchemaDocument(this.generateDocument(schema), options.format)
+      );
     }
 
-    // Save handoff templates
-    const handoffsDir = path.join(fullOutputPath, 'handoffs');
-    await fs.promises.mkdir(handoffsDir, { recursive: true });
+    const directories: [keyof GeneratorToggles, string, Record<string, string>][] = [
+      ['queries', 'queries', queries],
+      ['diagrams', 'diagrams', diagrams],
+      ['types', 'types', types],
+      ['testTemplates', 'test-templates', testTemplates],
+      ['memory', 'memory', memoryPatterns],
+      ['handoffs', 'handoffs', handoffTemplates],
+      ['decisions', 'decisions', decisionTemplates],
+    ];
 
-    for (const [filename, content] of Object.entries(handoffTemplates)) {
-      await fs.promises.writeFile(path.join(handoffsDir, filename), content);
-    }
+    for (const [toggle, dirName, files] of directories) {
+      if (!enabled(toggle)) continue;
 
-    // Save decision templates
-    const decisionsDir = path.join(fullOutputPath, 'decisions');
-    await fs.promises.mkdir(decisionsDir, { recursive: true });
+      const dir = path.join(fullOutputPath, dirName);
+      await fs.promises.mkdir(dir, { recursive: true });
 
-    for (const [filename, content] of Object.entries(decisionTemplates)) {
-      await fs.promises.writeFile(path.join(decisionsDir, filename), content);
+      for (const [filename, content] of Object.entries(files)) {
+        await fs.promises.writeFile(path.join(dir, filename), content);
+      }
     }
 
+    if (!enabled('context')) return;
+
     // Save context templates
     const contextDir = path.join(fullOutputPath, 'context');
     await fs.promises.mkdir(contextDir, { recursive: true });
@@ -500,33 +639,148 @@ export class TemplateGenerator {
     );
   }
 
-  private buildTemplateData(schema: UnifiedSchemaInfo): TemplateData {
+  private getOverrides(): TemplateOverrides {
+    if (!this.overrides) {
+      this.overrides = loadTemplateOverrides(this.templateDir);
+    }
+    return this.overrides;
+  }
+
+  /**
+   * Render a document from its user template when one exists, otherwise built in.
+   */
+  private renderDocument(fileName: string, data: TemplateData, builtIn: () => string): string {
+    const template = this.getOverrides().documents[fileName];
+    if (template === undefined) {
+      return builtIn();
+    }
+    return renderTemplate(template, data, (name, context) => this.renderPartial(name, context),
+      path.join(this.templateDir, fileName));
+  }
+
+  /**
+   * Resolve a partial: the user's `partials/<name>.md`, else the built-in block.
+   */
+  private renderPartial(name: string, context: unknown): string | undefined {
+    const template = this.getOverrides().partials[name];
+    if (template !== undefined) {
+      return renderTemplate(template, context, (inner, innerContext) => this.renderPartial(inner, innerContext),
+        path.join(this.templateDir, 'partials', `${name}.md`));
+    }
+    switch (name) {
+      case 'table':
+        return this.renderTableSection(context as TableTemplateData);
+      case 'column':
+        return this.renderColumnRow(context as ColumnTemplateData);
+      case 'relationship':
+        return this.renderRelationshipRow(context as RelationshipTemplateData);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Replace the managed regions of a file, keeping everything written around them.
+   */
+  private async writeManaged(filePath: string, generated: string): Promise<void> {
+    const existing = fs.existsSync(filePath) ? await fs.promises.readFile(filePath, 'utf-8') : null;
+    try {
+      await fs.promises.writeFile(filePath, mergeRegions(existing, generated));
+    } catch (error) {
+      throw new Error(`Cannot update ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Write generated files into `dir` as-is, removing the `tables/` files of dropped tables.
+   */
+  private async writeDirectory(dir: string, files: Record<string, string>): Promise<void> {
+    const tablesDir = path.join(dir, 'tables');
+    if (fs.existsSync(tablesDir)) {
+      for (const file of await fs.promises.readdir(tablesDir)) {
+        if (!(`tables/${file}` in files)) {
+          await fs.promises.rm(path.join(tablesDir, file), { recursive: true, force: true });
+        }
+      }
+    }
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = path.join(dir, file);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, content);
+    }
+  }
+
+  private buildTemplateData(schema: UnifiedSchemaInfo, domains: Record<string, string[]> = {}): TemplateData {
+    const enumValues = new Map((schema.enums || []).map((e) => [e.name, e.values]));
+    // Arrays of an enum accept the same values
+    const valuesOf = (type: string) => enumValues.get(type.replace(/\[\]$/, ''));
+    const patterns = inferSchemaPatterns(schema);
+    const tenant = patterns.find((p) => p.kind === 'tenant-key');
+
     const tables: TableTemplateData[] = schema.tables.map((table) => ({
       name: table.name,
+      kind: table.kind || 'table',
       description: table.description || '',
+      definition: table.definition || '',
+      dependsOn: table.dependsOn || [],
+      tableChecks: (table.checks || []).filter((c) => c.columns.length !== 1).map((c) => c.expression),
+      constraints: constraintLines(table),
+      triggers: table.triggers || [],
+      rowLevelSecurity: Boolean(table.rowLevelSecurity),
+      forceRowLevelSecurity: Boolean(table.forceRowLevelSecurity),
+      policies: table.policies || [],
+      invariants: table.invariants || [],
+      examples: table.examples || [],
+      deprecated: table.deprecated,
       columns: table.columns.map((col) => ({
         name: col.name,
-        type: col.type,
+        type: displayType(col),
         nullable: col.nullable,
         default: col.default,
         isKey: col.isPrimaryKey || col.isForeignKey,
+        isPrimaryKey: col.isPrimaryKey,
+        isForeignKey: col.isForeignKey,
+        referencesTable: col.referencesTable,
         description: col.description || '',
+        enumValues: valuesOf(col.type),
+        checks: (table.checks || [])
+          .filter((c) => c.columns.length === 1 && c.columns[0] === col.name)
+          .map((c) => c.expression),
+        identity: col.identity,
+        generatedExpression: col.generated?.expression,
+        setByTriggers: (table.triggers || [])
+          .filter((t) => t.setsColumns.includes(col.name))
+          .map((t) => `\`${t.name}\` (${triggerFiring(t)})`),
+        invariants: col.invariants || [],
+        deprecated: col.deprecated,
+        notes: '',
       })),
       indexes: table.indexes.map((idx) => ({
         name: idx.name,
         columns: idx.columns,
         unique: idx.unique,
-        purpose: this.getIndexPurpose(idx, table),
+        purpose: this.getIndexPurpose(idx, table, patterns),
       })),
-      relations: table.relations.map((rel) =>
-        `- \`${rel.fromColumn}\` → \`${rel.toTable}\` (${rel.cardinality})`
-      ),
+      relations: table.relations.map((rel) => {
+        const { from, to } = relationColumns(rel);
+        const target = from.length === 1 ? '' : ` (\`${to.join(', ')}\`)`;
+        return `- \`${keyColumns(from)}\` → \`${rel.toTable}\`${target} (${rel.cardinality})`;
+      }),
       primaryKey: table.primaryKey.join(', ') || 'N/A',
       foreignKeyCount: table.relations.length,
-      columnList: table.columns.map((c) => c.name + ': ' + c.type).join('\n'),
-      usagePattern: this.getUsagePattern(table),
+      columnList: table.columns.map((c) => {
+        const values = valuesOf(c.type);
+        return c.name + ': ' + displayType(c) + (values ? ` (${values.map((v) => `'${v}'`).join(' | ')})` : '');
+      }).join('\n'),
+      usagePattern: inferUsagePattern(table, patterns),
+      tenantColumn: tenant?.occurrences.find((o) => o.table === table.name)?.columns[0],
+      softDeleteFilter: patterns.find((p) => p.kind === 'soft-delete' && patternTables(p).includes(table.name))?.filter,
     }));
 
+    for (const col of tables.flatMap((t) => t.columns)) {
+      col.notes = [col.description, ...this.getColumnNotes(col)].filter(Boolean).join('. ') || '-';
+    }
+
     const relationships = this.buildRelationships(schema);
 
     return {
@@ -536,12 +790,25 @@ export class TemplateGenerator {
       source: schema.source || '',
       tables,
       relationships,
+      enums: schema.enums || [],
+      domains: schema.domains || [],
+      compositeTypes: schema.compositeTypes || [],
+      routines: schema.routines || [],
+      invariants: schema.invariants || [],
+      examples: schema.examples || [],
       cardinalitySummary: this.getCardinalitySummary(schema),
-      businessRules: this.getBusinessRules(schema),
-      conventions: this.getConventions(schema),
-      ownershipRules: this.getOwnershipRules(schema),
-      typeMappings: TYPE_MAPPINGS,
-      performanceTips: this.getPerformanceTips(schema),
+      businessRules: inferBusinessRules(schema, patterns),
+      conventions: inferConventions(patterns),
+      ownershipRules: inferOwnershipRules(schema, patterns),
+      patterns,
+      typeMappings: usedTypeMappings(schema),
+      performanceTips: this.getPerformanceTips(schema, patterns),
+      erDiagram: renderMermaidDiagram(schema),
+      domainDiagrams: diagramDomains(schema, domains).map((domain) => ({
+        name: domain.name,
+        diagram: renderMermaidDiagram(schema, domain.tables),
+      })),
+      snapshotMarker: renderFingerprintMarker(schema),
       version: '1.0.2',
     };
   }
@@ -556,6 +823,8 @@ export class TemplateGenerator {
           toTable: rel.toTable,
           cardinality: rel.cardinality,
           onDelete: rel.onDelete,
+          joinCondition: joinCondition(rel),
+          constraintName: rel.constraintName,
           description: this.getRelationshipDescription(rel),
         });
       }
@@ -582,13 +851,16 @@ export class TemplateGenerator {
     return parts.length > 0 ? parts.join(', ') : 'No relationships defined';
   }
 
-  private getIndexPurpose(index: UnifiedIndexInfo, table: UnifiedTableInfo): string {
+  private getIndexPurpose(index: UnifiedIndexInfo, table: UnifiedTableInfo, patterns: SchemaPattern[]): string {
     if (index.isPrimaryKey) return 'Primary key constraint';
     if (index.unique) return 'Unique constraint';
-    if (index.columns.includes('organization_id')) return 'Multi-tenant isolation';
-    if (index.columns.includes('deleted_at')) return 'Soft delete filtering';
+    const columnsOf = (kind: SchemaPattern['kind']) => patterns
+      .filter((p) => p.kind === kind)
+      .flatMap((p) => p.occurrences.filter((o) => o.table === table.name).flatMap((o) => o.columns));
+    if (index.columns.some((c) => columnsOf('tenant-key').includes(c))) return 'Multi-tenant isolation';
+    if (index.columns.some((c) => columnsOf('soft-delete').includes(c))) return 'Soft delete filtering';
     if (index.columns.includes('created_at')) return 'Sorting and ordering';
-    if (index.columns.some((c) => table.relations.some((r) => r.fromColumn === c))) return 'Foreign key index';
+    if (index.columns.some((c) => table.relations.some((r) => relationColumns(r).from.includes(c)))) return 'Foreign key index';
     return 'Performance optimization';
   }
 
@@ -607,155 +879,420 @@ export class TemplateGenerator {
     }
   }
 
-  private getUsagePattern(table: UnifiedTableInfo): string {
-    if (table.name.endsWith('users') || table.name.endsWith('user')) {
-      return 'Core user table. All operations require organization_id check.';
+  private getPerformanceTips(schema: UnifiedSchemaInfo, patterns: SchemaPattern[]): string[] {
+    const tips: string[] = [];
+    const filterColumns = Array.from(new Set(
+      patterns.filter((p) => p.kind === 'tenant-key' || p.kind === 'soft-delete').map((p) => p.key)
+    ));
+    if (filterColumns.length > 0) {
+      tips.push(`Index the columns most queries filter on (${filterColumns.join(', ')})`);
     }
-    if (table.name.endsWith('organizations') || table.name.endsWith('company')) {
-      return 'Root entity. No organization_id (is root).';
+    tips.push('Avoid SELECT *, specify needed columns for better performance');
+    tips.push('Batch inserts with bulk operations when inserting multiple rows');
+
+    const hasJoins = schema.tables.some((t) => t.relations.length > 0);
+
+    if (hasJoins) {
+      tips.push('Ensure foreign key columns are indexed for join performance');
+      tips.push('Use eager loading to avoid N+1 query problems');
     }
-    if (table.name.endsWith('sessions') || table.name.endsWith('tokens')) {
-      return 'Auth-related. Include user_id check. Soft delete recommended.';
+
+    return tips;
+  }
+
+  /**
+   * Built-in `table` partial: the CLAUDE.md section of one table.
+   */
+  private renderTableSection(table: TableTemplateData): string {
+    let section = `### ${table.name}\n\n`;
+
+    if (table.kind !== 'table') {
+      section += `> ${this.getReadOnlyNote(table)}\n\n`;
     }
-    if (table.relations.length === 0) {
-      return 'Standalone table. No foreign key dependencies.';
+    if (table.deprecated) {
+      section += `> **${deprecationNote(table.deprecated)}.**\n\n`;
+    }
+    if (table.description) {
+      section += `${table.description}\n\n`;
     }
-    return 'Standard CRUD with potential organization_id isolation.';
-  }
 
-  private getBusinessRules(schema: UnifiedSchemaInfo): BusinessRule[] {
-    const rules: BusinessRule[] = [
-      {
-        name: 'Organization Isolation',
-        description: 'All tables with organization_id must be filtered by it for multi-tenant security',
-        rule: 'SELECT * FROM table WHERE id = $1 AND organization_id = $2',
-        examples: [
-          '-- Correct: Include organization check',
-          'SELECT * FROM users WHERE id = $1 AND organization_id = $2;',
-          '-- Wrong: Missing organization check',
-          'SELECT * FROM users WHERE id = $1;',
-        ],
-      },
-      {
-        name: 'Soft Deletes',
-        description: 'Use deleted_at for soft deletes instead of hard deletes to preserve data integrity',
-        rule: 'UPDATE table SET deleted_at = NOW() WHERE id = $1',
-        examples: [
-          '-- Soft delete (recommended)',
-          'UPDATE users SET deleted_at = NOW() WHERE id = $1;',
-          '-- Query without deleted records',
-          'SELECT * FROM users WHERE deleted_at IS NULL;',
-        ],
-      },
-    ];
+    section += '| Column | Type | Nullable | Key | Notes |\n';
+    section += '|--------|------|----------|-----|-------|\n';
 
-    const hasTimestamps = schema.tables.some((t) =>
-      t.columns.some((c) => c.name === 'created_at' || c.name === 'updated_at')
-    );
+    for (const col of table.columns) {
+      section += this.renderPartial('column', col);
+    }
 
-    if (hasTimestamps) {
-      rules.push({
-        name: 'Timestamp Conventions',
-        description: 'Use created_at for ordering, updated_at for change detection',
-        rule: 'ORDER BY created_at DESC, updated_at ASC',
-        examples: [
-          '-- Recent items first',
-          'SELECT * FROM table ORDER BY created_at DESC LIMIT 10;',
-          '-- Detect changes since last sync',
-          'SELECT * FROM table WHERE updated_at > $1;',
-        ],
-      });
+    if (table.indexes.length > 0) {
+      section += '\n**Indexes:**\n';
+      for (const idx of table.indexes) {
+        const unique = idx.unique ? ' (unique)' : '';
+        section += `- \`${idx.name}\` on \`(${idx.columns.join(', ')})\`${unique} - ${idx.purpose}\n`;
+      }
     }
 
-    return rules;
+    if (table.relations.length > 0) {
+      section += '\n**Foreign Keys:**\n';
+      for (const rel of table.relations) {
+        section += `${rel}\n`;
+      }
+    }
+
+    if (table.tableChecks.length > 0) {
+      section += '\n**Checks:**\n';
+      for (const check of table.tableChecks) {
+        section += `- \`${check}\`\n`;
+      }
+    }
+
+    if (table.invariants.length > 0) {
+      section += '\n**Invariants:**\n';
+      for (const invariant of table.invariants) {
+        section += `- ${invariant}\n`;
+      }
+    }
+
+    if (table.examples.length > 0) {
+      section += '\n**Example queries:**\n' + this.renderExamples(table.examples);
+    }
+
+    if (table.definition) {
+      section += '\n**Definition:**\n```sql\n' + table.definition.trim() + '\n```\n';
+    }
+
+    if (table.rowLevelSecurity) {
+      section += `\n**Row-level security:** enabled, ${table.policies.length} ${table.policies.length === 1 ? 'policy' : 'policies'}. See [Access Rules](#access-rules).\n`;
+    }
+
+    return section + '\n';
   }
 
-  private getConventions(schema: UnifiedSchemaInfo): string[] {
-    const conventions: string[] = [
-      'Use parameterized queries to prevent SQL injection',
-      'Always include organization_id in WHERE clauses for multi-tenant tables',
-      'Use COALESCE for nullable column handling',
-      'Prefer ORDER BY created_at DESC for lists',
-      'Use EXPLAIN ANALYZE to optimize slow queries',
-    ];
+  /**
+   * Built-in `column` partial: one row of a table's column list.
+   */
+  private renderColumnRow(col: ColumnTemplateData): string {
+    const nullable = col.nullable ? 'yes' : 'no';
+    const key = col.isKey ? 'PK/FK' : '-';
+    return `| \`${col.name}\` | \`${col.type}\` | ${nullable} | ${key} | ${col.notes} |\n`;
+  }
 
-    return conventions;
+  /**
+   * Built-in `relationship` partial: one row of the Relationships table.
+   */
+  private renderRelationshipRow(rel: RelationshipTemplateData): string {
+    const onDelete = rel.onDelete ? ` (ON DELETE ${rel.onDelete})` : '';
+    return `| ${rel.fromTable} | ${rel.cardinality} | ${rel.toTable} | \`${rel.joinCondition}\` | ${onDelete} |\n`;
   }
 
-  private getOwnershipRules(schema: UnifiedSchemaInfo): string {
-    let rules = '- **Multi-Tenant Isolation**: All tables include `organization_id` for tenant separation\n';
-    rules += '- **Ownership Verification**: Check ownership before any write operation\n';
+  private renderCursorRule(description: string, globs: string[], alwaysApply: boolean, body: string): string {
+    let output = '---\n';
+    output += `description: ${JSON.stringify(description)}\n`;
+    output += `globs: ${yamlScalar(globs.join(','))}\n`;
+    output += `alwaysApply: ${alwaysApply}\n`;
+    output += '---\n\n';
+    return output + body.trimEnd() + '\n';
+  }
 
-    return rules;
+  private renderCursorOverview(data: TemplateData, domains: SchemaDomain[]): string {
+    let output = '# Database Overview\n\n';
+    output += '> AUTO-GENERATED by cohere-db. Regenerate with `cohere-db generate --cursor`.\n\n';
+    output += `**Database Type:** ${data.databaseType}\n`;
+    output += `**Schema:** ${data.schemaName}\n\n`;
+
+    output += '## Domains\n\n';
+    output += 'Each domain has its own rule with the full table definitions.\n\n';
+    output += '| Domain | Tables | Rule |\n';
+    output += '|--------|--------|------|\n';
+    for (const domain of domains) {
+      output += `| ${domain.name} | ${domain.tables.map((t) => `\`${t}\``).join(', ')} | @${cursorRuleName(domain)} |\n`;
+    }
+    output += '\n';
+
+    if (data.relationships.length > 0) {
+      output += '## Relationships\n\n';
+      for (const rel of data.relationships) {
+        output += `- \`${rel.joinCondition}\` (${rel.cardinality})\n`;
+      }
+      output += '\n';
+    }
+
+    if (data.businessRules.length > 0) {
+      output += '## Business Rules\n\n';
+      for (const rule of data.businessRules) {
+        output += `- **${rule.name}** (${formatTableList(rule.appliesTo)}): \`${rule.rule}\`\n`;
+      }
+      output += '\n';
+    }
+
+    output += '## Conventions\n\n';
+    for (const conv of data.conventions) {
+      output += `- ${conv}\n`;
+    }
+    return output;
   }
 
-  private getPerformanceTips(schema: UnifiedSchemaInfo): string[] {
-    const tips: string[] = [
-      'Use indexes on frequently filtered columns (organization_id, deleted_at)',
-      'Avoid SELECT *, specify needed columns for better performance',
-      'Batch inserts with bulk operations when inserting multiple rows',
-    ];
+  private renderCursorDomain(data: TemplateData, domain: SchemaDomain): string {
+    const inDomain = (table: string) => domain.tables.includes(table);
 
-    const hasJoins = schema.tables.some((t) => t.relations.length > 0);
+    let output = `# ${domain.name} tables\n\n`;
+    output += `> AUTO-GENERATED by cohere-db. See @${CURSOR_OVERVIEW_RULE} for the other domains.\n\n`;
+    for (const table of data.tables.filter((t) => inDomain(t.name))) {
+      output += this.renderPartial('table', table);
+    }
 
-    if (hasJoins) {
-      tips.push('Ensure foreign key columns are indexed for join performance');
-      tips.push('Use eager loading to avoid N+1 query problems');
+    const relationships = data.relationships.filter((r) => inDomain(r.fromTable) || inDomain(r.toTable));
+    if (relationships.length > 0) {
+      output += '## Relationships\n\n';
+      output += '| From | Cardinality | To | Join | Actions |\n';
+      output += '|------|-------------|-----|------|--------|\n';
+      for (const rel of relationships) {
+        output += this.renderPartial('relationship', rel);
+      }
+      output += '\n';
     }
 
-    return tips;
+    const rules = data.businessRules.filter((r) => r.appliesTo.some(inDomain));
+    if (rules.length > 0) {
+      output += '## Business Rules\n';
+      for (const rule of rules) {
+        output += `\n### ${rule.name}\n\n${rule.description}\n\n`;
+        output += '```sql\n' + rule.rule + '\n```\n';
+      }
+    }
+    return output;
   }
 
-  private renderClaudeMd(data: TemplateData): string {
-    let tablesSection = '';
+  /**
+   * Compact schema for the size-limited targets: rules first, then one line per table.
+   */
+  private buildTargetSummary(schema: UnifiedSchemaInfo): TargetSection[] {
+    const data = this.buildTemplateData(schema);
 
+    const rules = [
+      ...data.businessRules.map((rule) => `**${rule.name}** (${formatTableList(rule.appliesTo)}): ${rule.description}`),
+      ...data.invariants,
+      ...data.tables.filter((t) => t.deprecated).map((t) => `\`${t.name}\`: ${deprecationNote(t.deprecated!)}`),
+    ];
+
+    const tables = data.tables.map((table, i) => {
+      const source = schema.tables[i];
+      const columns = table.columns.map((col) => {
+        const column = source.columns.find((c) => c.name === col.name)!;
+        let entry = `${col.name} ${col.type}`;
+        if (column.isPrimaryKey) entry += ' PK';
+        if (column.isForeignKey && column.referencesTable) entry += ` → ${column.referencesTable}`;
+        if (col.enumValues) entry += ` (${col.enumValues.join(' | ')})`;
+        if (col.nullable && !column.isPrimaryKey) entry += ' null';
+        return entry;
+      });
+      const label = table.kind === 'table' ? `\`${table.name}\`` : `\`${table.name}\` (${KIND_LABELS[table.kind]})`;
+      return `${label}: ${columns.join(', ')}`;
+    });
+
+    return [
+      { heading: 'Rules', lines: rules },
+      { heading: 'Conventions', lines: data.conventions },
+      { heading: 'Tables', lines: tables },
+    ];
+  }
+
+  /**
+   * DATABASE.md, the reference for people. With `split`, each table gets its
+   * own page (see `renderTablePage`) and this document links to them.
+   */
+  private renderDatabaseMd(data: TemplateData, split = false): string {
+    const link = (table: string) => (split ? `tables/${tablePageName(table)}` : `#${headingAnchor(table)}`);
+    const typeSections = Array.from(this.renderCustomTypes(data).matchAll(/^## (.+)$/gm), (m) => m[1]);
+
+    let output = '# Database Reference\n\n';
+    output += '> AUTO-GENERATED by cohere-db. Regenerate with `cohere-db generate`.\n\n';
+    output += `**Database Type:** ${data.databaseType}\n`;
+    output += `**Schema:** ${data.schemaName}\n`;
+    output += `**Tables:** ${data.tables.length}\n\n`;
+
+    output += '## Contents\n\n';
+    output += '- [Entity Relationship Diagram](#entity-relationship-diagram)\n';
+    output += '- [Tables](#tables)\n';
+    if (!split) {
+      output += '- [Table Reference](#table-reference)\n';
+    }
     for (const table of data.tables) {
-      let section = `### ${table.name}\n\n`;
+      output += `  - [${table.name}](${link(table.name)})\n`;
+    }
+    for (const heading of typeSections) {
+      output += `- [${heading}](#${headingAnchor(heading)})\n`;
+    }
+    if (data.invariants.length > 0) {
+      output += '- [Invariants](#invariants)\n';
+    }
+    if (data.examples.length > 0) {
+      output += '- [Example Queries](#example-queries)\n';
+    }
+    output += '\n';
+
+    output += '## Entity Relationship Diagram\n\n';
+    if (data.domainDiagrams.length > 0) {
+      output += `The schema is shown one domain at a time; \`diagrams/${MERMAID_FILE_NAME}\` has all of it.\n\n`;
+      for (const domain of data.domainDiagrams) {
+        output += `### ${domain.name}\n\n`;
+        output += '```mermaid\n' + domain.diagram + '```\n\n';
+      }
+    } else {
+      output += '```mermaid\n' + data.erDiagram + '```\n\n';
+    }
 
-      section += '| Column | Type | Nullable | Key | Notes |\n';
-      section += '|--------|------|----------|-----|-------|\n';
+    output += '## Tables\n\n';
+    output += '| Table | Columns | Primary Key | Description |\n';
+    output += '|-------|---------|-------------|-------------|\n';
+    for (const table of data.tables) {
+      const label = table.kind === 'table' ? '' : ` (${KIND_LABELS[table.kind]})`;
+      output += `| [${table.name}](${link(table.name)})${label} | ${table.columns.length} | ${table.primaryKey} | ${table.description || '-'} |\n`;
+    }
+    output += '\n';
 
-      for (const col of table.columns) {
-        const nullable = col.nullable ? 'yes' : 'no';
-        const key = col.isKey ? 'PK/FK' : '-';
-        const desc = col.description || '-';
-        section += `| \`${col.name}\` | \`${col.type}\` | ${nullable} | ${key} | ${desc} |\n`;
+    if (!split) {
+      output += '## Table Reference\n\n';
+      for (const table of data.tables) {
+        output += `### ${table.name}\n\n`;
+        output += this.renderTableReference(table, data, link);
       }
+    }
 
-      if (table.indexes.length > 0) {
-        section += '\n**Indexes:**\n';
-        for (const idx of table.indexes) {
-          const unique = idx.unique ? ' (unique)' : '';
-          section += `- \`${idx.name}\` on \`(${idx.columns.join(', ')})\`${unique} - ${idx.purpose}\n`;
-        }
+    output += this.renderCustomTypes(data);
+    if (data.invariants.length > 0) {
+      output += '## Invariants\n\n';
+      output += data.invariants.map((i) => `- ${i}\n`).join('') + '\n';
+    }
+    if (data.examples.length > 0) {
+      output += '## Example Queries\n';
+      output += this.renderExamples(data.examples);
+    }
+    return output;
+  }
+
+  /**
+   * `tables/<table>.md` for split documentation.
+   */
+  private renderTablePage(table: TableTemplateData, data: TemplateData): string {
+    let output = `# ${table.name}\n\n`;
+    output += '[← Database Reference](../DATABASE.md)\n\n';
+    output += this.renderTableReference(table, data, (name) => tablePageName(name));
+    return output;
+  }
+
+  /**
+   * Everything about one table: columns, constraints, indexes, relationships
+   * both ways and what the annotations say. `link` points to another table.
+   */
+  private renderTableReference(table: TableTemplateData, data: TemplateData, link: (table: string) => string): string {
+    let section = '';
+    if (table.kind !== 'table') {
+      section += `> ${this.getReadOnlyNote(table)}\n\n`;
+    }
+    if (table.deprecated) {
+      section += `> **${deprecationNote(table.deprecated)}.**\n\n`;
+    }
+    if (table.description) {
+      section += `${table.description}\n\n`;
+    }
+
+    section += '| Column | Type | Nullable | Default | Notes |\n';
+    section += '|--------|------|----------|---------|-------|\n';
+    for (const col of table.columns) {
+      const fallback = col.generatedExpression ? 'generated' : col.identity ? 'identity' : '-';
+      const defaultValue = col.default !== null && col.default !== undefined ? `\`${col.default}\`` : fallback;
+      section += `| \`${col.name}\` | \`${col.type}\` | ${col.nullable ? 'yes' : 'no'} | ${defaultValue} | ${col.notes} |\n`;
+    }
+
+    if (table.constraints.length > 0) {
+      section += '\n**Constraints:**\n';
+      section += table.constraints.map((c) => `- ${c}\n`).join('');
+    }
+
+    if (table.indexes.length > 0) {
+      section += '\n**Indexes:**\n';
+      for (const idx of table.indexes) {
+        const unique = idx.unique ? ' (unique)' : '';
+        section += `- \`${idx.name}\` on \`(${idx.columns.join(', ')})\`${unique} - ${idx.purpose}\n`;
       }
+    }
 
-      if (table.relations.length > 0) {
-        section += '\n**Foreign Keys:**\n';
-        for (const rel of table.relations) {
-          section += `${rel}\n`;
-        }
+    const outgoing = data.relationships.filter((r) => r.fromTable === table.name);
+    if (outgoing.length > 0) {
+      section += '\n**References:**\n';
+      for (const rel of outgoing) {
+        section += `- [${rel.toTable}](${link(rel.toTable)}) (${rel.cardinality}): \`${rel.joinCondition}\`\n`;
+      }
+    }
+    const incoming = data.relationships.filter((r) => r.toTable === table.name);
+    if (incoming.length > 0) {
+      section += '\n**Referenced by:**\n';
+      for (const rel of incoming) {
+        section += `- [${rel.fromTable}](${link(rel.fromTable)}) (${rel.cardinality}): \`${rel.joinCondition}\`\n`;
+      }
+    }
+
+    if (table.triggers.length > 0) {
+      section += '\n**Triggers:**\n';
+      for (const trigger of table.triggers) {
+        section += `- \`${trigger.name}\` (${triggerFiring(trigger)})${trigger.function ? ` runs \`${trigger.function}\`` : ''}\n`;
       }
+    }
+
+    if (table.rowLevelSecurity) {
+      section += '\n**Row-level security:**\n';
+      for (const policy of table.policies) {
+        section += `- \`${policy.name}\` (${policy.command})${policy.using ? `: \`${policy.using}\`` : ''}\n`;
+      }
+      if (table.policies.length === 0) {
+        section += '- Enabled without policies: only the owner can access rows\n';
+      }
+    }
+
+    if (table.invariants.length > 0) {
+      section += '\n**Invariants:**\n';
+      section += table.invariants.map((i) => `- ${i}\n`).join('');
+    }
+
+    if (table.examples.length > 0) {
+      section += '\n**Example queries:**\n' + this.renderExamples(table.examples);
+    }
+
+    if (table.definition) {
+      section += '\n**Definition:**\n```sql\n' + table.definition.trim() + '\n```\n';
+    }
+
+    return section + '\n';
+  }
+
+  private renderClaudeMd(data: TemplateData): string {
+    let tablesSection = '';
 
-      tablesSection += section + '\n';
+    for (const table of data.tables) {
+      tablesSection += this.renderPartial('table', table);
     }
 
     let relationshipsSection = '';
     for (const rel of data.relationships) {
-      const onDelete = rel.onDelete ? ` (ON DELETE ${rel.onDelete})` : '';
-      relationshipsSection += `| ${rel.fromTable} | ${rel.cardinality} | ${rel.toTable} | ${onDelete} |\n`;
+      relationshipsSection += this.renderPartial('relationship', rel);
     }
 
     let businessRulesSection = '';
     for (const rule of data.businessRules) {
       businessRulesSection += `\n### ${rule.name}\n\n`;
       businessRulesSection += `${rule.description}\n\n`;
+      businessRulesSection += `**Applies to:** ${formatTableList(rule.appliesTo)}\n\n`;
       businessRulesSection += `**Rule:** \n\`\`\`sql\n${rule.rule}\n\`\`\`\n`;
       if (rule.examples.length > 0) {
         businessRulesSection += '\n**Examples:**\n```sql\n' + rule.examples.join('\n') + '\n```\n';
       }
     }
 
+    let invariantsSection = '';
+    for (const invariant of data.invariants) {
+      invariantsSection += `- ${invariant}\n`;
+    }
+
     let conventionsSection = '';
     for (const conv of data.conventions) {
       conventionsSection += `- ${conv}\n`;
@@ -763,7 +1300,8 @@ export class TemplateGenerator {
 
     // Build output with agent-aware callouts
     let output = '# Database Context\n\n';
-    output += '> AUTO-GENERATED by cohere-db. Works with Claude, Codex, Antigravity, Xcode.\n\n';
+    output += '> AUTO-GENERATED by cohere-db. Works with Claude, Codex, Antigravity, Xcode.\n';
+    output += data.snapshotMarker + '\n\n';
 
     // Agent-specific callouts
     output += '> [!NOTE|CLAUDE]\n';
@@ -786,23 +1324,45 @@ export class TemplateGenerator {
     output += '## Overview\n\n';
     output += `**Database Type:** ${data.databaseType}\n`;
     output += `**Schema:** ${data.schemaName}\n`;
-    output += `**Tables:** ${data.tables.length}\n\n`;
+    const viewCount = data.tables.filter((t) => t.kind !== 'table').length;
+    output += `**Tables:** ${data.tables.length - viewCount}\n`;
+    if (viewCount > 0) {
+      output += `**Views:** ${viewCount} (read-only)\n`;
+    }
+    output += '\n';
     output += '## Tables\n\n';
     output += tablesSection;
+    output += this.renderCustomTypes(data);
+    output += this.renderDatabaseBehavior(data);
     output += '## Relationships\n\n';
-    output += '| From | Cardinality | To | Actions |\n';
-    output += '|------|-------------|-----|--------|\n';
+    output += '| From | Cardinality | To | Join | Actions |\n';
+    output += '|------|-------------|-----|------|--------|\n';
     output += relationshipsSection;
     output += '\n> [!NOTE|ALL]\n';
     output += '> **ALL AGENTS**: Foreign key columns MUST be indexed.\n\n';
-    output += '## Business Rules\n\n';
-    output += businessRulesSection;
+    if (businessRulesSection) {
+      output += '## Business Rules\n';
+      output += businessRulesSection + '\n';
+    }
+    if (invariantsSection) {
+      output += '## Invariants\n\n';
+      output += invariantsSection + '\n';
+    }
+    if (data.examples.length > 0) {
+      output += '## Example Queries\n\n';
+      output += this.renderExamples(data.examples) + '\n';
+    }
     output += '## Conventions\n\n';
     output += conventionsSection;
     output += '\n> [!NOTE|ALL]\n';
     output += '> **ALL AGENTS**: Parameterized queries required. Never interpolate strings.\n\n';
-    output += '## Multi-Tenant Isolation\n\n';
-    output += data.ownershipRules + '\n\n';
+    const accessRules = this.renderAccessRules(data);
+    if (accessRules) {
+      output += accessRules;
+    } else if (data.ownershipRules) {
+      output += '## Multi-Tenant Isolation\n\n';
+      output += data.ownershipRules + '\n\n';
+    }
 
     output += '## Additional Resources\n\n';
     output += '| Resource | Purpose |\n';
@@ -815,18 +1375,207 @@ export class TemplateGenerator {
     return output;
   }
 
+  /**
+   * Constraints an INSERT or UPDATE has to respect, for the Notes column.
+   */
+  private getColumnNotes(col: ColumnTemplateData): string[] {
+    const notes: string[] = [];
+    if (col.deprecated) {
+      notes.push(`**${deprecationNote(col.deprecated)}**`);
+    }
+    if (col.enumValues) {
+      notes.push(`One of: ${col.enumValues.map((v) => `\`${v}\``).join(', ')}`);
+    }
+    if (col.generatedExpression) {
+      notes.push(`Generated from \`${col.generatedExpression}\`, do not write`);
+    }
+    if (col.identity === 'always') {
+      notes.push('Identity (always), do not insert');
+    } else if (col.identity === 'by-default') {
+      notes.push('Auto-generated');
+    }
+    if (col.setByTriggers.length > 0) {
+      notes.push(`Set by trigger ${col.setByTriggers.join(', ')}`);
+    }
+    notes.push(...col.checks.map((check) => `\`${check}\``));
+    notes.push(...col.invariants);
+    return notes;
+  }
+
+  /**
+   * Annotated example queries, one SQL block each.
+   */
+  private renderExamples(examples: UnifiedQueryExample[]): string {
+    let output = '';
+    for (const example of examples) {
+      output += `\n*${example.name}*${example.description ? `: ${example.description}` : ''}\n`;
+      output += '```sql\n' + example.sql.trim() + '\n```\n';
+    }
+    return output;
+  }
+
+  /**
+   * Tells assistants not to write to a view and where its data comes from.
+   */
+  private getReadOnlyNote(table: TableTemplateData): string {
+    let note = table.kind === 'materialized_view'
+      ? `Materialized view, read-only. Refresh with \`REFRESH MATERIALIZED VIEW ${table.name}\`.`
+      : 'View, read-only. Do not INSERT, UPDATE or DELETE.';
+    if (table.dependsOn.length > 0) {
+      note += ` Reads from ${table.dependsOn.map((d) => `\`${d}\``).join(', ')}.`;
+    }
+    return note;
+  }
+
+  /**
+   * Enums, domains and composite types; empty when the database has none.
+   */
+  private renderCustomTypes(data: TemplateData): string {
+    let output = '';
+
+    if (data.enums.length > 0) {
+      output += '## Enums\n\n';
+      output += 'Columns of these types only accept the listed values, in this order.\n\n';
+      output += '| Enum | Values |\n';
+      output += '|------|--------|\n';
+      for (const e of data.enums) {
+        const description = e.description ? ` - ${e.description}` : '';
+        const values = e.values.map((v) => {
+          const meaning = e.valueDescriptions?.[v];
+          return meaning ? `\`${v}\` (${meaning})` : `\`${v}\``;
+        });
+        output += `| \`${e.name}\` | ${values.join(', ')}${description} |\n`;
+      }
+      output += '\n';
+    }
+
+    if (data.domains.length > 0) {
+      output += '## Domains\n\n';
+      output += '| Domain | Base Type | Nullable | Default | Constraints |\n';
+      output += '|--------|-----------|----------|---------|-------------|\n';
+      for (const d of data.domains) {
+        const checks = d.checks.length > 0 ? d.checks.map((c) => `\`${c}\``).join('<br>') : '-';
+        output += `| \`${d.name}\` | \`${d.baseType}\` | ${d.nullable ? 'yes' : 'no'} | ${d.default ? `\`${d.default}\`` : '-'} | ${checks} |\n`;
+      }
+      output += '\n';
+    }
+
+    if (data.compositeTypes.length > 0) {
+      output += '## Composite Types\n\n';
+      for (const t of data.compositeTypes) {
+        output += `- \`${t.name}\` (${t.fields.map((f) => `${f.name} ${f.type}`).join(', ')})\n`;
+      }
+      output += '\n';
+    }
+
+    return output;
+  }
+
+  /**
+   * Row-level security policies per table; empty when no table has RLS enabled.
+   */
+  private renderAccessRules(data: TemplateData): string {
+    const secured = data.tables.filter((t) => t.rowLevelSecurity || t.policies.length > 0);
+    if (!secured.some((t) => t.rowLevelSecurity)) return '';
+
+    let output = '## Access Rules\n\n';
+    output += 'Row-level security is enforced by the database. These policies are authoritative: a query only sees and changes the rows they allow for the current role, whatever its WHERE clause says. Permissive policies for a command are combined with OR, restrictive ones with AND.\n\n';
+
+    for (const table of secured) {
+      output += `### ${table.name} policies\n\n`;
+      if (!table.rowLevelSecurity) {
+        output += '> Policies are defined but row-level security is **disabled**, so they are not applied.\n\n';
+      } else if (table.policies.length === 0) {
+        output += '> Row-level security is enabled without policies: only the table owner and roles with BYPASSRLS can access rows.\n\n';
+      } else if (table.forceRowLevelSecurity) {
+        output += '> Forced: the policies apply to the table owner too.\n\n';
+      }
+      for (const policy of table.policies) {
+        const kind = policy.permissive ? '' : ', restrictive';
+        const roles = policy.roles.map((r) => `\`${r}\``).join(', ') || '`public`';
+        output += `- **${policy.name}** (${policy.command}${kind}) for ${roles}\n`;
+        if (policy.using) {
+          output += `  - Rows: \`${policy.using}\`\n`;
+        }
+        if (policy.withCheck) {
+          output += `  - New rows must satisfy: \`${policy.withCheck}\`\n`;
+        }
+      }
+      output += '\n';
+    }
+
+    const unsecured = data.tables.filter((t) => t.kind === 'table' && !t.rowLevelSecurity);
+    if (unsecured.length > 0) {
+      output += `Tables without row-level security: ${unsecured.map((t) => `\`${t.name}\``).join(', ')}. Check ownership in application code before writing to them.\n\n`;
+    }
+
+    return output;
+  }
+
+  /**
+   * Triggers, functions and procedures; empty when the database has none.
+   */
+  private renderDatabaseBehavior(data: TemplateData): string {
+    const triggered = data.tables.filter((t) => t.triggers.length > 0);
+    if (triggered.length === 0 && data.routines.length === 0) return '';
+
+    let output = '## Database-side behavior\n\n';
+
+    if (triggered.length > 0) {
+      output += '### Triggers\n\n';
+      output += 'Columns listed under **Sets** are written by the database. Do not set them in application code.\n\n';
+      output += '| Table | Trigger | Fires | Executes | Sets |\n';
+      output += '|-------|---------|-------|----------|------|\n';
+      for (const table of triggered) {
+        for (const t of table.triggers) {
+          const level = t.level ? ` FOR EACH ${t.level}` : '';
+          const sets = t.setsColumns.length > 0 ? t.setsColumns.map((c) => `\`${c}\``).join(', ') : '-';
+          output += `| \`${table.name}\` | \`${t.name}\` | ${triggerFiring(t)}${level} | ${t.function ? `\`${t.function}()\`` : 'inline'} | ${sets} |\n`;
+        }
+      }
+      output += '\n';
+      for (const table of triggered) {
+        for (const t of table.triggers.filter((trigger) => trigger.definition)) {
+          output += `**${t.name}:**\n\`\`\`sql\n${t.definition!.trim()}\n\`\`\`\n\n`;
+        }
+      }
+    }
+
+    if (data.routines.length > 0) {
+      output += '### Functions and Procedures\n\n';
+      for (const r of data.routines) {
+        const returns = r.returnType ? ` → \`${r.returnType}\`` : '';
+        const description = r.description ? ` - ${r.description}` : '';
+        output += `- ${r.kind === 'procedure' ? 'Procedure' : 'Function'} \`${r.name}(${r.arguments})\`${returns} (${r.language})${description}\n`;
+        if (r.body) {
+          output += '\n  ```sql\n' + r.body.trim().split('\n').map((line) => `  ${line}`).join('\n') + '\n  ```\n\n';
+        }
+      }
+      output = output.trimEnd() + '\n\n';
+    }
+
+    return output;
+  }
+
   private renderAgentsMd(data: TemplateData): string {
     let tableQuickRef = '';
     for (const table of data.tables) {
       const pk = table.primaryKey || 'N/A';
       const sampleCols = table.columns.slice(0, 3).map((c) => c.name).join(', ');
-      tableQuickRef += `| [${table.name}](#${table.name}) | ${pk} | ${table.foreignKeyCount} | ${sampleCols}... |\n`;
+      const label = table.kind === 'table' ? table.name : `${table.name} (${KIND_LABELS[table.kind]})`;
+      tableQuickRef += `| [${label}](#${headingAnchor(table.name)}) | ${pk} | ${table.foreignKeyCount} | ${sampleCols}... |\n`;
     }
 
     let tableDetails = '';
     for (const table of data.tables) {
       tableDetails += `\n### ${table.name}\n\n`;
+      if (table.kind !== 'table') {
+        tableDetails += `**Read-only:** ${this.getReadOnlyNote(table)}\n\n`;
+      }
       tableDetails += `**Description:** ${table.description || 'No description available'}\n\n`;
+      if (table.deprecated) {
+        tableDetails += `**${deprecationNote(table.deprecated)}.**\n\n`;
+      }
       tableDetails += '**Columns:**\n```\n';
       tableDetails += table.columnList + '\n';
       tableDetails += '```\n\n';
@@ -834,6 +1583,14 @@ export class TemplateGenerator {
         tableDetails += '**Relationships:**\n';
         tableDetails += table.relations.join('\n') + '\n\n';
       }
+      const columnRules = table.columns.flatMap((c) => [
+        ...(c.deprecated ? [`\`${c.name}\`: ${deprecationNote(c.deprecated)}`] : []),
+        ...c.invariants.map((i) => `\`${c.name}\`: ${i}`),
+      ]);
+      if (table.invariants.length + columnRules.length > 0) {
+        tableDetails += '**Invariants:**\n';
+        tableDetails += [...table.invariants, ...columnRules].map((i) => `- ${i}`).join('\n') + '\n\n';
+      }
       tableDetails += `**Usage Pattern:** ${table.usagePattern}\n`;
     }
 
@@ -862,6 +1619,17 @@ export class TemplateGenerator {
     output += cardinalitySection;
     output += '\n## Table Details\n\n';
     output += tableDetails;
+    if (data.enums.length + data.domains.length + data.compositeTypes.length > 0) {
+      output += '\n' + this.renderCustomTypes(data).trimEnd() + '\n';
+    }
+    const behavior = this.renderDatabaseBehavior(data);
+    if (behavior) {
+      output += '\n' + behavior.trimEnd() + '\n';
+    }
+    const accessRules = this.renderAccessRules(data);
+    if (accessRules) {
+      output += '\n' + accessRules.trimEnd() + '\n';
+    }
     output += '\n## Type Mappings\n\n';
     output += '| Database Type | TypeScript Type | Notes |\n';
     output += '|---------------|-----------------|-------|\n';
@@ -873,12 +1641,15 @@ export class TemplateGenerator {
 
     // Add agent-specific warnings
     output += '\n## Platform Warnings\n\n';
-    output += '> [!WARNING|CODEX]\n';
-    output += '> **Codex**: Add to AGENTS.md:\n';
-    output += '> ```\n';
-    output += '> All queries MUST include organization_id filter.\n';
-    output += '> Pattern: SELECT ... WHERE id = $1 AND organization_id = $2\n';
-    output += '> ```\n\n';
+    const tenant = data.patterns.find((p) => p.kind === 'tenant-key');
+    if (tenant) {
+      output += '> [!WARNING|CODEX]\n';
+      output += '> **Codex**: Add to AGENTS.md:\n';
+      output += '> ```\n';
+      output += `> Queries on ${patternTables(tenant).join(', ')} MUST filter by ${tenant.key}.\n`;
+      output += `> Pattern: SELECT ... WHERE id = $1 AND ${tenant.key} = $2\n`;
+      output += '> ```\n\n';
+    }
 
     output += '> [!WARNING|ANTIGRAVITY]\n';
     output += '> **Antigravity**: Parallel agents share context. Use `.ai/memory/checkpoints/`.\n\n';
@@ -889,11 +1660,11 @@ export class TemplateGenerator {
     return output;
   }
 
-  private generateAllQueryTemplates(schema: UnifiedSchemaInfo): Record<string, string> {
+  private generateAllQueryTemplates(schema: UnifiedSchemaInfo, patterns: SchemaPattern[]): Record<string, string> {
     const queries: Record<string, string> = {};
 
     for (const table of schema.tables) {
-      queries[`${table.name}.sql`] = this.generateQueryTemplate(table);
+      queries[`${table.name}.sql`] = this.generateQueryTemplate(table, patterns);
     }
 
     queries['transactions.sql'] = this.generateTransactionPatterns();
@@ -901,12 +1672,21 @@ export class TemplateGenerator {
     return queries;
   }
 
-  private generateQueryTemplate(table: UnifiedTableInfo): string {
+  private generateQueryTemplate(table: UnifiedTableInfo, patterns: SchemaPattern[]): string {
     const pk = table.primaryKey[0] || 'id';
-    const columns = table.columns.map((c) => c.name);
-    const hasOrgId = table.columns.some((c) => c.name === 'organization_id');
-    const hasDeletedAt = table.columns.some((c) => c.name === 'deleted_at');
-    const nonDefaultCols = columns.filter((c) => c !== 'created_at' && c !== 'updated_at');
+    const tenantColumn = patterns
+      .find((p) => p.kind === 'tenant-key')
+      ?.occurrences.find((o) => o.table === table.name)?.columns[0];
+    const softDeleteFilter = patterns.find((p) => p.kind === 'soft-delete' && patternTables(p).includes(table.name))?.filter;
+    const orderColumn = ['created_at', 'createdAt'].find((c) => table.columns.some((col) => col.name === c)) || pk;
+    // The database fills identity and generated columns, and BEFORE INSERT triggers may set others
+    const triggerSet = new Set((table.triggers || [])
+      .filter((t) => t.timing === 'BEFORE' && t.events.includes('INSERT'))
+      .flatMap((t) => t.setsColumns));
+    const nonDefaultCols = table.columns
+      .filter((c) => !c.generated && c.identity !== 'always' && !triggerSet.has(c.name))
+      .map((c) => c.name)
+      .filter((c) => c !== 'created_at' && c !== 'updated_at');
 
     let output = `-- ${table.name} queries\n`;
     output += `-- AUTO-GENERATED by cohere\n\n`;
@@ -916,27 +1696,47 @@ export class TemplateGenerator {
     output += `-- Get by ${pk}\n`;
     output += `SELECT * FROM ${table.name} WHERE ${pk} = $1;\n\n`;
 
-    if (hasOrgId) {
-      output += `-- Get with organization check\n`;
-      output += `SELECT * FROM ${table.name} WHERE ${pk} = $1 AND organization_id = $2;\n\n`;
+    if (tenantColumn) {
+      output += `-- Get with tenant check\n`;
+      output += `SELECT * FROM ${table.name} WHERE ${pk} = $1 AND ${tenantColumn} = $2;\n\n`;
     }
 
     output += `-- List with pagination\n`;
     output += `SELECT * FROM ${table.name}\n`;
-    if (hasOrgId) {
-      output += `WHERE organization_id = $1\n`;
+    if (tenantColumn) {
+      output += `WHERE ${tenantColumn} = $1\n`;
     }
-    output += `ORDER BY created_at DESC\n`;
-    output += `LIMIT $2 OFFSET $3;\n\n`;
+    output += `ORDER BY ${orderColumn} DESC\n`;
+    output += tenantColumn ? `LIMIT $2 OFFSET $3;\n\n` : `LIMIT $1 OFFSET $2;\n\n`;
 
-    if (hasDeletedAt) {
+    if (softDeleteFilter) {
       output += `-- List without deleted records\n`;
       output += `SELECT * FROM ${table.name}\n`;
-      if (hasOrgId) {
-        output += `WHERE organization_id = $1\n`;
+      output += tenantColumn ? `WHERE ${tenantColumn} = $1 AND ${softDeleteFilter}\n` : `WHERE ${softDeleteFilter}\n`;
+      output += `ORDER BY ${orderColumn} DESC;\n\n`;
+    }
+
+    for (const rel of table.relations) {
+      const { from, to } = relationColumns(rel);
+      if (!from.every(Boolean) || !to.every(Boolean)) continue;
+      const name = rel.constraintName ? ` (${rel.constraintName})` : '';
+      output += `-- With ${rel.toTable}${name}\n`;
+      output += `SELECT t.*, r.*\nFROM ${table.name} t\n`;
+      output += `JOIN ${rel.toTable} r ON ${joinCondition(rel, 't', 'r')}\n`;
+      output += `WHERE t.${pk} = $1;\n\n`;
+    }
+
+    for (const example of table.examples || []) {
+      output += `-- ${example.name}${example.description ? `: ${example.description}` : ''}\n`;
+      output += example.sql.trim().replace(/;?$/, ';') + '\n\n';
+    }
+
+    if (table.kind && table.kind !== 'table') {
+      output += `-- Read-only ${KIND_LABELS[table.kind]}: no INSERT, UPDATE or DELETE\n`;
+      if (table.kind === 'materialized_view') {
+        output += `REFRESH MATERIALIZED VIEW ${table.name};\n`;
       }
-      output += `AND deleted_at IS NULL\n`;
-      output += `ORDER BY created_at DESC;\n\n`;
+      return output;
     }
 
     // CREATE operations
@@ -1028,17 +1828,14 @@ COMMIT;
     // Database-specific tables
     output += '## 5. Schema-Specific Edge Cases\n\n';
     for (const table of data.tables) {
-      const hasOrgId = table.columns.some((c: ColumnTemplateData) => c.name === 'organization_id');
-      const hasDeletedAt = table.columns.some((c: ColumnTemplateData) => c.name === 'deleted_at');
-
-      if (hasOrgId || hasDeletedAt) {
+      if (table.tenantColumn || table.softDeleteFilter) {
         output += `### ${table.name}\n\n`;
 
-        if (hasOrgId) {
-          output += '- **Organization isolation required**: All queries must include `organization_id` check\n';
+        if (table.tenantColumn) {
+          output += `- **Tenant isolation required**: All queries must include a \`${table.tenantColumn}\` check\n`;
         }
-        if (hasDeletedAt) {
-          output += '- **Soft delete pattern**: Use `deleted_at IS NULL` to exclude deleted records\n';
+        if (table.softDeleteFilter) {
+          output += `- **Soft delete pattern**: Use \`${table.softDeleteFilter}\` to exclude deleted records\n`;
         }
         output += '\n';
       }
@@ -1069,18 +1866,14 @@ COMMIT;
     output += `SELECT * FROM ${data.tables[0]?.name || 'table'};\n`;
     output += '```\n\n';
 
-    // Check if tables have organization_id
-    const hasOrgIsolation = data.tables.some((t: TableTemplateData) =>
-      t.columns.some((c: ColumnTemplateData) => c.name === 'organization_id')
-    );
-
-    if (hasOrgIsolation) {
-      output += '### Organization Isolation Required\n';
+    const scoped = data.tables.find((t: TableTemplateData) => t.tenantColumn);
+    if (scoped) {
+      output += '### Tenant Isolation Required\n';
       output += '```sql\n';
-      output += '-- ✓ CORRECT: Organization check included\n';
-      output += `SELECT * FROM ${data.tables[0]?.name || 'users'} WHERE organization_id = $1;\n`;
-      output += '-- ✗ WRONG: Missing organization_id (security risk!)\n';
-      output += `SELECT * FROM ${data.tables[0]?.name || 'users'};\n`;
+      output += '-- ✓ CORRECT: Tenant check included\n';
+      output += `SELECT * FROM ${scoped.name} WHERE ${scoped.tenantColumn} = $1;\n`;
+      output += `-- ✗ WRONG: Missing ${scoped.tenantColumn} (security risk!)\n`;
+      output += `SELECT * FROM ${scoped.name};\n`;
       output += '```\n\n';
     }
 
@@ -1176,7 +1969,8 @@ describe('${tableName} Edge Cases', () => {
   private generateCRUDEdgeCases(schema: UnifiedSchemaInfo): Record<string, string> {
     const templates: Record<string, string> = {};
 
-    for (const table of schema.tables) {
+    // CRUD tests make no sense against read-only views
+    for (const table of schema.tables.filter((t) => !t.kind || t.kind === 'table')) {
       const testContent = this.generateSingleTableTests(table);
       templates[table.name + '.test.ts'] = testContent;
     }
@@ -0,0 +1,379 @@
+/**
+ * TypeScript Types
+ * Renders row, insert and update interfaces for every table from the extracted schema
+ */
+
+import { UnifiedColumnInfo, UnifiedDomainInfo, UnifiedSchemaInfo, UnifiedTableInfo } from '../extractors/index.js';
+
+export const TYPES_FILE_NAME = 'database.ts';
+
+export interface TypeMapping {
+  dbType: string;
+  tsType: string;
+  notes?: string;
+}
+
+// ============================================================================
+// Type Mappings
+// ============================================================================
+
+/**
+ * Database type → TypeScript type, for every extractor's type vocabulary.
+ * Matched against the type without length, precision or array suffix; an
+ * exact match wins over a case-insensitive one (`BigInt` vs `bigint`).
+ */
+export const TYPE_MAPPINGS: TypeMapping[] = [
+  // PostgreSQL
+  { dbType: 'uuid', tsType: 'string', notes: 'UUID v4' },
+  { dbType: 'text', tsType: 'string' },
+  { dbType: 'varchar', tsType: 'string' },
+  { dbType: 'integer', tsType: 'number' },
+  { dbType: 'bigint', tsType: 'number' },
+  { dbType: 'boolean', tsType: 'boolean' },
+  { dbType: 'timestamp', tsType: 'Date' },
+  { dbType: 'jsonb', tsType: 'Record<string, unknown>' },
+  { dbType: 'character varying', tsType: 'string' },
+  { dbType: 'character', tsType: 'string' },
+  { dbType: 'citext', tsType: 'string' },
+  { dbType: 'smallint', tsType: 'number' },
+  { dbType: 'serial', tsType: 'number' },
+  { dbType: 'bigserial', tsType: 'number' },
+  { dbType: 'numeric', tsType: 'string', notes: 'Exact decimal as a string, as node-pg returns it' },
+  { dbType: 'real', tsType: 'number' },
+  { dbType: 'double precision', tsType: 'number' },
+  { dbType: 'money', tsType: 'string', notes: 'Formatted with the currency symbol' },
+  { dbType: 'timestamp without time zone', tsType: 'Date' },
+  { dbType: 'timestamp with time zone', tsType: 'Date' },
+  { dbType: 'timestamptz', tsType: 'Date' },
+  { dbType: 'date', tsType: 'Date' },
+  { dbType: 'time without time zone', tsType: 'string' },
+  { dbType: 'time with time zone', tsType: 'string' },
+  { dbType: 'interval', tsType: 'string' },
+  { dbType: 'json', tsType: 'Record<string, unknown>' },
+  { dbType: 'bytea', tsType: 'Buffer' },
+  { dbType: 'inet', tsType: 'string' },
+  { dbType: 'cidr', tsType: 'string' },
+  { dbType: 'macaddr', tsType: 'string' },
+  { dbType: 'tsvector', tsType: 'string' },
+  { dbType: 'xml', tsType: 'string' },
+  // MySQL
+  { dbType: 'int', tsType: 'number' },
+  { dbType: 'datetime', tsType: 'Date' },
+  { dbType: 'enum', tsType: 'string', notes: 'Enum values' },
+  { dbType: 'tinyint(1)', tsType: 'boolean' },
+  { dbType: 'tinyint', tsType: 'number' },
+  { dbType: 'mediumint', tsType: 'number' },
+  { dbType: 'decimal', tsType: 'string', notes: 'Exact decimal as a string, as mysql2 returns it' },
+  { dbType: 'float', tsType: 'number' },
+  { dbType: 'double', tsType: 'number' },
+  { dbType: 'year', tsType: 'number' },
+  { dbType: 'time', tsType: 'string' },
+  { dbType: 'char', tsType: 'string' },
+  { dbType: 'tinytext', tsType: 'string' },
+  { dbType: 'mediumtext', tsType: 'string' },
+  { dbType: 'longtext', tsType: 'string' },
+  { dbType: 'set', tsType: 'string', notes: 'Comma-separated values' },
+  { dbType: 'binary', tsType: 'Buffer' },
+  { dbType: 'varbinary', tsType: 'Buffer' },
+  { dbType: 'blob', tsType: 'Buffer' },
+  { dbType: 'longblob', tsType: 'Buffer' },
+  // SQLite
+  { dbType: 'INTEGER', tsType: 'number' },
+  { dbType: 'TEXT', tsType: 'string' },
+  { dbType: 'REAL', tsType: 'number' },
+  { dbType: 'BLOB', tsType: 'Buffer' },
+  { dbType: 'NUMERIC', tsType: 'number' },
+  // Prisma
+  { dbType: 'String', tsType: 'string' },
+  { dbType: 'Int', tsType: 'number' },
+  { dbType: 'Boolean', tsType: 'boolean' },
+  { dbType: 'DateTime', tsType: 'Date' },
+  { dbType: 'Float', tsType: 'number' },
+  { dbType: 'Decimal', tsType: 'string', notes: 'Prisma.Decimal in the client; toString() gives the exact value' },
+  { dbType: 'BigInt', tsType: 'bigint' },
+  { dbType: 'Json', tsType: 'Record<string, unknown>' },
+  { dbType: 'Bytes', tsType: 'Buffer' },
+  // MongoDB
+  { dbType: 'ObjectId', tsType: 'string', notes: '24-character hex string' },
+  { dbType: 'Double', tsType: 'number' },
+  { dbType: 'Decimal128', tsType: 'string', notes: 'Exact decimal as a string' },
+  { dbType: 'Date', tsType: 'Date' },
+  { dbType: 'Object', tsType: 'Record<string, unknown>' },
+  { dbType: 'Array', tsType: 'unknown[]' },
+  { dbType: 'Mixed', tsType: 'unknown' },
+  // Firestore
+  { dbType: 'Number', tsType: 'number' },
+  { dbType: 'Timestamp', tsType: 'Date' },
+  { dbType: 'Map', tsType: 'Record<string, unknown>' },
+  { dbType: 'Reference', tsType: 'string', notes: 'Document path' },
+  { dbType: 'GeoPoint', tsType: '{ latitude: number; longitude: number }' },
+];
+
+/**
+ * `varchar(255)` → `varchar`, `int unsigned` → `int`; `tinyint(1)` is kept,
+ * MySQL reports booleans that way.
+ */
+function baseType(type: string): string {
+  if (/^tinyint\(1\)/i.test(type)) return 'tinyint(1)';
+  return type.replace(/\(.*$/, '').replace(/\s+(unsigned|zerofill)\b.*$/i, '').trim();
+}
+
+/**
+ * Mapping of a scalar type, or undefined for types no extractor reports.
+ */
+export function findTypeMapping(type: string): TypeMapping | undefined {
+  const base = baseType(type);
+  return TYPE_MAPPINGS.find((m) => m.dbType === base) ||
+    TYPE_MAPPINGS.find((m) => m.dbType.toLowerCase() === base.toLowerCase());
+}
+
+/**
+ * Mappings for the column types `schema` actually uses, for the AGENTS.md reference.
+ */
+export function usedTypeMappings(schema: UnifiedSchemaInfo): TypeMapping[] {
+  const used = new Set<TypeMapping>();
+  for (const table of schema.tables) {
+    for (const col of table.columns) {
+      const mapping = findTypeMapping(col.type.replace(/(\[\])+$/, ''));
+      if (mapping) used.add(mapping);
+    }
+  }
+  return TYPE_MAPPINGS.filter((m) => used.has(m));
+}
+
+// ============================================================================
+// Type Analysis
+// ============================================================================
+
+/**
+ * A column type taken apart for the TypeScript and Zod renderers. Domains are
+ * unwrapped to their base type and listed in `domains`, outermost first.
+ */
+export type ColumnTypeInfo = (
+  | { kind: 'array'; element: string }
+  | { kind: 'enum' | 'composite'; name: string }
+  /** MySQL lists enum members in the column type: enum('draft','sent') */
+  | { kind: 'values'; values: string[] }
+  /** Fields with several types in sampled documents: Mixed(String|Int) */
+  | { kind: 'mixed'; members: string[] }
+  | { kind: 'null' }
+  /** `type` is the base type once domains are unwrapped */
+  | { kind: 'scalar'; type: string; mapping: TypeMapping | undefined }
+) & { domains: UnifiedDomainInfo[] };
+
+export function analyzeType(type: string, schema: UnifiedSchemaInfo): ColumnTypeInfo {
+  const domains: UnifiedDomainInfo[] = [];
+  let domain = schema.domains?.find((d) => d.name === type);
+  while (domain && !domains.includes(domain)) {
+    domains.push(domain);
+    type = domain.baseType;
+    domain = schema.domains?.find((d) => d.name === type);
+  }
+
+  if (type.endsWith('[]')) return { kind: 'array', element: type.slice(0, -2), domains };
+  if (schema.enums?.some((e) => e.name === type)) return { kind: 'enum', name: type, domains };
+  if (schema.compositeTypes?.some((c) => c.name === type)) return { kind: 'composite', name: type, domains };
+
+  const inline = type.match(/^enum\((.*)\)$/i);
+  const values = inline ? Array.from(inline[1].matchAll(/'((?:[^']|'')*)'/g), (m) => m[1].replace(/''/g, "'")) : [];
+  if (values.length > 0) return { kind: 'values', values, domains };
+  const mixed = type.match(/^Mixed\((.*)\)$/);
+  if (mixed) return { kind: 'mixed', members: mixed[1].split('|').map((t) => t.trim()), domains };
+  if (type === 'null') return { kind: 'null', domains };
+
+  return { kind: 'scalar', type, mapping: findTypeMapping(type), domains };
+}
+
+// ============================================================================
+// Declarations
+// ============================================================================
+
+export function pascalCase(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const result = words.map((w) => w[0].toUpperCase() + w.slice(1)).join('') || 'Unnamed';
+  return /^\d/.test(result) ? `_${result}` : result;
+}
+
+export function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function docComment(lines: string[], indent = ''): string {
+  const text = lines.filter(Boolean).flatMap((line) => line.split('\n')).map((line) => line.replace(/\*\//g, '* /'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Unique TypeScript names for the enums, composite types and tables of a schema.
+ */
+class NameAllocator {
+  private used = new Set<string>();
+
+  allocate(name: string, reserved: string[] = []): string {
+    const base = pascalCase(name);
+    let candidate = base;
+    for (let i = 2; this.used.has(candidate) || reserved.some((suffix) => this.used.has(candidate + suffix)); i++) {
+      candidate = `${base}${i}`;
+    }
+    this.used.add(candidate);
+    reserved.forEach((suffix) => this.used.add(candidate + suffix));
+    return candidate;
+  }
+}
+
+/**
+ * Resolves column types of one schema to TypeScript: enums and composite
+ * types by their generated names, anything else through TYPE_MAPPINGS.
+ */
+class TypeResolver {
+  private enums = new Map<string, string>();
+  private composites = new Map<string, string>();
+
+  constructor(private schema: UnifiedSchemaInfo, names: NameAllocator) {
+    for (const e of schema.enums || []) {
+      this.enums.set(e.name, names.allocate(e.name));
+    }
+    for (const composite of schema.compositeTypes || []) {
+      this.composites.set(composite.name, names.allocate(composite.name));
+    }
+  }
+
+  enumName(name: string): string {
+    return this.enums.get(name)!;
+  }
+
+  compositeName(name: string): string {
+    return this.composites.get(name)!;
+  }
+
+  resolve(type: string): string {
+    const info = analyzeType(type, this.schema);
+    switch (info.kind) {
+      case 'array': {
+        const element = this.resolve(info.element);
+        return /[|{ ]/.test(element) ? `(${element})[]` : `${element}[]`;
+      }
+      case 'enum':
+        return this.enums.get(info.name)!;
+      case 'composite':
+        return this.composites.get(info.name)!;
+      case 'values':
+        return info.values.map(stringLiteral).join(' | ');
+      case 'mixed':
+        return Array.from(new Set(info.members.map((t) => this.resolve(t)))).join(' | ');
+      case 'null':
+        return 'null';
+      default:
+        return info.mapping?.tsType ?? 'unknown';
+    }
+  }
+}
+
+/**
+ * The database assigns a value when the insert leaves the column out.
+ */
+export function hasDatabaseValue(col: UnifiedColumnInfo, table: UnifiedTableInfo, schema: UnifiedSchemaInfo): boolean {
+  if ((col.default !== null && col.default !== undefined) || col.identity) return true;
+  // Document ids are generated by the driver
+  if ((schema.databaseType === 'mongodb' || schema.databaseType === 'firebase') && col.isPrimaryKey) return true;
+  // A single INTEGER PRIMARY KEY is SQLite's rowid
+  return schema.databaseType === 'sqlite' && table.primaryKey.length === 1 && col.isPrimaryKey &&
+    col.type.toUpperCase() === 'INTEGER';
+}
+
+/**
+ * Prisma and Drizzle list relation fields among the columns; they name the
+ * related model and are not stored.
+ */
+export function isRelationField(col: UnifiedColumnInfo, tables: Set<string>): boolean {
+  return col.isForeignKey && tables.has(col.type);
+}
+
+function renderTable(
+  table: UnifiedTableInfo,
+  name: string,
+  schema: UnifiedSchemaInfo,
+  types: TypeResolver,
+  tables: Set<string>
+): string {
+  const columns = table.columns
+    .filter((col) => !isRelationField(col, tables))
+    .map((col) => {
+      const type = types.resolve(col.type);
+      // SQLite reports primary key columns as nullable; they never hold NULL
+      const nullable = col.nullable && !col.isPrimaryKey;
+      return { col, nullable, type: nullable ? `${type} | null` : type };
+    });
+  const writable = table.kind === undefined || table.kind === 'table';
+
+  const tableDoc = [table.description || '', table.deprecated ? `@deprecated ${table.deprecated.reason || ''}`.trim() : ''];
+  let output = docComment(tableDoc);
+  output += `export interface ${name} {\n`;
+  for (const { col, type } of columns) {
+    const doc = [
+      col.description || '',
+      col.deprecated ? `@deprecated ${[col.deprecated.reason, col.deprecated.replacedBy ? `Use ${col.deprecated.replacedBy}` : '']
+        .filter(Boolean).join('. ')}`.trim() : '',
+    ];
+    output += docComment(doc, '  ');
+    output += `  ${propertyName(col.name)}: ${type};\n`;
+  }
+  output += '}\n';
+  if (!writable) return output;
+
+  // Generated and GENERATED ALWAYS identity columns cannot be written
+  const insertable = columns.filter(({ col }) => !col.generated && col.identity !== 'always');
+  output += `\nexport interface ${name}Insert {\n`;
+  for (const { col, nullable, type } of insertable) {
+    const optional = nullable || hasDatabaseValue(col, table, schema);
+    output += `  ${propertyName(col.name)}${optional ? '?' : ''}: ${type};\n`;
+  }
+  output += '}\n';
+
+  output += `\nexport interface ${name}Update {\n`;
+  for (const { col, type } of insertable) {
+    output += `  ${propertyName(col.name)}?: ${type};\n`;
+  }
+  return output + '}\n';
+}
+
+/**
+ * `types/database.ts`: a string union per enum, an interface per composite
+ * type, and per table a row interface plus `<Table>Insert` and
+ * `<Table>Update` (views get the row interface only).
+ */
+export function renderTypeScriptTypes(schema: UnifiedSchemaInfo): string {
+  const names = new NameAllocator();
+  const types = new TypeResolver(schema, names);
+  const tableNames = schema.tables.map((table) => names.allocate(table.name, ['Insert', 'Update']));
+  const tables = new Set(schema.tables.map((t) => t.name));
+
+  let output = `// AUTO-GENERATED by cohere-db from the ${schema.databaseType} schema. Run \`cohere-db generate\` to update.\n`;
+
+  for (const e of schema.enums || []) {
+    const values = e.values.map(stringLiteral).join(' | ') || 'never';
+    output += '\n' + docComment([e.description || '']);
+    output += `export type ${types.enumName(e.name)} = ${values};\n`;
+  }
+
+  for (const composite of schema.compositeTypes || []) {
+    output += `\nexport interface ${types.compositeName(composite.name)} {\n`;
+    // Fields of a composite type are always nullable
+    for (const field of composite.fields) {
+      output += `  ${propertyName(field.name)}: ${types.resolve(field.type)} | null;\n`;
+    }
+    output += '}\n';
+  }
+
+  schema.tables.forEach((table, i) => {
+    output += '\n' + renderTable(table, tableNames[i], schema, types, tables);
+  });
+
+  return output;
+}
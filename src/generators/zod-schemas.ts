@@ -0,0 +1,354 @@
+/**
+ * Zod Schemas
+ * Renders select, insert and update Zod schemas per table with the constraints the database enforces
+ */
+
+import { UnifiedColumnInfo, UnifiedSchemaInfo, UnifiedTableInfo } from '../extractors/index.js';
+import {
+  analyzeType,
+  hasDatabaseValue,
+  isRelationField,
+  pascalCase,
+  propertyName,
+  stringLiteral,
+} from './typescript-types.js';
+
+/** Shared enum and composite type schemas */
+export const ZOD_TYPES_FILE_NAME = 'types.ts';
+
+const HEADER = (schema: UnifiedSchemaInfo) =>
+  `// AUTO-GENERATED by cohere-db from the ${schema.databaseType} schema. Run \`cohere-db generate --targets zod\` to update.\n\n` +
+  "import { z } from 'zod';\n";
+
+const INTEGER_TYPES = new Set([
+  'integer', 'int', 'smallint', 'bigint', 'mediumint', 'tinyint', 'serial', 'bigserial', 'smallserial', 'int2', 'int4', 'int8', 'year',
+]);
+
+/**
+ * node-pg returns int8 values as strings; select schemas coerce them so rows
+ * read back parse.
+ */
+const STRING_NUMBER_TYPES = new Set(['bigint', 'bigserial']);
+
+/** Exact decimals, typed as strings like the drivers return them */
+const DECIMAL_TYPES = new Set(['numeric', 'decimal']);
+
+const ZOD_BY_TS_TYPE: Record<string, string> = {
+  'string': 'z.string()',
+  'number': 'z.number()',
+  'boolean': 'z.boolean()',
+  // Accepts ISO strings from JSON payloads as well as Date objects from drivers
+  'Date': 'z.coerce.date()',
+  'bigint': 'z.bigint()',
+  'Buffer': 'z.instanceof(Buffer)',
+  'Record<string, unknown>': 'z.record(z.string(), z.unknown())',
+  'unknown[]': 'z.array(z.unknown())',
+  '{ latitude: number; longitude: number }': 'z.object({ latitude: z.number(), longitude: z.number() })',
+};
+
+function camelCase(name: string): string {
+  const pascal = pascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function moduleName(table: string): string {
+  return table.replace(/[^\w.-]/g, '_');
+}
+
+// ============================================================================
+// Check Constraints
+// ============================================================================
+
+/**
+ * A check as plain SQL: no `CHECK` keyword, casts, quoted identifiers or
+ * redundant parentheses. `CHECK ((total >= (0)::numeric))` → `total >= 0`.
+ */
+function normalizeCheck(expression: string): string {
+  let expr = expression.trim().replace(/^CHECK\s*/i, '')
+    .replace(/::(?:character varying|double precision|timestamp with(?:out)? time zone|[\w.]+)(\[\])?/g, '')
+    .replace(/[`"]/g, '')
+    .replace(/\((-?\d+(?:\.\d+)?)\)/g, '$1');
+  while (expr.startsWith('(') && expr.endsWith(')') && balanced(expr.slice(1, -1))) {
+    expr = expr.slice(1, -1).trim();
+  }
+  return expr;
+}
+
+function balanced(expr: string): boolean {
+  let depth = 0;
+  for (const char of expr) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+interface Refinement {
+  /** Replaces the base schema, for checks that list the allowed values */
+  values?: string[];
+  methods: string[];
+}
+
+/**
+ * POSIX bracket classes (`[[:alpha:]]`) and escapes JavaScript reads
+ * differently (`\m`, `\M`, `\y`, `\Y`, `\A`, `\Z`).
+ */
+const POSTGRES_ONLY_REGEX = /\[\[[:.=]|\\[mMyYAZ]/;
+
+const BOUNDS: Record<string, string> = { '>=': 'gte', '>': 'gt', '<=': 'lte', '<': 'lt' };
+
+/**
+ * Zod methods for a check on one column, or null when the check says more
+ * than comparisons, lengths, value lists and patterns.
+ */
+function checkRefinement(expression: string, column: string, kind: 'string' | 'number' | 'decimal'): Refinement | null {
+  const name = column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const number = '(-?\\d+(?:\\.\\d+)?)';
+  const expr = normalizeCheck(expression)
+    .replace(new RegExp(`^${name}\\s+BETWEEN\\s+${number}\\s+AND\\s+${number}$`, 'i'), `${column} >= $1 AND ${column} <= $2`);
+
+  const refinement: Refinement = { methods: [] };
+  for (const part of expr.split(/\s+AND\s+/i)) {
+    const clause = part.trim().replace(/^\((.*)\)$/, '$1').trim();
+    if (!balanced(clause)) return null;
+
+    const bound = clause.match(new RegExp(`^${name}\\s*(>=|>|<=|<)\\s*${number}$`));
+    const length = clause.match(new RegExp(`^(?:char_length|character_length|length)\\(${name}\\)\\s*(>=|>|<=|<)\\s*(\\d+)$`, 'i'));
+    const values = clause.match(new RegExp(`^${name}\\s*(?:=\\s*ANY\\s*\\(\\s*ARRAY\\[(.*)\\]\\s*\\)|IN\\s*\\((.*)\\))$`, 'i'));
+    const pattern = clause.match(new RegExp(`^${name}\\s*(~\\*?)\\s*'((?:[^']|'')*)'$`));
+
+    if (bound && kind === 'number') {
+      refinement.methods.push(`.${BOUNDS[bound[1]]}(${bound[2]})`);
+    } else if (bound && kind === 'decimal') {
+      refinement.methods.push(`.refine((value) => Number(value) ${bound[1]} ${bound[2]})`);
+    } else if (length && kind === 'string') {
+      const n = Number(length[2]);
+      const [method, limit] = {
+        '>=': ['min', n], '>': ['min', n + 1], '<=': ['max', n], '<': ['max', n - 1],
+      }[length[1]] as [string, number];
+      refinement.methods.push(`.${method}(${limit})`);
+    } else if (clause === `${column} <> ''` && kind === 'string') {
+      refinement.methods.push('.min(1)');
+    } else if (values && kind === 'string') {
+      const list = Array.from((values[1] ?? values[2]).matchAll(/'((?:[^']|'')*)'/g), (m) => m[1].replace(/''/g, "'"));
+      if (list.length === 0) return null;
+      refinement.values = list;
+    } else if (pattern && kind === 'string') {
+      const source = pattern[2].replace(/''/g, "'");
+      if (POSTGRES_ONLY_REGEX.test(source)) return null;
+      // Escape the slashes that are not escaped already, they would end the literal
+      const literal = source.replace(/\\.|\//g, (m) => (m === '/' ? '\\/' : m));
+      refinement.methods.push(`.regex(/${literal}/${pattern[1] === '~*' ? 'i' : ''})`);
+    } else {
+      return null;
+    }
+  }
+  return refinement;
+}
+
+// ============================================================================
+// Column Schemas
+// ============================================================================
+
+/**
+ * Resolves column types of one schema to Zod expressions, with enums and
+ * composite types referenced by name from `types.ts`.
+ */
+class ZodResolver {
+  readonly enums = new Map<string, string>();
+  readonly composites = new Map<string, string>();
+  /** Shared schemas the current table refers to */
+  used = new Set<string>();
+
+  constructor(private schema: UnifiedSchemaInfo) {
+    for (const e of schema.enums || []) {
+      this.enums.set(e.name, `${camelCase(e.name)}Schema`);
+    }
+    for (const composite of schema.compositeTypes || []) {
+      this.composites.set(composite.name, `${camelCase(composite.name)}Schema`);
+    }
+  }
+
+  /**
+   * Zod expression for a value of `type`; `checks` are applied where they can
+   * be, and the ones that cannot are returned in `unchecked`. `rows` is set
+   * for values read from the database rather than written to it.
+   */
+  resolve(
+    type: string,
+    details: Pick<UnifiedColumnInfo, 'maxLength' | 'precision' | 'scale'> = {},
+    checks: { expression: string; column: string }[] = [],
+    unchecked: string[] = [],
+    rows = false
+  ): string {
+    const info = analyzeType(type, this.schema);
+    checks = [...checks, ...info.domains.flatMap((d) => d.checks.map((expression) => ({ expression, column: 'VALUE' })))];
+
+    if (info.kind !== 'scalar') {
+      checks.forEach((check) => unchecked.push(check.expression));
+    }
+    switch (info.kind) {
+      case 'array':
+        return `z.array(${this.resolve(info.element, {}, [], [], rows)})`;
+      case 'enum':
+      case 'composite': {
+        const named = (info.kind === 'enum' ? this.enums : this.composites).get(info.name)!;
+        this.used.add(named);
+        return named;
+      }
+      case 'values':
+        return `z.enum([${info.values.map(stringLiteral).join(', ')}])`;
+      case 'mixed': {
+        const members = Array.from(new Set(info.members.map((t) => this.resolve(t, {}, [], [], rows))));
+        return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+      }
+      case 'null':
+        return 'z.null()';
+    }
+
+    const base = info.mapping?.dbType.toLowerCase();
+    let zod = (info.mapping && ZOD_BY_TS_TYPE[info.mapping.tsType]) || 'z.unknown()';
+    // MySQL keeps lengths and precision in the type: varchar(255), decimal(10,2)
+    const [, length, scale] = info.type.match(/^[\w ]+\((\d+)(?:,\s*(\d+))?\)/) || [];
+
+    const decimal = zod === 'z.string()' && DECIMAL_TYPES.has(base!);
+    if (decimal) {
+      // numeric(p,s) holds p - s integer digits and s fraction digits
+      const precision = details.precision ?? (length ? Number(length) : undefined);
+      const digits = details.scale ?? (scale ? Number(scale) : 0);
+      const integer = precision ? `\\d{1,${Math.max(precision - digits, 1)}}` : '\\d+';
+      const fraction = precision ? (digits > 0 ? `(\\.\\d{1,${digits}})?` : '') : '(\\.\\d+)?';
+      zod += `.regex(/^-?${integer}${fraction}$/)`;
+    } else if (zod === 'z.string()') {
+      if (base === 'uuid') zod += '.uuid()';
+      if (base === 'objectid') zod += '.regex(/^[0-9a-f]{24}$/i)';
+      const maxLength = details.maxLength ?? (length ? Number(length) : undefined);
+      if (maxLength) zod += `.max(${maxLength})`;
+    } else if (zod === 'z.number()') {
+      if (INTEGER_TYPES.has(base!)) zod += '.int()';
+      const precision = details.precision ?? (length ? Number(length) : undefined);
+      const digits = details.scale ?? (scale ? Number(scale) : 0);
+      if (precision && (base === 'numeric' || base === 'decimal')) {
+        const limit = 10 ** (precision - digits);
+        zod += `.gt(-${limit}).lt(${limit})`;
+        if (digits > 0) zod += `.multipleOf(${10 ** -digits})`;
+      }
+    }
+
+    const kind = decimal ? 'decimal' : zod.startsWith('z.string()') ? 'string' : zod.startsWith('z.number()') ? 'number' : null;
+    for (const check of checks) {
+      const refinement = kind ? checkRefinement(check.expression, check.column, kind) : null;
+      if (!refinement) {
+        unchecked.push(check.expression);
+      } else if (refinement.values) {
+        zod = `z.enum([${refinement.values.map(stringLiteral).join(', ')}])`;
+      } else {
+        zod += refinement.methods.join('');
+      }
+    }
+    if (rows && kind === 'number' && STRING_NUMBER_TYPES.has(base!)) {
+      zod = zod.replace(/^z\.number\(\)/, 'z.coerce.number()');
+    }
+    return zod;
+  }
+}
+
+function renderTable(table: UnifiedTableInfo, name: string, schema: UnifiedSchemaInfo, zod: ZodResolver, tables: Set<string>): string {
+  zod.used = new Set();
+  const unchecked: string[] = [];
+  const checks = table.checks || [];
+  const columns = table.columns
+    .filter((col) => !isRelationField(col, tables))
+    .map((col) => {
+      const own = checks
+        .filter((c) => c.columns.length === 1 && c.columns[0] === col.name)
+        .map((c) => ({ expression: c.expression, column: col.name }));
+      const nullable = col.nullable && !col.isPrimaryKey;
+      const type = zod.resolve(col.type, col, own, unchecked);
+      const row = zod.resolve(col.type, col, own, [], true);
+      return {
+        col,
+        nullable,
+        type: nullable ? `${type}.nullable()` : type,
+        row: nullable ? `${row}.nullable()` : row,
+      };
+    });
+  unchecked.push(...checks.filter((c) => c.columns.length !== 1).map((c) => c.expression));
+
+  let body = '';
+  if (table.description || unchecked.length > 0) {
+    body += '/**\n';
+    if (table.description) body += ` * ${table.description.replace(/\*\//g, '* /')}\n`;
+    if (table.description && unchecked.length > 0) body += ' *\n';
+    if (unchecked.length > 0) {
+      body += ' * Checked by the database only:\n';
+      body += unchecked.map((check) => ` * - \`${check.replace(/\*\//g, '* /')}\`\n`).join('');
+    }
+    body += ' */\n';
+  }
+  body += `export const ${name}SelectSchema = z.object({\n`;
+  body += columns.map(({ col, row }) => `  ${propertyName(col.name)}: ${row},\n`).join('');
+  body += '});\n';
+
+  if (!table.kind || table.kind === 'table') {
+    // Generated and GENERATED ALWAYS identity columns cannot be written
+    const insertable = columns.filter(({ col }) => !col.generated && col.identity !== 'always');
+    body += `\nexport const ${name}InsertSchema = z.object({\n`;
+    for (const { col, nullable, type } of insertable) {
+      const optional = nullable || hasDatabaseValue(col, table, schema);
+      body += `  ${propertyName(col.name)}: ${type}${optional ? '.optional()' : ''},\n`;
+    }
+    body += '});\n';
+    body += `\nexport const ${name}UpdateSchema = ${name}InsertSchema.partial();\n`;
+  }
+
+  const shared = Array.from(zod.used).sort();
+  const imports = shared.length > 0
+    ? `import { ${shared.join(', ')} } from '../${ZOD_TYPES_FILE_NAME.replace(/\.ts$/, '.js')}';\n`
+    : '';
+  return `${HEADER(schema)}${imports}\n${body}`;
+}
+
+function renderTypes(schema: UnifiedSchemaInfo, zod: ZodResolver): string {
+  let output = HEADER(schema);
+  for (const e of schema.enums || []) {
+    output += `\nexport const ${zod.enums.get(e.name)} = z.enum([${e.values.map(stringLiteral).join(', ')}]);\n`;
+  }
+  for (const composite of schema.compositeTypes || []) {
+    output += `\nexport const ${zod.composites.get(composite.name)} = z.object({\n`;
+    // Fields of a composite type are always nullable
+    for (const field of composite.fields) {
+      output += `  ${propertyName(field.name)}: ${zod.resolve(field.type)}.nullable(),\n`;
+    }
+    output += '});\n';
+  }
+  return output;
+}
+
+/**
+ * Files of the Zod target keyed by relative path: `tables/<table>.ts` with
+ * `<table>SelectSchema`, `<table>InsertSchema` and `<table>UpdateSchema`
+ * (views get the select schema only), `types.ts` with enums and composite
+ * types, and `index.ts` re-exporting everything.
+ */
+export function renderZodSchemas(schema: UnifiedSchemaInfo): Record<string, string> {
+  const zod = new ZodResolver(schema);
+  const tables = new Set(schema.tables.map((t) => t.name));
+  const used = new Set([...zod.enums.values(), ...zod.composites.values()].map((n) => n.replace(/Schema$/, '')));
+
+  const files: Record<string, string> = {};
+  const modules: string[] = [];
+  for (const table of schema.tables) {
+    let name = camelCase(table.name);
+    for (let i = 2; used.has(name); i++) name = `${camelCase(table.name)}${i}`;
+    used.add(name);
+
+    const module = moduleName(table.name);
+    files[`tables/${module}.ts`] = renderTable(table, name, schema, zod, tables);
+    modules.push(`./tables/${module}.js`);
+  }
+  files[ZOD_TYPES_FILE_NAME] = renderTypes(schema, zod);
+  files['index.ts'] = `// AUTO-GENERATED by cohere-db. Run \`cohere-db generate --targets zod\` to update.\n\n` +
+    [`./${ZOD_TYPES_FILE_NAME.replace(/\.ts$/, '.js')}`, ...modules].map((m) => `export * from '${m}';\n`).join('');
+  return files;
+}
@@ -0,0 +1,269 @@
+/**
+ * Annotations
+ * Reads the team-authored .ai/annotations.yaml and merges it into the extracted schema
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import type {
+  UnifiedColumnInfo,
+  UnifiedDeprecation,
+  UnifiedQueryExample,
+  UnifiedSchemaInfo,
+  UnifiedTableInfo,
+} from '../extractors/index.js';
+import type { ValidationFinding } from './schema-validation.js';
+
+export const ANNOTATIONS_FILE_NAME = 'annotations.yaml';
+
+/**
+ * `deprecated: true`, `deprecated: "reason"` or `deprecated: { reason, replacedBy }`.
+ */
+export type DeprecationAnnotation = boolean | string | UnifiedDeprecation;
+
+export interface ColumnAnnotation {
+  description?: string;
+  invariants?: string[];
+  deprecated?: DeprecationAnnotation;
+}
+
+export interface TableAnnotation {
+  description?: string;
+  invariants?: string[];
+  deprecated?: DeprecationAnnotation;
+  examples?: UnifiedQueryExample[];
+  /** A plain string is shorthand for the column description */
+  columns?: Record<string, ColumnAnnotation | string>;
+}
+
+export interface EnumAnnotation {
+  description?: string;
+  /** Meaning of each value */
+  values?: Record<string, string>;
+}
+
+export interface SchemaAnnotations {
+  tables?: Record<string, TableAnnotation>;
+  enums?: Record<string, EnumAnnotation>;
+  /** Rules spanning several tables */
+  invariants?: string[];
+  examples?: UnifiedQueryExample[];
+}
+
+export function getAnnotationsPath(aiDir: string): string {
+  return path.join(aiDir, ANNOTATIONS_FILE_NAME);
+}
+
+/**
+ * Load the annotations file from the output directory; null when there is none.
+ */
+export function loadAnnotations(aiDir: string): SchemaAnnotations | null {
+  const filePath = getAnnotationsPath(aiDir);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return parseAnnotations(fs.readFileSync(filePath, 'utf-8'), filePath);
+}
+
+export function parseAnnotations(content: string, source: string = ANNOTATIONS_FILE_NAME): SchemaAnnotations {
+  let raw: unknown;
+  try {
+    raw = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid YAML in ${source}: ${(error as Error).message}`);
+  }
+
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source} must be a mapping with "tables", "enums", "invariants" or "examples"`);
+  }
+
+  const annotations = raw as SchemaAnnotations;
+  for (const key of ['tables', 'enums'] as const) {
+    const section = annotations[key];
+    if (section !== undefined && (typeof section !== 'object' || section === null || Array.isArray(section))) {
+      throw new Error(`"${key}" in ${source} must map names to annotations`);
+    }
+  }
+  for (const key of ['invariants', 'examples'] as const) {
+    if (annotations[key] !== undefined && !Array.isArray(annotations[key])) {
+      throw new Error(`"${key}" in ${source} must be a list`);
+    }
+  }
+  for (const [name, table] of Object.entries(annotations.tables || {})) {
+    for (const example of table?.examples || []) {
+      if (!example || typeof example.sql !== 'string') {
+        throw new Error(`Example queries for "${name}" in ${source} need a "sql" field`);
+      }
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * Annotation keys match the documented table name, or its bare name when
+ * several database schemas are documented (`users` for `auth.users`).
+ */
+function findTable(schema: UnifiedSchemaInfo, name: string): UnifiedTableInfo | undefined {
+  return schema.tables.find((t) => t.name === name) || schema.tables.find((t) => t.name.split('.').pop() === name);
+}
+
+function toDeprecation(value: DeprecationAnnotation | undefined): UnifiedDeprecation | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return {};
+  if (typeof value === 'string') return { reason: value };
+  return value;
+}
+
+function columnAnnotation(value: ColumnAnnotation | string): ColumnAnnotation {
+  return typeof value === 'string' ? { description: value } : value || {};
+}
+
+function exampleName(example: UnifiedQueryExample, index: number): UnifiedQueryExample {
+  return { ...example, name: example.name || `Example ${index + 1}` };
+}
+
+/**
+ * Merge annotations into the schema. Authored descriptions replace database
+ * comments; references that no longer match the schema are left out (see
+ * `findStaleAnnotations`).
+ */
+export function applyAnnotations(schema: UnifiedSchemaInfo, annotations: SchemaAnnotations | null): UnifiedSchemaInfo {
+  if (!annotations) {
+    return schema;
+  }
+
+  const byTable = new Map<UnifiedTableInfo, TableAnnotation>();
+  for (const [name, annotation] of Object.entries(annotations.tables || {})) {
+    const table = findTable(schema, name);
+    if (table && annotation) byTable.set(table, annotation);
+  }
+
+  const tables = schema.tables.map((table) => {
+    const annotation = byTable.get(table);
+    if (!annotation) return table;
+
+    const columns = table.columns.map((column): UnifiedColumnInfo => {
+      const raw = annotation.columns?.[column.name];
+      if (raw === undefined) return column;
+      const { description, invariants, deprecated } = columnAnnotation(raw);
+      const deprecation = toDeprecation(deprecated);
+      return {
+        ...column,
+        ...(description ? { description } : {}),
+        ...(invariants?.length ? { invariants } : {}),
+        ...(deprecation ? { deprecated: deprecation } : {}),
+      };
+    });
+    const deprecation = toDeprecation(annotation.deprecated);
+
+    return {
+      ...table,
+      columns,
+      ...(annotation.description ? { description: annotation.description } : {}),
+      ...(annotation.invariants?.length ? { invariants: annotation.invariants } : {}),
+      ...(annotation.examples?.length ? { examples: annotation.examples.map(exampleName) } : {}),
+      ...(deprecation ? { deprecated: deprecation } : {}),
+    };
+  });
+
+  const enums = schema.enums?.map((e) => {
+    const annotation = annotations.enums?.[e.name];
+    if (!annotation) return e;
+    const valueDescriptions = Object.fromEntries(
+      Object.entries(annotation.values || {}).filter(([value]) => e.values.includes(value))
+    );
+    return {
+      ...e,
+      ...(annotation.description ? { description: annotation.description } : {}),
+      ...(Object.keys(valueDescriptions).length > 0 ? { valueDescriptions } : {}),
+    };
+  });
+
+  return {
+    ...schema,
+    tables,
+    ...(enums ? { enums } : {}),
+    ...(annotations.invariants?.length ? { invariants: annotations.invariants } : {}),
+    ...(annotations.examples?.length ? { examples: annotations.examples.map(exampleName) } : {}),
+  };
+}
+
+/**
+ * Validation findings for the annotations file in `aiDir`: stale references,
+ * or a single error naming the file when it cannot be parsed.
+ */
+export function checkAnnotations(aiDir: string, schema: UnifiedSchemaInfo): ValidationFinding[] {
+  let annotations: SchemaAnnotations | null;
+  try {
+    annotations = loadAnnotations(aiDir);
+  } catch (error) {
+    return [{
+      severity: 'error',
+      rule: 'annotation-invalid',
+      message: error instanceof Error ? error.message : String(error),
+    }];
+  }
+  return findStaleAnnotations(annotations, schema);
+}
+
+/**
+ * Annotations pointing at tables, columns, enums or enum values the current
+ * schema no longer has. Their text is dropped from the generated context.
+ */
+export function findStaleAnnotations(annotations: SchemaAnnotations | null, schema: UnifiedSchemaInfo): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  if (!annotations) return findings;
+
+  const stale = (message: string, table?: string, column?: string): ValidationFinding => ({
+    severity: 'warning',
+    rule: 'annotation-stale',
+    message: `${ANNOTATIONS_FILE_NAME}: ${message}`,
+    ...(table ? { table } : {}),
+    ...(column ? { column } : {}),
+  });
+
+  for (const [name, annotation] of Object.entries(annotations.tables || {})) {
+    const table = findTable(schema, name);
+    if (!table) {
+      findings.push(stale(`table '${name}' no longer exists`, name));
+      continue;
+    }
+
+    const columnNames = new Set(table.columns.map((c) => c.name));
+    for (const [columnName, raw] of Object.entries(annotation?.columns || {})) {
+      if (!columnNames.has(columnName)) {
+        findings.push(stale(`column '${table.name}.${columnName}' no longer exists`, table.name, columnName));
+        continue;
+      }
+      const replacedBy = toDeprecation(columnAnnotation(raw).deprecated)?.replacedBy;
+      if (replacedBy && !columnNames.has(replacedBy)) {
+        findings.push(stale(`'${table.name}.${columnName}' is replaced by '${replacedBy}', which does not exist`, table.name, columnName));
+      }
+    }
+
+    const replacedBy = toDeprecation(annotation?.deprecated)?.replacedBy;
+    if (replacedBy && !findTable(schema, replacedBy)) {
+      findings.push(stale(`'${table.name}' is replaced by '${replacedBy}', which does not exist`, table.name));
+    }
+  }
+
+  for (const [name, annotation] of Object.entries(annotations.enums || {})) {
+    const existing = (schema.enums || []).find((e) => e.name === name);
+    if (!existing) {
+      findings.push(stale(`enum '${name}' no longer exists`));
+      continue;
+    }
+    for (const value of Object.keys(annotation?.values || {})) {
+      if (!existing.values.includes(value)) {
+        findings.push(stale(`enum '${name}' has no value '${value}'`));
+      }
+    }
+  }
+
+  return findings;
+}
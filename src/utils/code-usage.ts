@@ -0,0 +1,92 @@
+/**
+ * Code Usage
+ * Finds the source files that mention each table, to scope editor rules to the code that uses it
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.rb', '.go', '.java', '.kt', '.php', '.cs', '.rs',
+  '.sql', '.prisma', '.graphql', '.vue', '.svelte',
+]);
+
+const SKIPPED_DIRECTORIES = new Set([
+  'node_modules', '.git', 'dist', 'build', 'out', 'coverage', 'vendor', '.next', '.nuxt', '.ai', '.cursor', 'target',
+]);
+
+/** Stop after this many files so large monorepos stay fast */
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 512 * 1024;
+
+/**
+ * How code refers to a table: `order_items`, `orderItems`, `OrderItem`.
+ */
+export function tableNamePattern(table: string): RegExp {
+  const bare = table.split('.').pop() || table;
+  const camel = bare.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+  const pascal = camel.charAt(0).toUpperCase() + camel.slice(1);
+  const singular = pascal.replace(/(ies|s)$/, (suffix) => (suffix === 'ies' ? 'y' : ''));
+  const names = Array.from(new Set([bare, camel, pascal, singular])).filter((n) => n.length > 2);
+  const escaped = names.map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`\\b(${escaped.join('|')})\\b`);
+}
+
+function listSourceFiles(rootDir: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (files.length >= MAX_FILES) return;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+          walk(path.join(dir, entry.name));
+        }
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+        files.push(path.join(dir, entry.name));
+      }
+    }
+  };
+  walk(rootDir);
+  return files;
+}
+
+/**
+ * Files under `rootDir` mentioning each table, as `/`-separated relative paths.
+ */
+export function findTableUsage(rootDir: string, tables: string[]): Record<string, string[]> {
+  const usage: Record<string, string[]> = Object.fromEntries(tables.map((t) => [t, []]));
+  const patterns = tables.map((table) => [table, tableNamePattern(table)] as const);
+
+  for (const file of listSourceFiles(rootDir)) {
+    let content: string;
+    try {
+      if (fs.statSync(file).size > MAX_FILE_BYTES) continue;
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    const relative = path.relative(rootDir, file).split(path.sep).join('/');
+    for (const [table, pattern] of patterns) {
+      if (pattern.test(content)) usage[table].push(relative);
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * Collapse files into directory globs (`src/billing/**`); files at the root stay as they are.
+ */
+export function usageGlobs(files: string[], limit = 10): string[] {
+  const directories = Array.from(new Set(files.map((f) => (f.includes('/') ? `${path.posix.dirname(f)}/**` : f)))).sort();
+  const collapsed = directories.filter((glob) =>
+    !directories.some((other) => other !== glob && other.endsWith('/**') && glob.startsWith(other.slice(0, -2)))
+  );
+  return collapsed.slice(0, limit);
+}
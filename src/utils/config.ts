@@ -0,0 +1,216 @@
+/**
+ * Configuration Loader
+ * Reads .cohererc / .ai/cohere-config.json shared by every command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExtractorType, UnifiedSchemaInfo } from '../extractors/index.js';
+
+/**
+ * Per-file switches for the generator. Everything defaults to enabled;
+ * CLAUDE.md and the schema snapshot are always written.
+ */
+export interface GeneratorToggles {
+  agents?: boolean;
+  /** DATABASE.md, the reference for people */
+  database?: boolean;
+  /** Mermaid and DBML diagrams in diagrams/ */
+  diagrams?: boolean;
+  /** TypeScript row, insert and update types in types/database.ts */
+  types?: boolean;
+  queries?: boolean;
+  edgeCases?: boolean;
+  constraints?: boolean;
+  testTemplates?: boolean;
+  memory?: boolean;
+  handoffs?: boolean;
+  decisions?: boolean;
+  context?: boolean;
+}
+
+export interface CohereConfig {
+  extractor?: ExtractorType;
+  databaseUrl?: string;
+  schemaPath?: string;
+  outputDir?: string;
+  /** PostgreSQL schemas, comma-separated */
+  schema?: string;
+  allSchemas?: boolean;
+  format?: string;
+  include?: string[];
+  exclude?: string[];
+  sampleSize?: number;
+  /** Include the SQL of views in the extracted schema */
+  viewDefinitions?: boolean;
+  /** Include the source of functions, procedures and triggers */
+  routineBodies?: boolean;
+  firebaseProject?: string;
+  firebaseKey?: string;
+  generators?: GeneratorToggles;
+  /** Document each table on its own page under <outputDir>/tables */
+  splitTables?: boolean;
+  /** Assistant files to write, e.g. ["claude", "agents", "copilot"] */
+  targets?: string[];
+  /** Write Cursor rules to .cursor/rules */
+  cursor?: boolean;
+  /** Domain name → table patterns, for per-domain outputs */
+  domains?: Record<string, string[]>;
+  /** Directory of template overrides (default: `<outputDir>/templates`) */
+  templateDir?: string;
+  /** Existing files to inject the schema section into, e.g. ["CLAUDE.md", "AGENTS.md"] */
+  inject?: string[];
+}
+
+export interface LoadedConfig {
+  config: CohereConfig;
+  /** File the config was read from, or null when running on defaults */
+  path: string | null;
+}
+
+/**
+ * Looked up in order; the first existing file wins.
+ */
+export const CONFIG_FILE_NAMES = ['.cohererc', '.cohererc.json', path.join('.ai', 'cohere-config.json')];
+
+/**
+ * Schema files used by the ORM extractors when no schemaPath is configured.
+ */
+export const DEFAULT_SCHEMA_PATHS: Partial<Record<ExtractorType, string>> = {
+  prisma: 'prisma/schema.prisma',
+  drizzle: 'src/db/schema.ts',
+};
+
+const EXTRACTOR_TYPES: ExtractorType[] = ['postgresql', 'mysql', 'sqlite', 'prisma', 'drizzle', 'mongodb', 'firebase'];
+
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+export function loadConfig(cwd: string = process.cwd()): LoadedConfig {
+  const configPath = findConfigFile(cwd);
+  if (!configPath) {
+    return { config: {}, path: null };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${configPath}: ${(error as Error).message}`);
+  }
+
+  const config = interpolateEnv(raw) as CohereConfig;
+  validateConfig(config, configPath);
+
+  return { config, path: configPath };
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in every string value with the
+ * environment variable, so secrets can stay out of the committed config.
+ */
+export function interpolateEnv<T>(value: T, env: NodeJS.ProcessEnv = process.env): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) =>
+      env[name] ?? fallback ?? ''
+    ) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, env)) as unknown as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)])
+    ) as T;
+  }
+  return value;
+}
+
+function validateConfig(config: CohereConfig, configPath: string): void {
+  if (config.extractor && !EXTRACTOR_TYPES.includes(config.extractor)) {
+    throw new Error(
+      `Invalid extractor "${config.extractor}" in ${configPath}. Use one of: ${EXTRACTOR_TYPES.join(', ')}`
+    );
+  }
+  for (const key of ['include', 'exclude'] as const) {
+    if (config[key] !== undefined && !Array.isArray(config[key])) {
+      throw new Error(`"${key}" in ${configPath} must be an array of table patterns`);
+    }
+  }
+  if (config.domains !== undefined) {
+    const valid = typeof config.domains === 'object' && config.domains !== null && !Array.isArray(config.domains) &&
+      Object.values(config.domains).every(Array.isArray);
+    if (!valid) {
+      throw new Error(`"domains" in ${configPath} must map domain names to arrays of table patterns`);
+    }
+  }
+  if (config.targets !== undefined && !Array.isArray(config.targets)) {
+    throw new Error(`"targets" in ${configPath} must be an array of target names`);
+  }
+  if (config.inject !== undefined && !Array.isArray(config.inject)) {
+    throw new Error(`"inject" in ${configPath} must be an array of file paths`);
+  }
+  if (config.sampleSize !== undefined && (!Number.isInteger(config.sampleSize) || config.sampleSize <= 0)) {
+    throw new Error(`"sampleSize" in ${configPath} must be a positive integer`);
+  }
+}
+
+/**
+ * Parse a comma-separated CLI list (`--include users,order_*`).
+ */
+export function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a positive integer CLI option (`--sample-size 200`), rejecting
+ * anything `parseInt` would silently truncate or turn into `NaN`.
+ */
+export function parsePositiveInteger(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\s*\d+\s*$/.test(value) || Number(value) <= 0) {
+    throw new Error(`${option} must be a positive integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+export function matchesPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => patternToRegExp(pattern).test(name));
+}
+
+/**
+ * Keep tables matching `include` (all when empty) and not matching `exclude`.
+ * Patterns support `*` and `?` wildcards and are case-insensitive; qualified
+ * names (`auth.users`) also match patterns written for the bare table name.
+ */
+export function applyTableFilters(
+  schema: UnifiedSchemaInfo,
+  include: string[] = [],
+  exclude: string[] = []
+): UnifiedSchemaInfo {
+  if (include.length === 0 && exclude.length === 0) {
+    return schema;
+  }
+
+  return {
+    ...schema,
+    tables: schema.tables.filter((table) => {
+      const names = [table.name, table.name.split('.').pop() || table.name];
+      const matches = (patterns: string[]) => names.some((name) => matchesPattern(name, patterns));
+      return (include.length === 0 || matches(include)) && !matches(exclude);
+    }),
+  };
+}
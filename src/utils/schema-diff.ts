@@ -0,0 +1,309 @@
+/**
+ * Schema Diff
+ * Structural comparison of two unified schemas
+ */
+
+import type {
+  UnifiedColumnInfo,
+  UnifiedIndexInfo,
+  UnifiedRelationInfo,
+  UnifiedSchemaInfo,
+  UnifiedTableInfo,
+} from '../extractors/index.js';
+import { relationColumns } from '../extractors/index.js';
+
+export type SchemaChangeKind = 'added' | 'removed' | 'changed';
+
+export type SchemaObjectType = 'table' | 'column' | 'index' | 'foreignKey';
+
+export type SchemaChangeProperty =
+  | 'type'
+  | 'nullable'
+  | 'default'
+  | 'primaryKey'
+  | 'unique'
+  | 'columns'
+  | 'onDelete'
+  | 'onUpdate';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  object: SchemaObjectType;
+  table: string;
+  /** Column, index or foreign key name; the table name for table-level changes */
+  name: string;
+  property?: SchemaChangeProperty;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SchemaDiff {
+  from: string;
+  to: string;
+  changes: SchemaChange[];
+  summary: Record<SchemaChangeKind, number>;
+}
+
+export function diffSchemas(
+  from: UnifiedSchemaInfo,
+  to: UnifiedSchemaInfo,
+  labels: { from?: string; to?: string } = {}
+): SchemaDiff {
+  const changes: SchemaChange[] = [];
+  const fromTables = new Map(from.tables.map((t) => [t.name, t]));
+  const toTables = new Map(to.tables.map((t) => [t.name, t]));
+
+  for (const [name, table] of toTables) {
+    if (!fromTables.has(name)) {
+      changes.push({ kind: 'added', object: 'table', table: name, name, after: summarizeTable(table) });
+    }
+  }
+
+  for (const [name, table] of fromTables) {
+    const next = toTables.get(name);
+    if (!next) {
+      changes.push({ kind: 'removed', object: 'table', table: name, name, before: summarizeTable(table) });
+      continue;
+    }
+    changes.push(...diffColumns(table, next));
+    changes.push(...diffIndexes(table, next));
+    changes.push(...diffForeignKeys(table, next));
+  }
+
+  const summary: Record<SchemaChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  changes.forEach((change) => summary[change.kind]++);
+
+  return {
+    from: labels.from || from.source || from.databaseType,
+    to: labels.to || to.source || to.databaseType,
+    changes,
+    summary,
+  };
+}
+
+function diffColumns(from: UnifiedTableInfo, to: UnifiedTableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const fromColumns = new Map(from.columns.map((c) => [c.name, c]));
+  const toColumns = new Map(to.columns.map((c) => [c.name, c]));
+
+  for (const [name, column] of toColumns) {
+    if (!fromColumns.has(name)) {
+      changes.push({ kind: 'added', object: 'column', table: to.name, name, after: column.type });
+    }
+  }
+
+  for (const [name, column] of fromColumns) {
+    const next = toColumns.get(name);
+    if (!next) {
+      changes.push({ kind: 'removed', object: 'column', table: from.name, name, before: column.type });
+      continue;
+    }
+
+    const properties: [SchemaChangeProperty, (c: UnifiedColumnInfo) => unknown][] = [
+      ['type', (c) => c.type],
+      ['nullable', (c) => c.nullable],
+      ['default', (c) => c.default ?? null],
+      ['primaryKey', (c) => c.isPrimaryKey],
+      ['unique', (c) => c.isUnique],
+    ];
+    for (const [property, read] of properties) {
+      const before = read(column);
+      const after = read(next);
+      if (before !== after) {
+        changes.push({ kind: 'changed', object: 'column', table: from.name, name, property, before, after });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function diffIndexes(from: UnifiedTableInfo, to: UnifiedTableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const fromIndexes = new Map(from.indexes.map((i) => [i.name, i]));
+  const toIndexes = new Map(to.indexes.map((i) => [i.name, i]));
+
+  for (const [name, index] of toIndexes) {
+    if (!fromIndexes.has(name)) {
+      changes.push({ kind: 'added', object: 'index', table: to.name, name, after: describeIndex(index) });
+    }
+  }
+
+  for (const [name, index] of fromIndexes) {
+    const next = toIndexes.get(name);
+    if (!next) {
+      changes.push({ kind: 'removed', object: 'index', table: from.name, name, before: describeIndex(index) });
+      continue;
+    }
+    if (index.columns.join(',') !== next.columns.join(',')) {
+      changes.push({
+        kind: 'changed', object: 'index', table: from.name, name,
+        property: 'columns', before: index.columns, after: next.columns,
+      });
+    }
+    if (index.unique !== next.unique) {
+      changes.push({
+        kind: 'changed', object: 'index', table: from.name, name,
+        property: 'unique', before: index.unique, after: next.unique,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function diffForeignKeys(from: UnifiedTableInfo, to: UnifiedTableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const fromKeys = new Map(from.relations.map((r) => [foreignKeyName(r), r]));
+  const toKeys = new Map(to.relations.map((r) => [foreignKeyName(r), r]));
+
+  for (const [name] of toKeys) {
+    if (!fromKeys.has(name)) {
+      changes.push({ kind: 'added', object: 'foreignKey', table: to.name, name });
+    }
+  }
+
+  for (const [name, relation] of fromKeys) {
+    const next = toKeys.get(name);
+    if (!next) {
+      changes.push({ kind: 'removed', object: 'foreignKey', table: from.name, name });
+      continue;
+    }
+    for (const property of ['onDelete', 'onUpdate'] as const) {
+      const before = normalizeAction(relation[property]);
+      const after = normalizeAction(next[property]);
+      if (before !== after) {
+        changes.push({ kind: 'changed', object: 'foreignKey', table: from.name, name, property, before, after });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * `user_id → users.id`, or `(tenant_id, user_id) → users.(tenant_id, id)` for composite keys.
+ */
+export function foreignKeyName(relation: UnifiedRelationInfo): string {
+  const { from, to } = relationColumns(relation);
+  if (from.length === 1) return `${from[0]} → ${relation.toTable}.${to[0]}`;
+  return `(${from.join(', ')}) → ${relation.toTable}.(${to.join(', ')})`;
+}
+
+function normalizeAction(action: string | undefined | null): string {
+  return (action || 'NO ACTION').toUpperCase();
+}
+
+function describeIndex(index: UnifiedIndexInfo): string {
+  return `${index.unique ? 'unique ' : ''}(${index.columns.join(', ')})`;
+}
+
+function summarizeTable(table: UnifiedTableInfo): string {
+  return `${table.columns.length} columns`;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const OBJECT_LABELS: Record<SchemaObjectType, string> = {
+  table: 'table',
+  column: 'column',
+  index: 'index',
+  foreignKey: 'foreign key',
+};
+
+/**
+ * One-line, format-neutral description of a change (without the table prefix
+ * for non-table objects).
+ */
+export function describeChange(change: SchemaChange): string {
+  const label = `${OBJECT_LABELS[change.object]} \`${change.name}\``;
+
+  switch (change.kind) {
+    case 'added':
+      return `Added ${label}${change.after !== undefined ? ` (${formatValue(change.after)})` : ''}`;
+    case 'removed':
+      return `Removed ${label}${change.before !== undefined ? ` (${formatValue(change.before)})` : ''}`;
+    case 'changed':
+      return `Changed ${change.property} of ${label}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'none';
+  if (Array.isArray(value)) return `(${value.join(', ')})`;
+  return String(value);
+}
+
+export function formatDiffHuman(diff: SchemaDiff): string {
+  let output = `Schema diff: ${diff.from} → ${diff.to}\n\n`;
+
+  if (diff.changes.length === 0) {
+    return output + 'No changes.\n';
+  }
+
+  const symbols: Record<SchemaChangeKind, string> = { added: '+', removed: '-', changed: '~' };
+
+  for (const [table, changes] of groupByTable(diff.changes)) {
+    const tableChange = changes.find((c) => c.object === 'table');
+    if (tableChange) {
+      output += `${symbols[tableChange.kind]} ${table}\n`;
+      continue;
+    }
+    output += `~ ${table}\n`;
+    for (const change of changes) {
+      output += `    ${symbols[change.kind]} ${describeChange(change).replace(/`/g, '')}\n`;
+    }
+  }
+
+  output += `\n${diff.summary.added} added, ${diff.summary.removed} removed, ${diff.summary.changed} changed\n`;
+  return output;
+}
+
+export function formatDiffMarkdown(diff: SchemaDiff, timestamp: string = new Date().toISOString()): string {
+  let output = '# Schema Changelog\n\n';
+  output += `> Compared \`${diff.from}\` → \`${diff.to}\` on ${timestamp}\n\n`;
+
+  if (diff.changes.length === 0) {
+    return output + 'No changes.\n';
+  }
+
+  const tableChanges = diff.changes.filter((c) => c.object === 'table');
+  const added = tableChanges.filter((c) => c.kind === 'added');
+  const removed = tableChanges.filter((c) => c.kind === 'removed');
+
+  if (added.length > 0) {
+    output += '## Added Tables\n\n';
+    added.forEach((c) => (output += `- \`${c.table}\` (${formatValue(c.after)})\n`));
+    output += '\n';
+  }
+
+  if (removed.length > 0) {
+    output += '## Removed Tables\n\n';
+    removed.forEach((c) => (output += `- \`${c.table}\`\n`));
+    output += '\n';
+  }
+
+  const changed = Array.from(groupByTable(diff.changes.filter((c) => c.object !== 'table')));
+  if (changed.length > 0) {
+    output += '## Changed Tables\n\n';
+    for (const [table, changes] of changed) {
+      output += `### ${table}\n\n`;
+      changes.forEach((c) => (output += `- ${describeChange(c)}\n`));
+      output += '\n';
+    }
+  }
+
+  return output;
+}
+
+function groupByTable(changes: SchemaChange[]): Map<string, SchemaChange[]> {
+  const groups = new Map<string, SchemaChange[]>();
+  for (const change of changes) {
+    const group = groups.get(change.table) || [];
+    group.push(change);
+    groups.set(change.table, group);
+  }
+  return groups;
+}
@@ -0,0 +1,126 @@
+/**
+ * Schema Validation
+ * Classifies drift between the generation-time snapshot and the current schema
+ */
+
+import type { UnifiedSchemaInfo } from '../extractors/index.js';
+import { describeChange, diffSchemas, SchemaChange } from './schema-diff.js';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationFinding {
+  severity: FindingSeverity;
+  /** Stable identifier, e.g. `column-type-changed` */
+  rule: string;
+  message: string;
+  table?: string;
+  column?: string;
+}
+
+export const SEVERITY_ORDER: FindingSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Every rule a finding can carry, with the description reporters publish.
+ */
+export const VALIDATION_RULES: Record<string, string> = {
+  'table-removed': 'Documented table no longer exists',
+  'table-undocumented': 'Table exists but is missing from the generated context',
+  'column-removed': 'Documented column no longer exists',
+  'column-undocumented': 'Column exists but is missing from the generated context',
+  'column-type-changed': 'Column type differs from the generated context',
+  'column-nullability-changed': 'Column nullability differs from the generated context',
+  'column-uniqueness-changed': 'Column uniqueness differs from the generated context',
+  'column-default-changed': 'Column default differs from the generated context',
+  'primary-key-changed': 'Primary key membership differs from the generated context',
+  'foreign-key-removed': 'Documented foreign key no longer exists',
+  'foreign-key-undocumented': 'Foreign key exists but is missing from the generated context',
+  'foreign-key-action-changed': 'Foreign key ON DELETE/ON UPDATE action changed',
+  'index-removed': 'Documented index no longer exists',
+  'index-undocumented': 'Index exists but is missing from the generated context',
+  'index-changed': 'Index columns or uniqueness changed',
+  'annotation-stale': 'Annotation refers to a table, column or enum that no longer exists',
+  'annotation-invalid': 'Annotations file could not be parsed',
+  'context-unversioned': 'CLAUDE.md carries no snapshot marker',
+  'context-out-of-sync': 'CLAUDE.md was generated from a different snapshot',
+  'context-missing': 'Configuration, generated context or snapshot not found',
+  'extraction-failed': 'Current schema could not be extracted',
+};
+
+/**
+ * Compare the schema the context was generated from against the current one.
+ * Errors are changes that make the documented schema actively wrong (an
+ * assistant following it would write failing queries); warnings are gaps;
+ * info is drift that does not affect query correctness.
+ */
+export function validateAgainstSnapshot(
+  snapshot: UnifiedSchemaInfo,
+  current: UnifiedSchemaInfo
+): ValidationFinding[] {
+  const { changes } = diffSchemas(snapshot, current);
+  return changes.map(classifyChange);
+}
+
+function classifyChange(change: SchemaChange): ValidationFinding {
+  const [severity, rule] = classify(change);
+  const isColumn = change.object === 'column';
+
+  return {
+    severity,
+    rule,
+    message: change.object === 'table'
+      ? describeTableChange(change)
+      : `${change.table}: ${describeChange(change).replace(/`/g, "'")}`,
+    table: change.table,
+    column: isColumn ? change.name : undefined,
+  };
+}
+
+function classify(change: SchemaChange): [FindingSeverity, string] {
+  switch (change.object) {
+    case 'table':
+      return change.kind === 'removed'
+        ? ['error', 'table-removed']
+        : ['warning', 'table-undocumented'];
+
+    case 'column':
+      if (change.kind === 'added') return ['warning', 'column-undocumented'];
+      if (change.kind === 'removed') return ['error', 'column-removed'];
+      switch (change.property) {
+        case 'type':
+          return ['error', 'column-type-changed'];
+        case 'nullable':
+          // Newly NOT NULL breaks inserts written from the docs
+          return change.after === false
+            ? ['error', 'column-nullability-changed']
+            : ['warning', 'column-nullability-changed'];
+        case 'primaryKey':
+          return ['error', 'primary-key-changed'];
+        case 'unique':
+          return ['warning', 'column-uniqueness-changed'];
+        default:
+          return ['info', 'column-default-changed'];
+      }
+
+    case 'foreignKey':
+      if (change.kind === 'added') return ['warning', 'foreign-key-undocumented'];
+      if (change.kind === 'removed') return ['error', 'foreign-key-removed'];
+      return ['warning', 'foreign-key-action-changed'];
+
+    case 'index':
+      if (change.kind === 'removed') return ['info', 'index-removed'];
+      if (change.kind === 'added') return ['info', 'index-undocumented'];
+      return ['info', 'index-changed'];
+  }
+}
+
+function describeTableChange(change: SchemaChange): string {
+  return change.kind === 'removed'
+    ? `Table '${change.table}' is documented but no longer exists`
+    : `Table '${change.table}' exists in schema but not in generated context`;
+}
+
+export function countBySeverity(findings: ValidationFinding[]): Record<FindingSeverity, number> {
+  const counts: Record<FindingSeverity, number> = { error: 0, warning: 0, info: 0 };
+  findings.forEach((finding) => counts[finding.severity]++);
+  return counts;
+}
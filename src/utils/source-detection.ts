@@ -0,0 +1,244 @@
+/**
+ * Source Detection
+ * Decides which extractor reads the schema, shared by every command
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExtractorType } from '../extractors/index.js';
+import { CohereConfig, DEFAULT_SCHEMA_PATHS } from './config.js';
+
+/**
+ * Source hints accepted from the command line. Compatible with GenerateOptions.
+ */
+export interface SourceOptions {
+  url?: string;
+  orm?: string;
+  mysql?: boolean;
+  sqlite?: string;
+  prisma?: string | boolean;
+  drizzle?: string | boolean;
+  mongodb?: string;
+  firebaseProject?: string;
+  firebaseKey?: string;
+}
+
+export type SourceOrigin = 'flag' | 'config' | 'environment' | 'project-file';
+
+export interface SourceDescriptor {
+  extractor: ExtractorType;
+  /** Connection URL or SQLite file path; empty for schema files and Firebase */
+  connection: string;
+  schemaPath?: string;
+  projectId?: string;
+  serviceAccountPath?: string;
+  origin: SourceOrigin;
+  /** Why this source was chosen, e.g. `DATABASE_URL uses the mysql:// scheme` */
+  reason: string;
+}
+
+export interface DetectionContext {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Precedence used by detectSource, printed when nothing matches.
+ */
+export const DETECTION_ORDER = [
+  'Command line flags (--url, --sqlite, --prisma, --drizzle, --orm, --mysql)',
+  '"extractor" in the config file',
+  '"databaseUrl" in the config file',
+  'DATABASE_URL environment variable',
+  'prisma/schema.prisma',
+  'drizzle.config.ts or src/db/schema.ts',
+  'Firebase project (config "firebaseProject" or GOOGLE_APPLICATION_CREDENTIALS)',
+];
+
+const URL_SCHEMES: Record<string, ExtractorType> = {
+  postgres: 'postgresql',
+  postgresql: 'postgresql',
+  mysql: 'mysql',
+  mariadb: 'mysql',
+  mongodb: 'mongodb',
+  'mongodb+srv': 'mongodb',
+  sqlite: 'sqlite',
+  file: 'sqlite',
+};
+
+const SQLITE_EXTENSIONS = /\.(db|sqlite|sqlite3)$/i;
+
+/**
+ * Map a connection string to its extractor. Supports postgres(ql)://, mysql://,
+ * mongodb(+srv)://, sqlite:// and file: URLs, plus bare SQLite file paths.
+ */
+export function classifyConnection(url: string): { extractor: ExtractorType; connection: string; prefix?: string } {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):(\/\/)?/i);
+  const scheme = match?.[1].toLowerCase();
+
+  // No scheme, or a Windows drive letter
+  if (!scheme || scheme.length === 1) {
+    if (SQLITE_EXTENSIONS.test(url)) {
+      return { extractor: 'sqlite', connection: url };
+    }
+    throw new Error(
+      `Cannot determine the database type of "${redactConnection(url)}". ` +
+      'Use a postgres://, mysql://, mongodb://, sqlite:// or file: URL.'
+    );
+  }
+
+  const extractor = URL_SCHEMES[scheme];
+  if (!extractor) {
+    throw new Error(`Unsupported connection URL scheme "${scheme}:". Use postgres, mysql, mongodb, sqlite or file.`);
+  }
+
+  return {
+    extractor,
+    connection: extractor === 'sqlite' ? toSqlitePath(url) : url,
+    prefix: match[0].toLowerCase(),
+  };
+}
+
+/**
+ * `sqlite:///abs/app.db` → `/abs/app.db`, `file:./dev.db` → `./dev.db`
+ */
+function toSqlitePath(url: string): string {
+  return url.replace(/^(sqlite|file):(\/\/)?/i, '').replace(/\?.*$/, '');
+}
+
+export function redactConnection(connection: string): string {
+  return connection.replace(/:[^:@/]*@/, ':***@');
+}
+
+/**
+ * Label used as the schema `source`, without credentials.
+ */
+export function describeSource(source: SourceDescriptor): string {
+  if (source.schemaPath) return source.schemaPath;
+  if (source.connection) return redactConnection(source.connection);
+  return source.projectId ? `firebase://${source.projectId}` : source.extractor;
+}
+
+/**
+ * Resolve where the schema comes from: flags, then config, then environment,
+ * then files in the project. Returns null when nothing matches.
+ */
+export function detectSource(
+  options: SourceOptions = {},
+  config: CohereConfig = {},
+  context: DetectionContext = {}
+): SourceDescriptor | null {
+  const cwd = context.cwd || process.cwd();
+  const env = context.env || process.env;
+  const exists = (file: string) => fs.existsSync(path.join(cwd, file));
+  const firebase = {
+    projectId: options.firebaseProject || config.firebaseProject,
+    serviceAccountPath: options.firebaseKey || config.firebaseKey,
+  };
+  const connectionUrl = options.url || config.databaseUrl || env.DATABASE_URL || '';
+
+  // Command line flags
+  if (options.sqlite) {
+    return { extractor: 'sqlite', connection: toSqlitePath(options.sqlite), origin: 'flag', reason: '--sqlite flag' };
+  }
+  if (options.prisma) {
+    return schemaFile('prisma', typeof options.prisma === 'string' ? options.prisma : undefined, 'flag', '--prisma flag');
+  }
+  if (options.drizzle) {
+    return schemaFile('drizzle', typeof options.drizzle === 'string' ? options.drizzle : undefined, 'flag', '--drizzle flag');
+  }
+  if (options.orm) {
+    if (options.orm !== 'prisma' && options.orm !== 'drizzle') {
+      throw new Error(`Unsupported ORM: ${options.orm}. Use prisma or drizzle.`);
+    }
+    return schemaFile(options.orm, config.schemaPath, 'flag', `--orm ${options.orm}`);
+  }
+  if (options.mongodb) {
+    return fromUrl(options.mongodb, 'flag', '--mongodb');
+  }
+  if (options.mysql) {
+    if (!connectionUrl) {
+      throw new Error('MySQL connection URL required. Use --url or DATABASE_URL env var.');
+    }
+    return { extractor: 'mysql', connection: connectionUrl, origin: 'flag', reason: '--mysql flag' };
+  }
+  if (options.url) {
+    return fromUrl(options.url, 'flag', '--url');
+  }
+  if (options.firebaseProject) {
+    return { extractor: 'firebase', connection: '', ...firebase, origin: 'flag', reason: `Firebase project ${options.firebaseProject}` };
+  }
+
+  // Project config
+  if (config.extractor) {
+    return explicit(config.extractor, 'config', `"extractor": "${config.extractor}" in config`, connectionUrl, config.schemaPath, firebase);
+  }
+  if (config.databaseUrl) {
+    return fromUrl(config.databaseUrl, 'config', '"databaseUrl" in config');
+  }
+
+  // Environment
+  if (env.DATABASE_URL) {
+    return fromUrl(env.DATABASE_URL, 'environment', 'DATABASE_URL');
+  }
+
+  // Files in the project
+  if (exists(DEFAULT_SCHEMA_PATHS.prisma)) {
+    return schemaFile('prisma', undefined, 'project-file', `found ${DEFAULT_SCHEMA_PATHS.prisma}`);
+  }
+  if (exists('drizzle.config.ts') || exists(DEFAULT_SCHEMA_PATHS.drizzle)) {
+    const found = exists('drizzle.config.ts') ? 'drizzle.config.ts' : DEFAULT_SCHEMA_PATHS.drizzle;
+    return schemaFile('drizzle', undefined, 'project-file', `found ${found}`);
+  }
+  if (firebase.projectId || env.GOOGLE_APPLICATION_CREDENTIALS) {
+    return {
+      extractor: 'firebase',
+      connection: '',
+      ...firebase,
+      origin: firebase.projectId ? 'config' : 'environment',
+      reason: firebase.projectId ? '"firebaseProject" in config' : 'GOOGLE_APPLICATION_CREDENTIALS is set',
+    };
+  }
+
+  return null;
+}
+
+function fromUrl(url: string, origin: SourceOrigin, label: string): SourceDescriptor {
+  const { extractor, connection, prefix } = classifyConnection(url);
+  const how = prefix ? `uses the ${prefix} scheme` : 'points to a SQLite file';
+  return { extractor, connection, origin, reason: `${label} ${how}` };
+}
+
+function schemaFile(
+  extractor: 'prisma' | 'drizzle',
+  schemaPath: string | undefined,
+  origin: SourceOrigin,
+  reason: string
+): SourceDescriptor {
+  return { extractor, connection: '', schemaPath: schemaPath || DEFAULT_SCHEMA_PATHS[extractor], origin, reason };
+}
+
+function explicit(
+  extractor: ExtractorType,
+  origin: SourceOrigin,
+  reason: string,
+  connectionUrl: string,
+  schemaPath: string | undefined,
+  firebase: { projectId?: string; serviceAccountPath?: string }
+): SourceDescriptor {
+  if (extractor === 'prisma' || extractor === 'drizzle') {
+    return schemaFile(extractor, schemaPath, origin, reason);
+  }
+  if (extractor === 'firebase') {
+    return { extractor, connection: '', ...firebase, origin, reason };
+  }
+  if (!connectionUrl) {
+    throw new Error(`${extractor} connection URL required. Set "databaseUrl" in config, --url or DATABASE_URL env var.`);
+  }
+  return {
+    extractor,
+    connection: extractor === 'sqlite' ? toSqlitePath(connectionUrl) : connectionUrl,
+    origin,
+    reason,
+  };
+}
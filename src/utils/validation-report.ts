@@ -0,0 +1,195 @@
+/**
+ * Validation Reports
+ * Machine-readable reports (JSON, JUnit XML, SARIF) for `cohere-db validate`
+ */
+
+import { FindingSeverity, ValidationFinding, VALIDATION_RULES, countBySeverity } from './schema-validation.js';
+
+export type ValidationReporter = 'json' | 'junit' | 'sarif';
+
+export const VALIDATION_REPORTERS: ValidationReporter[] = ['json', 'junit', 'sarif'];
+
+export type ValidationStatus = 'pass' | 'warnings' | 'errors' | 'failure';
+
+export interface FindingLocation {
+  file: string;
+  line: number;
+}
+
+export interface LocatedFinding extends ValidationFinding {
+  location: FindingLocation;
+}
+
+export interface ValidationReport {
+  status: ValidationStatus;
+  exitCode: number;
+  strict: boolean;
+  summary: Record<FindingSeverity, number>;
+  findings: LocatedFinding[];
+}
+
+/**
+ * Point each finding at the line of the context file an assistant would have
+ * read: the column row, else the table heading, else the top of the file.
+ */
+export function locateFindings(
+  findings: ValidationFinding[],
+  contextFile: string,
+  content: string | null
+): LocatedFinding[] {
+  const lines = content ? content.split('\n') : [];
+  const tablesStart = Math.max(lines.findIndex((l) => l.trim() === '## Tables'), 0);
+
+  return findings.map((finding) => {
+    let line = finding.table ? tablesStart : 0;
+
+    if (finding.table) {
+      const heading = lines.findIndex((l, i) => i >= tablesStart && l.trim() === `### ${finding.table}`);
+      if (heading >= 0) {
+        line = heading;
+
+        if (finding.column) {
+          const row = lines.findIndex(
+            (l, i) => i > heading && l.startsWith(`| \`${finding.column}\` |`)
+          );
+          const nextHeading = lines.findIndex((l, i) => i > heading && l.startsWith('#'));
+          if (row >= 0 && (nextHeading < 0 || row < nextHeading)) {
+            line = row;
+          }
+        }
+      }
+    }
+
+    return { ...finding, location: { file: contextFile, line: line + 1 } };
+  });
+}
+
+export function renderReport(report: ValidationReport, reporter: ValidationReporter): string {
+  switch (reporter) {
+    case 'junit':
+      return renderJUnit(report);
+    case 'sarif':
+      return renderSarif(report);
+    default:
+      return JSON.stringify(report, null, 2) + '\n';
+  }
+}
+
+export function createReport(
+  findings: LocatedFinding[],
+  status: ValidationStatus,
+  exitCode: number,
+  strict: boolean
+): ValidationReport {
+  return { status, exitCode, strict, summary: countBySeverity(findings), findings };
+}
+
+// ============================================================================
+// JUnit XML
+// ============================================================================
+
+/**
+ * One test case per table (plus one for context-level checks). Errors fail
+ * the case; warnings only fail it in strict mode and are otherwise listed in
+ * system-out so they still show up in CI logs.
+ */
+function renderJUnit(report: ValidationReport): string {
+  const groups = new Map<string, LocatedFinding[]>();
+  for (const finding of report.findings) {
+    const name = finding.table || 'context';
+    groups.set(name, [...(groups.get(name) || []), finding]);
+  }
+  if (groups.size === 0) {
+    groups.set('context', []);
+  }
+
+  const isFailure = (f: LocatedFinding) => f.severity === 'error' || (report.strict && f.severity === 'warning');
+  const failureCount = Array.from(groups.values()).filter((g) => g.some(isFailure)).length;
+
+  let output = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  output += `<testsuites name="cohere-db validate" tests="${groups.size}" failures="${failureCount}">\n`;
+  output += `  <testsuite name="schema-context" tests="${groups.size}" failures="${failureCount}">\n`;
+
+  for (const [name, findings] of groups) {
+    const failures = findings.filter(isFailure);
+    const notes = findings.filter((f) => !isFailure(f));
+
+    output += `    <testcase classname="cohere-db.validate" name="${escapeXml(name)}"`;
+    if (failures.length === 0 && notes.length === 0) {
+      output += ' />\n';
+      continue;
+    }
+    output += '>\n';
+
+    for (const finding of failures) {
+      output += `      <failure type="${finding.rule}" message="${escapeXml(finding.message)}">`;
+      output += `${escapeXml(`${finding.location.file}:${finding.location.line}`)}</failure>\n`;
+    }
+    if (notes.length > 0) {
+      const text = notes
+        .map((f) => `[${f.severity}] ${f.rule}: ${f.message} (${f.location.file}:${f.location.line})`)
+        .join('\n');
+      output += `      <system-out>${escapeXml(text)}</system-out>\n`;
+    }
+    output += '    </testcase>\n';
+  }
+
+  output += '  </testsuite>\n';
+  output += '</testsuites>\n';
+  return output;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ============================================================================
+// SARIF 2.1.0
+// ============================================================================
+
+const SARIF_LEVELS: Record<FindingSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+function renderSarif(report: ValidationReport): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'cohere-db',
+            informationUri: 'https://github.com/Nyanlin95/cohere-db',
+            rules: Object.entries(VALIDATION_RULES).map(([id, description]) => ({
+              id,
+              shortDescription: { text: description },
+            })),
+          },
+        },
+        results: report.findings.map((finding) => ({
+          ruleId: finding.rule,
+          level: SARIF_LEVELS[finding.severity],
+          message: { text: finding.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: finding.location.file },
+                region: { startLine: finding.location.line },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
@@ -0,0 +1,53 @@
+import { TemplateGenerator } from '../src/generators/templates.js';
+import { column, foreignKey, primaryKey, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        table('organizations', [primaryKey('id', 'uuid'), column('name', 'text')]),
+        table('projects', [primaryKey('id', 'uuid'), foreignKey('organization_id', 'uuid', 'organizations')]),
+        table('invoices', [primaryKey('id', 'uuid'), foreignKey('organization_id', 'uuid', 'organizations')]),
+    ],
+};
+
+const secured: UnifiedSchemaInfo = {
+    ...schema,
+    tables: schema.tables.map((t) => t.name !== 'projects' ? t : {
+        ...t,
+        rowLevelSecurity: true,
+        forceRowLevelSecurity: true,
+        policies: [
+            { name: 'members_read', command: 'SELECT', permissive: true, roles: ['authenticated'], using: '(organization_id = current_org())' },
+            { name: 'members_write', command: 'INSERT', permissive: false, roles: [], withCheck: '(organization_id = current_org())' },
+        ],
+    }),
+};
+
+describe('Access rules', () => {
+    it('should replace tenant isolation advice with the row-level security policies', () => {
+        const { claudeMd, agentsMd } = new TemplateGenerator().generate(secured);
+
+        expect(claudeMd).not.toContain('## Multi-Tenant Isolation');
+        expect(claudeMd).toContain([
+            '### projects policies',
+            '',
+            '> Forced: the policies apply to the table owner too.',
+            '',
+            '- **members_read** (SELECT) for `authenticated`',
+            '  - Rows: `(organization_id = current_org())`',
+            '- **members_write** (INSERT, restrictive) for `public`',
+            '  - New rows must satisfy: `(organization_id = current_org())`',
+        ].join('\n'));
+        expect(claudeMd).toContain('Tables without row-level security: `organizations`, `invoices`.');
+        expect(agentsMd).toContain('## Access Rules');
+    });
+
+    it('should fall back to tenant isolation when no table has row-level security', () => {
+        const { claudeMd, agentsMd } = new TemplateGenerator().generate(schema);
+
+        expect(claudeMd).toContain('## Multi-Tenant Isolation\n\n- **Tenant key**: `organization_id`');
+        expect(claudeMd).not.toContain('## Access Rules');
+        expect(agentsMd).not.toContain('## Access Rules');
+    });
+});
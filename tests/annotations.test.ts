@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    applyAnnotations,
+    checkAnnotations,
+    findStaleAnnotations,
+    loadAnnotations,
+    parseAnnotations,
+} from '../src/utils/annotations.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const column = (name: string, type = 'text') => ({
+    name, type, nullable: false, default: null, isPrimaryKey: name === 'id', isUnique: false, isForeignKey: false,
+});
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    enums: [{ name: 'order_status', values: ['pending', 'paid'] }],
+    tables: [
+        {
+            name: 'orders',
+            description: 'from COMMENT ON',
+            columns: [column('id', 'uuid'), column('status', 'order_status'), column('legacy_total', 'numeric'), column('total', 'numeric')],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+const annotations = parseAnnotations(`
+tables:
+  orders:
+    description: Customer orders, one per checkout
+    invariants:
+      - total equals the sum of its order_items
+    examples:
+      - name: Unpaid orders
+        sql: SELECT * FROM orders WHERE status = 'pending'
+    columns:
+      status: Payment state
+      legacy_total:
+        deprecated:
+          reason: Kept for reports until Q3
+          replacedBy: total
+      coupon_code: Removed in the last migration
+  invoices:
+    description: Gone
+enums:
+  order_status:
+    values:
+      pending: Awaiting payment
+      refunded: Money returned
+invariants:
+  - Never hard-delete orders
+`);
+
+describe('Annotations', () => {
+    it('should merge descriptions, invariants, deprecations and examples', () => {
+        const merged = applyAnnotations(schema, annotations);
+        const orders = merged.tables[0];
+
+        expect(orders.description).toBe('Customer orders, one per checkout');
+        expect(orders.invariants).toEqual(['total equals the sum of its order_items']);
+        expect(orders.examples).toEqual([{ name: 'Unpaid orders', sql: "SELECT * FROM orders WHERE status = 'pending'" }]);
+        expect(orders.columns.find((c) => c.name === 'status')?.description).toBe('Payment state');
+        expect(orders.columns.find((c) => c.name === 'legacy_total')?.deprecated).toEqual({
+            reason: 'Kept for reports until Q3',
+            replacedBy: 'total',
+        });
+        expect(merged.enums?.[0].valueDescriptions).toEqual({ pending: 'Awaiting payment' });
+        expect(merged.invariants).toEqual(['Never hard-delete orders']);
+        // The extracted schema is left untouched
+        expect(schema.tables[0].description).toBe('from COMMENT ON');
+    });
+
+    it('should render annotations into the generated context', () => {
+        const output = new TemplateGenerator().generate(applyAnnotations(schema, annotations));
+
+        expect(output.claudeMd).toContain('Customer orders, one per checkout');
+        expect(output.claudeMd).toContain('**Deprecated: Kept for reports until Q3, use `total` instead**');
+        expect(output.claudeMd).toContain('## Invariants\n\n- Never hard-delete orders');
+        expect(output.claudeMd).toContain('`pending` (Awaiting payment)');
+        expect(output.queries['orders.sql']).toContain("-- Unpaid orders\nSELECT * FROM orders WHERE status = 'pending';");
+    });
+
+    it('should report annotations that reference missing tables, columns and enum values', () => {
+        const findings = findStaleAnnotations(annotations, schema);
+
+        expect(findings.map((f) => f.message)).toEqual([
+            "annotations.yaml: column 'orders.coupon_code' no longer exists",
+            "annotations.yaml: table 'invoices' no longer exists",
+            "annotations.yaml: enum 'order_status' has no value 'refunded'",
+        ]);
+        expect(findings.every((f) => f.severity === 'warning' && f.rule === 'annotation-stale')).toBe(true);
+    });
+
+    it('should load nothing without a file and reject malformed ones', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-annotations-'));
+        try {
+            expect(loadAnnotations(dir)).toBeNull();
+            fs.writeFileSync(path.join(dir, 'annotations.yaml'), 'tables:\n  - orders\n');
+            expect(() => loadAnnotations(dir)).toThrow('"tables"');
+
+            // validate reports a broken file instead of aborting
+            fs.writeFileSync(path.join(dir, 'annotations.yaml'), 'tables: [orders\n');
+            const [finding] = checkAnnotations(dir, schema);
+            expect(finding).toMatchObject({ severity: 'error', rule: 'annotation-invalid' });
+            expect(finding.message).toContain(`Invalid YAML in ${path.join(dir, 'annotations.yaml')}`);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
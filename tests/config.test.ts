@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyTableFilters, interpolateEnv, loadConfig, parseList, parsePositiveInteger } from '../src/utils/config.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const table = (name: string) => ({ name, columns: [], indexes: [], relations: [], primaryKey: [] });
+
+describe('config loader', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-config-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return defaults when no config file exists', () => {
+        expect(loadConfig(dir)).toEqual({ config: {}, path: null });
+    });
+
+    it('should prefer .cohererc over .ai/cohere-config.json', () => {
+        fs.mkdirSync(path.join(dir, '.ai'));
+        fs.writeFileSync(path.join(dir, '.ai', 'cohere-config.json'), JSON.stringify({ outputDir: '.ai' }));
+        fs.writeFileSync(path.join(dir, '.cohererc'), JSON.stringify({ outputDir: 'docs/ai' }));
+
+        const loaded = loadConfig(dir);
+
+        expect(loaded.path).toBe(path.join(dir, '.cohererc'));
+        expect(loaded.config.outputDir).toBe('docs/ai');
+    });
+
+    it('should reject unknown extractors', () => {
+        fs.writeFileSync(path.join(dir, '.cohererc'), JSON.stringify({ extractor: 'oracle' }));
+        expect(() => loadConfig(dir)).toThrow('Invalid extractor "oracle"');
+    });
+});
+
+describe('interpolateEnv', () => {
+    it('should replace variables in nested values', () => {
+        const env = { DATABASE_URL: 'postgresql://localhost/app' };
+        expect(interpolateEnv({ databaseUrl: '${DATABASE_URL}', exclude: ['${PREFIX:-tmp}_*'] }, env)).toEqual({
+            databaseUrl: 'postgresql://localhost/app',
+            exclude: ['tmp_*'],
+        });
+    });
+});
+
+describe('applyTableFilters', () => {
+    const schema: UnifiedSchemaInfo = {
+        databaseType: 'postgresql',
+        tables: [table('users'), table('orders'), table('_prisma_migrations'), table('audit_log')],
+    };
+
+    it('should keep included tables minus excluded ones', () => {
+        const filtered = applyTableFilters(schema, ['*s', 'audit_*'], ['_prisma*']);
+        expect(filtered.tables.map((t) => t.name)).toEqual(['users', 'orders', 'audit_log']);
+    });
+
+    it('should parse comma-separated CLI patterns', () => {
+        expect(parseList(' users, order_* ,')).toEqual(['users', 'order_*']);
+        expect(parseList(undefined)).toBeUndefined();
+    });
+
+    it('should only accept positive integers for numeric options', () => {
+        expect(parsePositiveInteger('200', '--sample-size')).toBe(200);
+        expect(parsePositiveInteger(undefined, '--sample-size')).toBeUndefined();
+        for (const value of ['abc', '0', '-5', '1.5', '10abc', '']) {
+            expect(() => parsePositiveInteger(value, '--sample-size')).toThrow('--sample-size must be a positive integer');
+        }
+    });
+});
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { groupTablesByDomain } from '../src/generators/domains.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import { findTableUsage, usageGlobs } from '../src/utils/code-usage.js';
+import { foreignKey, primaryKey, relation, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo, UnifiedTableInfo } from '../src/extractors/index.js';
+
+/**
+ * Table with an `<target>_id` foreign key per referenced table.
+ */
+function linkedTable(name: string, references: string[] = [], extra: Partial<UnifiedTableInfo> = {}): UnifiedTableInfo {
+    return table(name, [primaryKey(), ...references.map((target) => foreignKey(`${target}_id`, 'integer', target))], {
+        relations: references.map((target) => relation(name, `${target}_id`, target)),
+        ...extra,
+    });
+}
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        linkedTable('customers'),
+        linkedTable('invoices', ['customers']),
+        linkedTable('payments', ['invoices']),
+        linkedTable('articles'),
+        linkedTable('comments', ['articles']),
+        linkedTable('settings'),
+    ],
+};
+
+describe('Schema domains', () => {
+    it('should group tables connected by foreign keys under the most referenced one', () => {
+        expect(groupTablesByDomain(schema)).toEqual([
+            { name: 'articles', tables: ['articles', 'comments'] },
+            { name: 'customers', tables: ['customers', 'invoices', 'payments'] },
+            { name: 'other', tables: ['settings'] },
+        ]);
+    });
+
+    it('should prefer configured domains, then database schemas', () => {
+        expect(groupTablesByDomain(schema, { billing: ['invoices', 'pay*'] })).toEqual([
+            { name: 'articles', tables: ['articles', 'comments'] },
+            { name: 'billing', tables: ['invoices', 'payments'] },
+            { name: 'customers', tables: ['customers'] },
+            { name: 'other', tables: ['settings'] },
+        ]);
+
+        const multi: UnifiedSchemaInfo = {
+            databaseType: 'postgresql',
+            tables: [linkedTable('auth.users', [], { schema: 'auth' }), linkedTable('public.posts', [], { schema: 'public' })],
+        };
+        expect(groupTablesByDomain(multi).map((d) => d.name)).toEqual(['auth', 'public']);
+    });
+});
+
+describe('Cursor rules', () => {
+    it('should write an always-applied overview and glob-scoped domain rules', () => {
+        const rules = new TemplateGenerator().generateCursorRules(schema, {
+            tableFiles: { invoices: ['src/billing/invoices.ts', 'src/billing/api/pay.ts'], payments: ['scripts/reconcile.py'] },
+        });
+
+        expect(Object.keys(rules)).toEqual([
+            'cohere-overview.mdc', 'cohere-articles.mdc', 'cohere-customers.mdc', 'cohere-other.mdc',
+        ]);
+        expect(rules['cohere-overview.mdc']).toMatch(/^---\ndescription: "postgresql database overview - 6 tables in 3 domains[^\n]*"\nglobs: \nalwaysApply: true\n---\n/);
+        expect(rules['cohere-customers.mdc']).toMatch(/^---\ndescription: "Schema of the customers tables \(customers, invoices, payments\)[^\n]*"\nglobs: scripts\/\*\*,src\/billing\/\*\*\nalwaysApply: false\n---\n/);
+        expect(rules['cohere-customers.mdc']).toContain('### payments');
+        expect(rules['cohere-customers.mdc']).not.toContain('### comments');
+    });
+
+    it('should keep the overview rule when a domain is called overview', () => {
+        const rules = new TemplateGenerator().generateCursorRules(schema, {
+            domains: { overview: ['customers', 'invoices', 'payments'] },
+            tableFiles: { invoices: ['src/#billing/invoices.ts'] },
+        });
+
+        expect(rules['cohere-overview.mdc']).toContain('alwaysApply: true');
+        expect(rules['cohere-overview.mdc']).toContain('| overview | `customers`, `invoices`, `payments` | @cohere-overview-domain |');
+        expect(rules['cohere-overview-domain.mdc']).toContain('globs: "src/#billing/**"\nalwaysApply: false');
+    });
+
+    it('should find the files that mention a table and replace stale rules on save', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-cursor-'));
+        try {
+            fs.mkdirSync(path.join(dir, 'src', 'billing'), { recursive: true });
+            fs.mkdirSync(path.join(dir, 'node_modules', 'pkg'), { recursive: true });
+            fs.writeFileSync(path.join(dir, 'src', 'billing', 'service.ts'), 'const invoice: Invoice = await db.invoices.find();');
+            fs.writeFileSync(path.join(dir, 'node_modules', 'pkg', 'index.js'), 'invoices');
+            fs.writeFileSync(path.join(dir, 'README.md'), 'invoices');
+
+            const usage = findTableUsage(dir, ['invoices', 'settings']);
+            expect(usage).toEqual({ invoices: ['src/billing/service.ts'], settings: [] });
+            expect(usageGlobs(['src/a/x.ts', 'src/a/b/y.ts', 'schema.sql'])).toEqual(['schema.sql', 'src/a/**']);
+
+            const rulesDir = path.join(dir, '.cursor', 'rules');
+            fs.mkdirSync(rulesDir, { recursive: true });
+            fs.writeFileSync(path.join(rulesDir, 'cohere-dropped.mdc'), 'old');
+            fs.writeFileSync(path.join(rulesDir, 'team.mdc'), 'ours');
+
+            await new TemplateGenerator().save(path.join(dir, '.ai'), schema, {
+                generators: { queries: false, testTemplates: false, memory: false, handoffs: false, decisions: false, context: false },
+                cursor: { rulesDir, tableFiles: usage },
+            });
+
+            expect(fs.readdirSync(rulesDir).sort()).toEqual([
+                'cohere-articles.mdc', 'cohere-customers.mdc', 'cohere-other.mdc', 'cohere-overview.mdc', 'team.mdc',
+            ]);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
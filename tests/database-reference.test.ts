@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    enums: [{ name: 'order_status', values: ['pending', 'paid'], valueDescriptions: { paid: 'Captured' } }],
+    invariants: ['Amounts are in cents'],
+    tables: [
+        {
+            name: 'customers',
+            description: 'People who buy',
+            columns: [
+                { name: 'id', type: 'integer', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false, identity: 'always' },
+                { name: 'email', type: 'text', nullable: false, default: null, isPrimaryKey: false, isUnique: true, isForeignKey: false },
+            ],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+        {
+            name: 'orders',
+            columns: [
+                { name: 'id', type: 'integer', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'customer_id', type: 'integer', nullable: false, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: true, referencesTable: 'customers', referencesColumn: 'id' },
+                { name: 'status', type: 'order_status', nullable: false, default: "'pending'", isPrimaryKey: false, isUnique: false, isForeignKey: false },
+                { name: 'total', type: 'integer', nullable: false, default: '0', isPrimaryKey: false, isUnique: false, isForeignKey: false },
+            ],
+            indexes: [{ name: 'orders_customer_idx', columns: ['customer_id'], unique: false, isPrimaryKey: false }],
+            relations: [{
+                fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id', cardinality: 'N:1',
+                constraintName: 'orders_customer_fk', onDelete: 'CASCADE',
+            }],
+            primaryKey: ['id'],
+            checks: [{ name: 'orders_total_check', expression: 'CHECK (total >= 0)', columns: ['total'] }],
+            invariants: ['Paid orders are never deleted'],
+        },
+    ],
+};
+
+describe('DATABASE.md', () => {
+    it('should document every table with constraints and relationships both ways', () => {
+        const { databaseMd, tablePages } = new TemplateGenerator().generate(schema);
+
+        expect(tablePages).toEqual({});
+        expect(databaseMd).toContain([
+            '## Contents',
+            '',
+            '- [Entity Relationship Diagram](#entity-relationship-diagram)',
+            '- [Tables](#tables)',
+            '- [Table Reference](#table-reference)',
+            '  - [customers](#customers)',
+            '  - [orders](#orders)',
+            '- [Enums](#enums)',
+            '- [Invariants](#invariants)',
+        ].join('\n'));
+        expect(databaseMd).toContain('| [customers](#customers) | 2 | id | People who buy |');
+        expect(databaseMd).toContain('| `id` | `integer` | no | identity | Identity (always), do not insert |');
+        expect(databaseMd).toContain('| `status` | `order_status` | no | `\'pending\'` | One of: `pending`, `paid` |');
+        expect(databaseMd).toContain([
+            '**Constraints:**',
+            '- Primary key: `id`',
+            '- Foreign key `orders_customer_fk`: `customer_id` → `customers` (`id`), ON DELETE CASCADE',
+            '- Check `orders_total_check`: `CHECK (total >= 0)`',
+        ].join('\n'));
+        expect(databaseMd).toContain('- Unique: `email`');
+        expect(databaseMd).toContain('**References:**\n- [customers](#customers) (N:1): `orders.customer_id = customers.id`');
+        expect(databaseMd).toContain('**Referenced by:**\n- [orders](#orders) (N:1): `orders.customer_id = customers.id`');
+        expect(databaseMd).toContain('**Invariants:**\n- Paid orders are never deleted');
+        expect(databaseMd).toContain('`paid` (Captured)');
+        expect(databaseMd).toContain('## Invariants\n\n- Amounts are in cents');
+    });
+
+    it('should split tables into linked pages and drop pages of removed tables', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-reference-'));
+        try {
+            fs.mkdirSync(path.join(dir, 'tables'));
+            fs.writeFileSync(path.join(dir, 'tables', 'invoices.md'), 'old');
+
+            await new TemplateGenerator().save(dir, schema, {
+                generators: { queries: false, diagrams: false, testTemplates: false, memory: false, handoffs: false, decisions: false, context: false },
+                splitTables: true,
+                rootDir: dir,
+            });
+
+            expect(fs.readdirSync(path.join(dir, 'tables')).sort()).toEqual(['customers.md', 'orders.md']);
+            const databaseMd = fs.readFileSync(path.join(dir, 'DATABASE.md'), 'utf-8');
+            expect(databaseMd).toContain('  - [orders](tables/orders.md)');
+            expect(databaseMd).not.toContain('## Table Reference');
+
+            const orders = fs.readFileSync(path.join(dir, 'tables', 'orders.md'), 'utf-8');
+            expect(orders).toContain('# orders\n\n[← Database Reference](../DATABASE.md)\n');
+            expect(orders).toContain('- [customers](customers.md) (N:1)');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
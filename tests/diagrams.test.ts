@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateDiagrams, renderDbml, renderMermaidDiagram } from '../src/generators/diagrams.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import { column, foreignKey, primaryKey, relation, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    enums: [{ name: 'order_status', values: ['pending', 'in progress'] }],
+    tables: [
+        table('auth.users', [
+            primaryKey('id', 'uuid'),
+            column('email', 'character varying', { maxLength: 255, isUnique: true, description: 'Login "handle"' }),
+        ], { schema: 'auth' }),
+        table('orders', [
+            primaryKey('id', 'integer', { identity: 'always' }),
+            foreignKey('user_id', 'uuid', 'auth.users'),
+            column('status', 'order_status', { default: "'pending'::order_status" }),
+            column('total', 'numeric', { precision: 10, scale: 2, default: '0' }),
+            column('placed_at', 'timestamp', { nullable: true, default: 'now()' }),
+        ], {
+            description: "Customer's orders",
+            indexes: [{ name: 'orders_user_status', columns: ['user_id', 'status'], unique: false, isPrimaryKey: false }],
+            relations: [relation('orders', 'user_id', 'auth.users', { constraintName: 'orders_user_id_fkey', onDelete: 'CASCADE', onUpdate: 'NO ACTION' })],
+        }),
+        table('order_items', [
+            foreignKey('order_id', 'integer', 'orders', { isPrimaryKey: true }),
+            column('line', 'integer', { isPrimaryKey: true }),
+            foreignKey('coupon_id', 'integer', 'coupons', { nullable: true }),
+        ], {
+            relations: [relation('order_items', 'order_id', 'orders'), relation('order_items', 'coupon_id', 'coupons')],
+        }),
+        table('coupons'),
+        table('order_totals', undefined, { kind: 'view' }),
+    ],
+};
+
+describe('Mermaid ER diagram', () => {
+    it('should render entities, keys and crow\'s foot relationships', () => {
+        expect(renderMermaidDiagram(schema)).toBe([
+            'erDiagram',
+            '    auth_users["auth.users"] {',
+            '        uuid id PK',
+            '        character_varying(255) email UK "Login \'handle\'"',
+            '    }',
+            '    orders {',
+            '        integer id PK',
+            '        uuid user_id FK',
+            '        order_status status',
+            '        numeric(10_2) total',
+            '        timestamp placed_at',
+            '    }',
+            '    order_items {',
+            '        integer order_id PK, FK',
+            '        integer line PK',
+            '        integer coupon_id FK',
+            '    }',
+            '    coupons {',
+            '        integer id PK',
+            '    }',
+            '    auth_users ||..o{ orders : "user_id"',
+            '    orders ||--o{ order_items : "order_id"',
+            '    coupons |o..o{ order_items : "coupon_id"',
+            '',
+        ].join('\n'));
+    });
+
+    it('should limit a sub-diagram to its tables and the keys of their neighbours', () => {
+        const diagram = renderMermaidDiagram(schema, ['coupons']);
+
+        expect(diagram).toContain('    order_items {\n        integer order_id PK, FK\n        integer line PK\n    }\n');
+        expect(diagram).toContain('coupons |o..o{ order_items');
+        expect(diagram).not.toContain('orders {');
+        expect(diagram).not.toContain('orders ||--o{ order_items');
+    });
+});
+
+describe('DBML', () => {
+    it('should render enums, tables, indexes and refs', () => {
+        const dbml = renderDbml(schema);
+
+        expect(dbml).toContain('Enum order_status {\n  pending\n  "in progress"\n}\n');
+        expect(dbml).toContain('Table auth.users {\n  id uuid [pk]\n  email "character varying(255)" [not null, unique, note: \'Login "handle"\']\n}\n');
+        expect(dbml).toContain([
+            'Table orders {',
+            '  id integer [pk, increment]',
+            '  user_id uuid [not null]',
+            "  status order_status [not null, default: 'pending']",
+            '  total numeric(10,2) [not null, default: 0]',
+            '  placed_at timestamp [default: `now()`]',
+            '',
+            '  indexes {',
+            "    (user_id, status) [name: 'orders_user_status']",
+            '  }',
+            '',
+            "  Note: 'Customer\\'s orders'",
+            '}',
+        ].join('\n'));
+        expect(dbml).toContain('  indexes {\n    (order_id, line) [pk]\n  }\n');
+        expect(dbml).toContain('Ref orders_user_id_fkey: orders.user_id > auth.users.id [delete: cascade]\n');
+        expect(dbml).toContain('Ref: order_items.coupon_id > coupons.id\n');
+        expect(dbml).not.toContain('order_totals');
+    });
+});
+
+describe('Diagram files', () => {
+    const large: UnifiedSchemaInfo = {
+        databaseType: 'postgresql',
+        tables: [
+            ...Array.from({ length: 15 }, (_, i) => table(`billing_${i}`, undefined, {
+                relations: i === 0 ? [] : [relation(`billing_${i}`, 'id', 'billing_0', { cardinality: '1:1' })],
+            })),
+            ...Array.from({ length: 15 }, (_, i) => table(`catalog_${i}`, undefined, {
+                relations: i === 0 ? [] : [relation(`catalog_${i}`, 'id', 'catalog_0', { cardinality: '1:1' })],
+            })),
+        ],
+    };
+
+    it('should add one diagram per domain for large schemas', () => {
+        expect(Object.keys(generateDiagrams(schema))).toEqual(['schema.mmd', 'schema.dbml']);
+        expect(Object.keys(generateDiagrams(large))).toEqual(['schema.mmd', 'schema.dbml', 'schema-billing-0.mmd', 'schema-catalog-0.mmd']);
+        expect(Object.keys(generateDiagrams(large, { shop: ['*'] }))).toEqual(['schema.mmd', 'schema.dbml']);
+    });
+
+    it('should give templates the diagrams to embed', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-diagrams-'));
+        try {
+            fs.writeFileSync(path.join(dir, 'CLAUDE.md'), '{{erDiagram}}---\n{{#each domainDiagrams}}## {{name}}\n{{/each}}');
+
+            expect(new TemplateGenerator(dir).generate(schema).claudeMd).toBe(renderMermaidDiagram(schema) + '---\n');
+            expect(new TemplateGenerator(dir).generate(large).claudeMd).toContain('---\n## billing-0\n## catalog-0\n');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should embed the diagrams in DATABASE.md', () => {
+        expect(new TemplateGenerator().generate(schema).databaseMd)
+            .toContain('## Entity Relationship Diagram\n\n```mermaid\nerDiagram\n    auth_users["auth.users"] {\n');
+
+        const { databaseMd, diagrams } = new TemplateGenerator().generate(large);
+        expect(databaseMd).toContain('### billing-0\n\n```mermaid\n' + diagrams['schema-billing-0.mmd'] + '```\n');
+        expect(databaseMd).toContain('### catalog-0\n\n');
+    });
+});
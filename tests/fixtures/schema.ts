@@ -0,0 +1,44 @@
+import type { UnifiedColumnInfo, UnifiedRelationInfo, UnifiedTableInfo } from '../../src/extractors/index.js';
+
+/**
+ * Factories for unified schema fixtures. Everything is off unless `extra` says otherwise.
+ */
+export function column(name: string, type: string, extra: Partial<UnifiedColumnInfo> = {}): UnifiedColumnInfo {
+    return { name, type, nullable: false, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: false, ...extra };
+}
+
+export function primaryKey(name = 'id', type = 'integer', extra: Partial<UnifiedColumnInfo> = {}): UnifiedColumnInfo {
+    return column(name, type, { isPrimaryKey: true, isUnique: true, ...extra });
+}
+
+export function foreignKey(
+    name: string,
+    type: string,
+    referencesTable: string,
+    extra: Partial<UnifiedColumnInfo> = {}
+): UnifiedColumnInfo {
+    return column(name, type, { isForeignKey: true, referencesTable, referencesColumn: 'id', ...extra });
+}
+
+/**
+ * Table with an integer `id` unless columns are given; the primary key follows the columns.
+ */
+export function table(
+    name: string,
+    columns: UnifiedColumnInfo[] = [primaryKey()],
+    extra: Partial<UnifiedTableInfo> = {}
+): UnifiedTableInfo {
+    return { name, columns, indexes: [], relations: [], primaryKey: columns.filter((c) => c.isPrimaryKey).map((c) => c.name), ...extra };
+}
+
+/**
+ * Many-to-one relation onto the referenced table's `id`.
+ */
+export function relation(
+    fromTable: string,
+    fromColumn: string,
+    toTable: string,
+    extra: Partial<UnifiedRelationInfo> = {}
+): UnifiedRelationInfo {
+    return { fromTable, fromColumn, toTable, toColumn: 'id', cardinality: 'N:1', ...extra };
+}
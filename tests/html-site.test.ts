@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { escapeHtml, renderHtmlSite } from '../src/generators/html-site.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        {
+            name: 'customers',
+            description: 'People who <buy>',
+            columns: [
+                { name: 'id', type: 'integer', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'email', type: 'text', nullable: false, default: null, isPrimaryKey: false, isUnique: true, isForeignKey: false },
+            ],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+        {
+            name: 'orders',
+            columns: [
+                { name: 'id', type: 'integer', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'customer_id', type: 'integer', nullable: false, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: true, referencesTable: 'customers', referencesColumn: 'id' },
+            ],
+            indexes: [],
+            relations: [{ fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id', cardinality: 'N:1' }],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+describe('HTML site', () => {
+    const { data } = new TemplateGenerator().generate(schema);
+    const files = renderHtmlSite(data);
+
+    it('should render an index, one page per table and local assets only', () => {
+        expect(Object.keys(files).sort()).toEqual([
+            'assets/search.js', 'assets/style.css', 'index.html', 'tables/customers.html', 'tables/orders.html',
+        ]);
+        for (const content of Object.values(files)) {
+            expect(content).not.toMatch(/(src|href)="(https?:)?\/\//);
+        }
+
+        const index = files['index.html'];
+        expect(index).toContain('<li data-search="customers people who &lt;buy&gt; id email"><a href="tables/customers.html">customers</a></li>');
+        expect(index).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+        expect(index).toContain('<a href="tables/orders.html"><g class="box">');
+        expect(index).toContain('<title>orders.customer_id = customers.id (N:1)</title>');
+        expect(index).toContain('<script src="assets/search.js"></script>');
+        expect(escapeHtml('a < "b"')).toBe('a &lt; &quot;b&quot;');
+    });
+
+    it('should link foreign keys in both directions', () => {
+        const orders = files['tables/orders.html'];
+        expect(orders).toContain('<code>customer_id</code> <span class="badge">FK</span> → <a href="customers.html">customers</a>');
+        expect(orders).toContain('<h2>References</h2>\n<ul>\n<li><a href="customers.html">customers</a> (N:1)');
+        expect(orders).toContain('<link rel="stylesheet" href="../assets/style.css">');
+
+        const customers = files['tables/customers.html'];
+        expect(customers).toContain('<h2>Referenced by</h2>\n<ul>\n<li><a href="orders.html">orders</a> (N:1)');
+        expect(customers).toContain('<g class="box current">');
+    });
+
+    it('should write the site with --targets html and drop pages of removed tables', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-html-'));
+        try {
+            fs.mkdirSync(path.join(dir, 'site', 'tables'), { recursive: true });
+            fs.writeFileSync(path.join(dir, 'site', 'tables', 'invoices.html'), 'old');
+
+            await new TemplateGenerator().save(dir, schema, {
+                generators: { queries: false, diagrams: false, testTemplates: false, memory: false, handoffs: false, decisions: false, context: false },
+                targets: ['html'],
+                rootDir: dir,
+            });
+
+            expect(fs.readdirSync(path.join(dir, 'site', 'tables')).sort()).toEqual(['customers.html', 'orders.html']);
+            expect(fs.readFileSync(path.join(dir, 'site', 'index.html'), 'utf-8')).toMatch(/^<!DOCTYPE html>/);
+            expect(fs.existsSync(path.join(dir, 'CLAUDE.md'))).toBe(true);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    demoteHeadings,
+    findRegions,
+    mergeRegions,
+    toManagedSections,
+    wrapRegion,
+} from '../src/generators/managed-regions.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'sqlite',
+    tables: [
+        {
+            name: 'users',
+            columns: [{ name: 'id', type: 'INTEGER', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false }],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+describe('Managed regions', () => {
+    it('should wrap each section in a region named after its heading', () => {
+        const managed = toManagedSections('# Title\n\nIntro\n\n## Tables\n\n```sql\n## not a heading\n```\n\n## Tables\n\nAgain\n');
+
+        expect(findRegions(managed).map((r) => r.name)).toEqual(['header', 'tables', 'tables-2']);
+        expect(managed).toContain('<!-- cohere:begin tables -->\n## Tables\n\n```sql\n## not a heading\n```\n<!-- cohere:end -->');
+    });
+
+    it('should replace regions and keep hand-written text between them', () => {
+        const before = [
+            wrapRegion('header', '# Old'),
+            '',
+            '## Team notes',
+            'Ask #data before dropping columns.',
+            '',
+            wrapRegion('tables', '## Tables\nold'),
+            '',
+            wrapRegion('removed', '## Removed'),
+            '',
+            'Footer',
+            '',
+        ].join('\n');
+        const generated = toManagedSections('# New\n\n## Tables\nnew\n\n## Enums\nadded\n');
+
+        expect(mergeRegions(before, generated)).toBe([
+            wrapRegion('header', '# New'),
+            '',
+            '## Team notes',
+            'Ask #data before dropping columns.',
+            '',
+            wrapRegion('tables', '## Tables\nnew'),
+            '',
+            wrapRegion('enums', '## Enums\nadded'),
+            '',
+            'Footer',
+            '',
+        ].join('\n'));
+    });
+
+    it('should append to unmanaged files and replace ones written by older versions', () => {
+        const generated = wrapRegion('database', '## Database') + '\n';
+
+        expect(mergeRegions('# My project\n', generated)).toBe('# My project\n\n' + generated);
+        expect(mergeRegions('# Database Context\n\n> AUTO-GENERATED by cohere-db.\n', generated)).toBe(generated);
+    });
+
+    it('should reject unbalanced markers', () => {
+        expect(() => findRegions('<!-- cohere:begin a -->\ntext\n')).toThrow('never closed');
+        expect(() => findRegions('text\n<!-- cohere:end -->\n')).toThrow('no matching cohere:begin');
+    });
+
+    it('should demote headings outside code blocks', () => {
+        expect(demoteHeadings('# A\n## B\n```\n# comment\n```')).toBe('## A\n### B\n```\n# comment\n```');
+    });
+
+    it('should keep manual edits and inject into an existing root file on save', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-regions-'));
+        const rootFile = path.join(dir, 'CLAUDE.md');
+        const aiDir = path.join(dir, '.ai');
+        const generator = new TemplateGenerator();
+        const options = {
+            generators: { queries: false, testTemplates: false, memory: false, handoffs: false, decisions: false, context: false },
+            inject: [rootFile],
+        };
+        try {
+            fs.writeFileSync(rootFile, '# Project\n\nBuild with make.\n');
+            await generator.save(aiDir, schema, options);
+
+            const claudeFile = path.join(aiDir, 'CLAUDE.md');
+            fs.writeFileSync(claudeFile, fs.readFileSync(claudeFile, 'utf-8') + '\n## Local notes\n\nKeep me.\n');
+            await generator.save(aiDir, schema, options);
+
+            expect(fs.readFileSync(claudeFile, 'utf-8')).toContain('## Local notes\n\nKeep me.\n');
+            const root = fs.readFileSync(rootFile, 'utf-8');
+            expect(root.startsWith('# Project\n\nBuild with make.\n\n<!-- cohere:begin database -->\n## Database Context')).toBe(true);
+            expect(findRegions(root).map((r) => r.name)).toEqual(['database']);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
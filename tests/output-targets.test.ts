@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import { resolveTargets, selectTargets } from '../src/generators/targets.js';
+import { column, foreignKey, primaryKey, relation, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo, UnifiedTableInfo } from '../src/extractors/index.js';
+
+function wideTable(name: string, attributes: number): UnifiedTableInfo {
+    return table(name, [
+        primaryKey('id', 'uuid'),
+        ...Array.from({ length: attributes }, (_, i) => column(`attribute_${i}`, 'text', { nullable: true })),
+    ]);
+}
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        table('orders', [
+            primaryKey('id', 'uuid'),
+            foreignKey('customer_id', 'uuid', 'customers'),
+            column('deleted_at', 'timestamp', { nullable: true }),
+        ], {
+            relations: [relation('orders', 'customer_id', 'customers')],
+        }),
+        wideTable('customers', 1),
+        ...Array.from({ length: 60 }, (_, i) => wideTable(`report_${i}`, 6)),
+    ],
+};
+
+describe('Output targets', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-targets-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const save = (targets?: string[]) => new TemplateGenerator().save(path.join(dir, '.ai'), schema, {
+        generators: { queries: false, edgeCases: false, constraints: false, testTemplates: false, memory: false, handoffs: false, decisions: false, context: false },
+        targets,
+        rootDir: dir,
+    });
+    const read = (file: string) => fs.readFileSync(path.join(dir, file), 'utf-8');
+
+    it('should resolve names and always include CLAUDE.md', () => {
+        expect(selectTargets(undefined).map((t) => t.name)).toEqual(['claude', 'agents']);
+        expect(selectTargets(undefined, false).map((t) => t.name)).toEqual(['claude']);
+        expect(selectTargets(['copilot', 'claude']).map((t) => t.file)).toEqual(['CLAUDE.md', '.github/copilot-instructions.md']);
+        expect(() => resolveTargets(['vim'])).toThrow('Unknown target "vim". Use one of: claude, agents, copilot, windsurf, cline, aider');
+    });
+
+    it('should write each assistant file in its own location and format', async () => {
+        await save(['copilot', 'windsurf', 'cline', 'aider']);
+
+        expect(fs.existsSync(path.join(dir, '.ai', 'CLAUDE.md'))).toBe(true);
+        expect(fs.existsSync(path.join(dir, '.ai', 'AGENTS.md'))).toBe(false);
+
+        const cline = read('.clinerules');
+        expect(cline).toContain('## Rules\n\n- **Soft Deletes (`deleted_at`)** (`orders`):');
+        expect(cline).toContain('- `orders`: id uuid PK, customer_id uuid → customers, deleted_at timestamp null\n');
+        expect(cline).toContain('- `report_59`:');
+        expect(cline.trimEnd().endsWith('Full schema, query patterns and edge cases: `.ai/CLAUDE.md`\n<!-- cohere:end -->')).toBe(true);
+
+        expect(read('.windsurfrules')).toContain('<tables>\n- `orders`:');
+        expect(read('CONVENTIONS.md')).toContain('aider --read CONVENTIONS.md');
+    });
+
+    it('should cut the summary down to the target size limit', async () => {
+        await save(['copilot', 'windsurf']);
+
+        const copilot = read('.github/copilot-instructions.md');
+        expect(copilot.length).toBeLessThanOrEqual(4000);
+        expect(copilot).toContain('- `orders`:');
+        expect(copilot).toMatch(/- … \d+ more in `\.ai\/CLAUDE\.md`\n/);
+        expect(copilot).not.toContain('`report_59`');
+        expect(read('.windsurfrules').length).toBeLessThanOrEqual(6000);
+    });
+
+    it('should keep what the team wrote around the generated region', async () => {
+        fs.writeFileSync(path.join(dir, 'CONVENTIONS.md'), '# Conventions\n\n- Use tabs\n');
+
+        await save(['aider']);
+        await save(['aider']);
+
+        const conventions = read('CONVENTIONS.md');
+        expect(conventions.startsWith('# Conventions\n\n- Use tabs\n\n<!-- cohere:begin database -->\n')).toBe(true);
+        expect(conventions.match(/cohere:begin/g)).toHaveLength(1);
+    });
+});
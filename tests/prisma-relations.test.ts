@@ -0,0 +1,37 @@
+import * as path from 'path';
+import { PrismaExtractor } from '../src/extractors/prisma.js';
+import { UnifiedSchemaConverter } from '../src/extractors/index.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const fixturePath = path.join(process.cwd(), 'tests', 'fixtures', 'prisma', 'simple.prisma');
+
+async function extractFixture(): Promise<UnifiedSchemaInfo> {
+    const raw = await new PrismaExtractor(fixturePath).extract();
+    return UnifiedSchemaConverter.convert({ ...raw, databaseType: 'prisma' });
+}
+
+describe('Prisma relations', () => {
+    it('should join back-relations on the owning side\'s scalar key', async () => {
+        const schema = await extractFixture();
+        const user = schema.tables.find((t) => t.name === 'User')!;
+        const post = schema.tables.find((t) => t.name === 'Post')!;
+
+        expect(user.relations).toContainEqual(expect.objectContaining({
+            toTable: 'Post', fromColumns: ['id'], toColumns: ['userId'], cardinality: '1:N',
+        }));
+        expect(post.relations).toEqual([expect.objectContaining({
+            toTable: 'User', fromColumns: ['userId'], toColumns: ['id'], cardinality: 'N:1', onDelete: 'CASCADE',
+        })]);
+    });
+
+    it('should only write JOIN examples on scalar columns', async () => {
+        const { queries } = new TemplateGenerator().generate(await extractFixture());
+
+        expect(queries['User.sql']).toContain('-- With Post\nSELECT t.*, r.*\nFROM User t\nJOIN Post r ON t.id = r.userId\n');
+        expect(queries['Post.sql']).toContain('JOIN User r ON t.userId = r.id\n');
+        for (const sql of Object.values(queries)) {
+            expect(sql).not.toMatch(/ON t\.(posts|author|profile|user)\b|t\. = r\./);
+        }
+    });
+});
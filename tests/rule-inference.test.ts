@@ -0,0 +1,162 @@
+import { TemplateGenerator } from '../src/generators/templates.js';
+import { inferBusinessRules, inferSchemaPatterns } from '../src/generators/rule-inference.js';
+import type { UnifiedColumnInfo, UnifiedSchemaInfo, UnifiedTableInfo } from '../src/extractors/index.js';
+
+function column(name: string, type: string, extra: Partial<UnifiedColumnInfo> = {}): UnifiedColumnInfo {
+    return { name, type, nullable: false, default: null, isPrimaryKey: name === 'id', isUnique: name === 'id', isForeignKey: false, ...extra };
+}
+
+function table(name: string, columns: UnifiedColumnInfo[], extra: Partial<UnifiedTableInfo> = {}): UnifiedTableInfo {
+    return { name, columns: [column('id', 'uuid'), ...columns], indexes: [], relations: [], primaryKey: ['id'], ...extra };
+}
+
+const orgFk = { isForeignKey: true, referencesTable: 'organizations', referencesColumn: 'id' };
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    schemaName: 'public',
+    enums: [{ name: 'invoice_status', values: ['draft', 'sent', 'paid'] }],
+    tables: [
+        table('organizations', [column('name', 'text')]),
+        table('projects', [
+            column('organization_id', 'uuid', orgFk),
+            column('deleted_at', 'timestamptz', { nullable: true }),
+            column('version', 'integer', { default: '1' }),
+            column('updated_at', 'timestamptz', { default: 'now()' }),
+        ], {
+            triggers: [{ name: 'touch_projects', timing: 'BEFORE', events: ['UPDATE'], setsColumns: ['updated_at'] }],
+        }),
+        table('invoices', [
+            column('organization_id', 'uuid', orgFk),
+            column('status', 'invoice_status'),
+            column('state', 'text'),
+            column('archived_at', 'timestamptz', { nullable: true }),
+            column('created_at', 'timestamptz', { default: 'now()' }),
+            column('updated_at', 'timestamptz', { default: 'now()' }),
+        ]),
+        table('comments', [
+            column('commentable_type', 'text'),
+            column('commentable_id', 'uuid'),
+            column('priority', 'text'),
+        ], {
+            checks: [{ expression: "commentable_type IN ('Project', 'Invoice')", columns: ['commentable_type'] }],
+        }),
+    ],
+};
+
+describe('Rule inference', () => {
+    const patterns = inferSchemaPatterns(schema);
+    const find = (kind: string) => patterns.filter((p) => p.kind === kind);
+
+    it('should detect the tenant key and the table it references', () => {
+        expect(find('tenant-key')).toEqual([
+            expect.objectContaining({ key: 'organization_id', root: 'organizations' }),
+        ]);
+        expect(find('tenant-key')[0].occurrences.map((o) => o.table)).toEqual(['projects', 'invoices']);
+    });
+
+    it('should detect soft deletes, audit timestamps and version columns', () => {
+        // `archived_at` on invoices is not a deletion marker
+        expect(find('soft-delete')).toEqual([
+            expect.objectContaining({ filter: 'deleted_at IS NULL', occurrences: [{ table: 'projects', columns: ['deleted_at'] }] }),
+        ]);
+        expect(find('audit-timestamps')[0].occurrences).toEqual([
+            expect.objectContaining({
+                table: 'projects',
+                maintainedBy: ['`updated_at` by trigger `touch_projects`'],
+            }),
+            // A default only fills `updated_at` on insert
+            expect.objectContaining({
+                table: 'invoices',
+                maintainedBy: ['`created_at` by default `now()`'],
+            }),
+        ]);
+        expect(find('optimistic-lock')[0].occurrences).toEqual([{ table: 'projects', columns: ['version'] }]);
+    });
+
+    it('should detect polymorphic pairs and status values only where the schema lists them', () => {
+        expect(find('polymorphic')).toEqual([
+            expect.objectContaining({
+                key: 'commentable',
+                occurrences: [{ table: 'comments', columns: ['commentable_type', 'commentable_id'], values: ['Project', 'Invoice'] }],
+            }),
+        ]);
+        // `state` is free text, so only the enum-typed column counts
+        expect(find('status-enum')[0].occurrences).toEqual([
+            { table: 'invoices', columns: ['status'], values: ['draft', 'sent', 'paid'] },
+        ]);
+    });
+
+    it('should cite the tables each rule applies to', () => {
+        const rules = inferBusinessRules(schema, patterns);
+        expect(rules.map((r) => r.name)).toEqual([
+            'Tenant Isolation',
+            'Soft Deletes (`deleted_at`)',
+            'Audit Timestamps',
+            'Optimistic Locking',
+            'Polymorphic Reference (`commentable`)',
+            'Status Values',
+        ]);
+        expect(rules[0].appliesTo).toEqual(['projects', 'invoices']);
+        expect(rules[0].rule).toBe('SELECT * FROM projects WHERE id = $1 AND organization_id = $2');
+    });
+
+    it('should leave tenant isolation to row-level security when present', () => {
+        const secured = {
+            ...schema,
+            tables: schema.tables.map((t) => ({ ...t, rowLevelSecurity: t.name === 'projects' })),
+        };
+        const rules = inferBusinessRules(secured, inferSchemaPatterns(secured));
+        expect(rules.map((r) => r.name)).not.toContain('Tenant Isolation');
+    });
+
+    it('should not claim rules a plain schema shows no evidence of', () => {
+        const plain: UnifiedSchemaInfo = {
+            databaseType: 'sqlite',
+            tables: [table('notes', [column('body', 'text'), column('status', 'text')])],
+        };
+        const output = new TemplateGenerator().generate(plain);
+
+        expect(inferSchemaPatterns(plain)).toEqual([]);
+        expect(output.claudeMd).not.toContain('## Business Rules');
+        expect(output.claudeMd).not.toContain('organization_id');
+        expect(output.claudeMd).not.toContain('deleted_at');
+        expect(output.claudeMd).not.toContain('## Multi-Tenant Isolation');
+        expect(output.queries['notes.sql']).not.toContain('organization_id');
+    });
+
+    it('should need a reference or a majority of tables before calling a column the tenant key', () => {
+        const loose: UnifiedSchemaInfo = {
+            databaseType: 'postgresql',
+            tables: [
+                table('ledgers', [column('account_id', 'uuid')]),
+                table('entries', [column('account_id', 'uuid')]),
+                table('users', [column('email', 'text')]),
+                table('settings', [column('value', 'text')]),
+            ],
+        };
+        expect(inferSchemaPatterns(loose).filter((p) => p.kind === 'tenant-key')).toEqual([]);
+
+        const shared = { ...loose, tables: loose.tables.slice(0, 3) };
+        expect(inferSchemaPatterns(shared).filter((p) => p.kind === 'tenant-key')).toEqual([
+            expect.objectContaining({ key: 'account_id', occurrences: [expect.anything(), expect.anything()] }),
+        ]);
+    });
+
+    it('should count ON UPDATE as maintaining a timestamp and quote status values in SQL', () => {
+        const mysql: UnifiedSchemaInfo = {
+            databaseType: 'mysql',
+            tables: [table('shipments', [
+                column('status', "enum('in transit','won''t deliver')"),
+                column('updated_at', 'timestamp', { default: 'CURRENT_TIMESTAMP', onUpdateValue: 'CURRENT_TIMESTAMP' }),
+            ])],
+        };
+        const patterns = inferSchemaPatterns(mysql);
+        const rules = inferBusinessRules(mysql, patterns);
+
+        expect(patterns.find((p) => p.kind === 'audit-timestamps')!.occurrences[0].maintainedBy).toEqual([
+            '`updated_at` by `ON UPDATE CURRENT_TIMESTAMP`',
+        ]);
+        expect(rules.find((r) => r.name === 'Status Values')!.rule).toBe("WHERE status IN ('in transit', 'won''t deliver')");
+    });
+});
@@ -0,0 +1,84 @@
+import { diffSchemas, formatDiffHuman, formatDiffMarkdown } from '../src/utils/schema-diff.js';
+import type { UnifiedSchemaInfo, UnifiedTableInfo } from '../src/extractors/index.js';
+
+function column(name: string, type: string, extra: Record<string, unknown> = {}) {
+    return {
+        name, type, nullable: false, default: null,
+        isPrimaryKey: false, isUnique: false, isForeignKey: false,
+        ...extra,
+    };
+}
+
+function schemaOf(tables: UnifiedTableInfo[]): UnifiedSchemaInfo {
+    return { databaseType: 'postgresql', tables };
+}
+
+const users: UnifiedTableInfo = {
+    name: 'users',
+    columns: [column('id', 'uuid', { isPrimaryKey: true }), column('email', 'varchar')],
+    indexes: [{ name: 'users_email_idx', columns: ['email'], unique: false, isPrimaryKey: false }],
+    relations: [],
+    primaryKey: ['id'],
+};
+
+const posts: UnifiedTableInfo = {
+    name: 'posts',
+    columns: [column('id', 'uuid', { isPrimaryKey: true }), column('user_id', 'uuid', { isForeignKey: true })],
+    indexes: [],
+    relations: [{ fromTable: 'posts', fromColumn: 'user_id', toTable: 'users', toColumn: 'id', cardinality: 'N:1', onDelete: 'CASCADE' }],
+    primaryKey: ['id'],
+};
+
+describe('diffSchemas', () => {
+    it('should report no changes for identical schemas', () => {
+        const result = diffSchemas(schemaOf([users, posts]), schemaOf([users, posts]));
+        expect(result.changes).toEqual([]);
+        expect(formatDiffHuman(result)).toContain('No changes.');
+    });
+
+    it('should detect added and removed tables', () => {
+        const result = diffSchemas(schemaOf([users, posts]), schemaOf([users, { ...posts, name: 'articles' }]));
+        expect(result.changes).toEqual([
+            expect.objectContaining({ kind: 'added', object: 'table', table: 'articles' }),
+            expect.objectContaining({ kind: 'removed', object: 'table', table: 'posts' }),
+        ]);
+    });
+
+    it('should detect column, index and foreign key changes', () => {
+        const changedUsers: UnifiedTableInfo = {
+            ...users,
+            columns: [column('id', 'uuid', { isPrimaryKey: true }), column('email', 'text', { nullable: true }), column('name', 'text')],
+            indexes: [{ name: 'users_email_idx', columns: ['email'], unique: true, isPrimaryKey: false }],
+        };
+        const changedPosts: UnifiedTableInfo = {
+            ...posts,
+            relations: [{ ...posts.relations[0], onDelete: 'SET NULL' }],
+        };
+
+        const result = diffSchemas(schemaOf([users, posts]), schemaOf([changedUsers, changedPosts]));
+
+        expect(result.changes).toEqual(expect.arrayContaining([
+            expect.objectContaining({ kind: 'added', object: 'column', table: 'users', name: 'name' }),
+            expect.objectContaining({ kind: 'changed', object: 'column', name: 'email', property: 'type', before: 'varchar', after: 'text' }),
+            expect.objectContaining({ kind: 'changed', object: 'column', name: 'email', property: 'nullable', before: false, after: true }),
+            expect.objectContaining({ kind: 'changed', object: 'index', name: 'users_email_idx', property: 'unique' }),
+            expect.objectContaining({ kind: 'changed', object: 'foreignKey', table: 'posts', property: 'onDelete', before: 'CASCADE', after: 'SET NULL' }),
+        ]));
+        expect(result.summary).toEqual({ added: 1, removed: 0, changed: 4 });
+    });
+
+    it('should detect dropped foreign keys', () => {
+        const result = diffSchemas(schemaOf([users, posts]), schemaOf([users, { ...posts, relations: [] }]));
+        expect(result.changes).toEqual([
+            expect.objectContaining({ kind: 'removed', object: 'foreignKey', table: 'posts', name: 'user_id → users.id' }),
+        ]);
+    });
+
+    it('should render a markdown changelog', () => {
+        const result = diffSchemas(schemaOf([users]), schemaOf([users, posts]), { from: 'before', to: 'after' });
+        const markdown = formatDiffMarkdown(result, '2024-01-01T00:00:00.000Z');
+        expect(markdown).toContain('Compared `before` → `after`');
+        expect(markdown).toContain('## Added Tables');
+        expect(markdown).toContain('- `posts` (2 columns)');
+    });
+});
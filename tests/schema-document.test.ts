@@ -0,0 +1,62 @@
+import { TemplateGenerator } from '../src/generators/templates.js';
+import {
+    SCHEMA_DOCUMENT_VERSION,
+    parseSchemaDocument,
+    serializeSchemaDocument,
+} from '../src/generators/schema-document.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    schemaName: 'public',
+    source: 'postgresql://public',
+    tables: [
+        {
+            name: 'users',
+            columns: [
+                { name: 'id', type: 'uuid', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'created_at', type: 'timestamp', nullable: false, default: 'now()', isPrimaryKey: false, isUnique: false, isForeignKey: false },
+            ],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+        {
+            name: 'posts',
+            columns: [
+                { name: 'id', type: 'uuid', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'user_id', type: 'uuid', nullable: false, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: true, referencesTable: 'users', referencesColumn: 'id' },
+            ],
+            indexes: [],
+            relations: [
+                { fromTable: 'posts', fromColumn: 'user_id', toTable: 'users', toColumn: 'id', cardinality: 'N:1', onDelete: 'CASCADE' },
+            ],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+describe('Schema document', () => {
+    const document = new TemplateGenerator().generateDocument(schema);
+
+    it('should embed the unified schema and derived data', () => {
+        expect(document.formatVersion).toBe(SCHEMA_DOCUMENT_VERSION);
+        expect(document.generator.name).toBe('cohere-db');
+        expect(document.schema.tables.map((t) => t.name)).toEqual(['users', 'posts']);
+        expect(document.relationships).toEqual([
+            expect.objectContaining({ fromTable: 'posts', toTable: 'users', cardinality: 'N:1', onDelete: 'CASCADE' }),
+        ]);
+        expect(document.businessRules.length).toBeGreaterThan(0);
+        expect(document.conventions.length).toBeGreaterThan(0);
+    });
+
+    it.each(['json', 'yaml'] as const)('should round-trip through %s', (format) => {
+        const parsed = parseSchemaDocument(serializeSchemaDocument(document, format), format);
+        expect(parsed).toEqual(JSON.parse(JSON.stringify(document)));
+    });
+
+    it('should reject documents from a newer format version', () => {
+        const future = JSON.stringify({ ...document, formatVersion: SCHEMA_DOCUMENT_VERSION + 1 });
+        expect(() => parseSchemaDocument(future, 'json')).toThrow(/newer than supported/);
+    });
+});
@@ -0,0 +1,72 @@
+import { countBySeverity, validateAgainstSnapshot } from '../src/utils/schema-validation.js';
+import { fingerprintSchema, readFingerprintMarker, renderFingerprintMarker } from '../src/generators/snapshot.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const snapshot: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        {
+            name: 'orders',
+            columns: [
+                { name: 'id', type: 'integer', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'status', type: 'text', nullable: true, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: false },
+                { name: 'customer_id', type: 'integer', nullable: false, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: true },
+            ],
+            indexes: [],
+            relations: [{ fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id', cardinality: 'N:1' }],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+describe('validateAgainstSnapshot', () => {
+    it('should return no findings when nothing drifted', () => {
+        expect(validateAgainstSnapshot(snapshot, snapshot)).toEqual([]);
+    });
+
+    it('should flag renames, type changes and dropped foreign keys as errors', () => {
+        const [orders] = snapshot.tables;
+        const current: UnifiedSchemaInfo = {
+            ...snapshot,
+            tables: [{
+                ...orders,
+                columns: [
+                    orders.columns[0],
+                    { ...orders.columns[1], name: 'state' },
+                    { ...orders.columns[2], type: 'bigint' },
+                ],
+                relations: [],
+            }],
+        };
+
+        const findings = validateAgainstSnapshot(snapshot, current);
+
+        expect(findings).toEqual(expect.arrayContaining([
+            expect.objectContaining({ severity: 'warning', rule: 'column-undocumented', column: 'state' }),
+            expect.objectContaining({ severity: 'error', rule: 'column-removed', column: 'status' }),
+            expect.objectContaining({ severity: 'error', rule: 'column-type-changed', column: 'customer_id' }),
+            expect.objectContaining({ severity: 'error', rule: 'foreign-key-removed', table: 'orders' }),
+        ]));
+        expect(countBySeverity(findings)).toEqual({ error: 3, warning: 1, info: 0 });
+    });
+
+    it('should treat a column becoming NOT NULL as an error', () => {
+        const [orders] = snapshot.tables;
+        const current: UnifiedSchemaInfo = {
+            ...snapshot,
+            tables: [{ ...orders, columns: [orders.columns[0], { ...orders.columns[1], nullable: false }, orders.columns[2]] }],
+        };
+
+        expect(validateAgainstSnapshot(snapshot, current)).toEqual([
+            expect.objectContaining({ severity: 'error', rule: 'column-nullability-changed', column: 'status' }),
+        ]);
+    });
+});
+
+describe('snapshot fingerprint marker', () => {
+    it('should round-trip through the rendered marker', () => {
+        const content = `# Database Context\n${renderFingerprintMarker(snapshot)}\n`;
+        expect(readFingerprintMarker(content)).toBe(fingerprintSchema(snapshot));
+        expect(readFingerprintMarker('# Hand-written')).toBeNull();
+    });
+});
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { classifyConnection, describeSource, detectSource } from '../src/utils/source-detection.js';
+
+describe('classifyConnection', () => {
+    it.each([
+        ['postgres://u:p@localhost/app', 'postgresql', 'postgres://u:p@localhost/app'],
+        ['postgresql://localhost/app', 'postgresql', 'postgresql://localhost/app'],
+        ['mysql://localhost/app', 'mysql', 'mysql://localhost/app'],
+        ['mongodb+srv://cluster/app', 'mongodb', 'mongodb+srv://cluster/app'],
+        ['sqlite:///var/data/app.db', 'sqlite', '/var/data/app.db'],
+        ['sqlite://./dev.sqlite', 'sqlite', './dev.sqlite'],
+        ['file:./dev.db?mode=ro', 'sqlite', './dev.db'],
+        ['./data/app.sqlite3', 'sqlite', './data/app.sqlite3'],
+    ])('should classify %s', (url, extractor, connection) => {
+        expect(classifyConnection(url)).toMatchObject({ extractor, connection });
+    });
+
+    it('should reject unknown schemes instead of assuming PostgreSQL', () => {
+        expect(() => classifyConnection('redis://localhost')).toThrow('Unsupported connection URL scheme "redis:"');
+        expect(() => classifyConnection('localhost/app')).toThrow('Cannot determine the database type');
+    });
+});
+
+describe('detectSource', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-detect-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should detect MongoDB from DATABASE_URL even when ORM files are absent', () => {
+        const source = detectSource({}, {}, { cwd: dir, env: { DATABASE_URL: 'mongodb://localhost/app' } });
+        expect(source).toMatchObject({
+            extractor: 'mongodb',
+            origin: 'environment',
+            reason: 'DATABASE_URL uses the mongodb:// scheme',
+        });
+    });
+
+    it('should let flags win over config and config over project files', () => {
+        fs.mkdirSync(path.join(dir, 'prisma'));
+        fs.writeFileSync(path.join(dir, 'prisma', 'schema.prisma'), '');
+        const context = { cwd: dir, env: {} };
+
+        expect(detectSource({}, {}, context)).toMatchObject({ extractor: 'prisma', origin: 'project-file' });
+        expect(detectSource({}, { databaseUrl: 'file:./dev.db' }, context)).toMatchObject({ extractor: 'sqlite', connection: './dev.db', origin: 'config' });
+        expect(detectSource({ drizzle: true }, { databaseUrl: 'file:./dev.db' }, context)).toMatchObject({
+            extractor: 'drizzle',
+            schemaPath: 'src/db/schema.ts',
+            origin: 'flag',
+        });
+    });
+
+    it('should return null when nothing is found', () => {
+        expect(detectSource({}, {}, { cwd: dir, env: {} })).toBeNull();
+    });
+
+    it('should hide credentials in the source label', () => {
+        const source = detectSource({ url: 'postgres://admin:secret@db/app' }, {}, { cwd: dir, env: {} });
+        expect(describeSource(source!)).toBe('postgres://admin:***@db/app');
+    });
+});
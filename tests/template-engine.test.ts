@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renderTemplate } from '../src/generators/template-engine.js';
+import { TemplateGenerator } from '../src/generators/templates.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    tables: [
+        {
+            name: 'users',
+            columns: [
+                { name: 'id', type: 'uuid', nullable: false, default: null, isPrimaryKey: true, isUnique: true, isForeignKey: false },
+                { name: 'email', type: 'text', nullable: true, default: null, isPrimaryKey: false, isUnique: false, isForeignKey: false, description: 'Login' },
+            ],
+            indexes: [],
+            relations: [],
+            primaryKey: ['id'],
+        },
+    ],
+};
+
+describe('Template engine', () => {
+    it('should render values, loops and conditionals without blank lines from block tags', () => {
+        const template = [
+            '# {{title}}',
+            '{{#each items}}',
+            '- {{@index}}: {{name}}{{#if tags}} ({{tags}}){{/if}} in {{../title}}',
+            '{{else}}',
+            'Nothing',
+            '{{/each}}',
+            '{{#unless items}}',
+            'empty',
+            '{{/unless}}',
+            '{{! comment }}',
+            'End',
+        ].join('\n');
+
+        expect(renderTemplate(template, { title: 'List', items: [{ name: 'a', tags: ['x', 'y'] }, { name: 'b', tags: [] }] }))
+            .toBe('# List\n- 0: a (x, y) in List\n- 1: b in List\nEnd');
+        expect(renderTemplate(template, { title: 'List', items: [] })).toBe('# List\nNothing\nempty\nEnd');
+    });
+
+    it('should render partials with the current or a given context', () => {
+        const partials = (name: string, context: unknown) =>
+            name === 'item' ? `<${(context as { name: string }).name}>` : undefined;
+
+        expect(renderTemplate('{{#each items}}{{> item}}{{/each}}|{{> item first}}', { items: [{ name: 'a' }], first: { name: 'z' } }, partials))
+            .toBe('<a>|<z>');
+        expect(() => renderTemplate('{{> missing}}', {}, partials, 'doc.md')).toThrow('doc.md: unknown partial "missing"');
+    });
+
+    it('should report unbalanced blocks', () => {
+        expect(() => renderTemplate('{{#each items}}x', {})).toThrow('is never closed');
+        expect(() => renderTemplate('{{#if a}}x{{/each}}', {})).toThrow('{{/each}} does not close {{#if}}');
+    });
+});
+
+describe('Template overrides', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cohere-templates-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should use a partial override inside the built-in document', () => {
+        fs.mkdirSync(path.join(dir, 'partials'));
+        fs.writeFileSync(path.join(dir, 'partials', 'column.md'), '| {{name}} | {{type}} | {{#if nullable}}optional{{else}}required{{/if}} | | {{notes}} |\n');
+
+        const { claudeMd, agentsMd } = new TemplateGenerator(dir).generate(schema);
+
+        expect(claudeMd).toContain('| id | uuid | required | | - |\n| email | text | optional | | Login |\n');
+        expect(agentsMd).toContain('# Database Context for AI Assistants');
+    });
+
+    it('should render a document override with built-in partials as fallback', () => {
+        fs.writeFileSync(path.join(dir, 'CLAUDE.md'), [
+            '# {{databaseType}} schema',
+            '',
+            '{{#each tables}}',
+            '{{> table}}',
+            '{{/each}}',
+        ].join('\n'));
+
+        const { claudeMd } = new TemplateGenerator(dir).generate(schema);
+
+        expect(claudeMd.startsWith('# postgresql schema\n\n### users\n\n| Column | Type | Nullable | Key | Notes |')).toBe(true);
+        expect(claudeMd).not.toContain('## Relationships');
+    });
+});
@@ -0,0 +1,118 @@
+import * as path from 'path';
+import { PrismaExtractor } from '../src/extractors/prisma.js';
+import { UnifiedSchemaConverter } from '../src/extractors/index.js';
+import { findTypeMapping, renderTypeScriptTypes, usedTypeMappings } from '../src/generators/typescript-types.js';
+import { column, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+describe('TypeScript types', () => {
+    it('should render row, insert and update interfaces for SQL tables', () => {
+        const schema: UnifiedSchemaInfo = {
+            databaseType: 'postgresql',
+            enums: [{ name: 'order_status', values: ['pending', "won't ship"] }],
+            domains: [{ name: 'email', baseType: 'citext', nullable: true, default: null, checks: [] }],
+            tables: [
+                table('auth.users', [
+                    column('id', 'uuid', { isPrimaryKey: true, default: 'gen_random_uuid()' }),
+                    column('email', 'email', { description: 'Login name' }),
+                ]),
+                table('orders', [
+                    column('id', 'integer', { isPrimaryKey: true, identity: 'always' }),
+                    column('status', 'order_status', { default: "'pending'::order_status" }),
+                    column('tags', 'order_status[]', { nullable: true }),
+                    column('total', 'numeric', { precision: 10, scale: 2 }),
+                    column('total_cents', 'bigint', { generated: { expression: 'total * 100', stored: true } }),
+                    column('placed_at', 'timestamp with time zone', { nullable: true }),
+                ]),
+                table('order_totals', [column('total', 'numeric')], { kind: 'view' }),
+            ],
+        };
+
+        const types = renderTypeScriptTypes(schema);
+
+        expect(types).toContain("export type OrderStatus = 'pending' | 'won\\'t ship';\n");
+        expect(types).toContain('export interface AuthUsers {\n  id: string;\n  /** Login name */\n  email: string;\n}\n');
+        expect(types).toContain('export interface AuthUsersInsert {\n  id?: string;\n  email: string;\n}\n');
+        expect(types).toContain([
+            'export interface Orders {',
+            '  id: number;',
+            '  status: OrderStatus;',
+            '  tags: OrderStatus[] | null;',
+            '  total: string;',
+            '  total_cents: number;',
+            '  placed_at: Date | null;',
+            '}',
+            '',
+            'export interface OrdersInsert {',
+            '  status?: OrderStatus;',
+            '  tags?: OrderStatus[] | null;',
+            '  total: string;',
+            '  placed_at?: Date | null;',
+            '}',
+            '',
+            'export interface OrdersUpdate {',
+            '  status?: OrderStatus;',
+            '  tags?: OrderStatus[] | null;',
+            '  total?: string;',
+            '  placed_at?: Date | null;',
+            '}',
+        ].join('\n'));
+        expect(types).toContain('export interface OrderTotals {\n  total: string;\n}\n');
+        expect(types).not.toContain('OrderTotalsInsert');
+    });
+
+    it('should map MySQL, SQLite, MongoDB and Firestore types', () => {
+        expect(findTypeMapping('varchar(255)')?.tsType).toBe('string');
+        expect(findTypeMapping('int unsigned')?.tsType).toBe('number');
+        expect(findTypeMapping('tinyint(1)')?.tsType).toBe('boolean');
+        expect(findTypeMapping('BigInt')?.tsType).toBe('bigint');
+        expect(findTypeMapping('bigint')?.tsType).toBe('number');
+
+        const mysql = renderTypeScriptTypes({
+            databaseType: 'mysql',
+            tables: [table('invoices', [column('state', "enum('draft','sent')")])],
+        });
+        expect(mysql).toContain("  state: 'draft' | 'sent';\n");
+
+        const sqlite = renderTypeScriptTypes({
+            databaseType: 'sqlite',
+            tables: [table('notes', [column('id', 'INTEGER', { isPrimaryKey: true, nullable: true }), column('body', 'TEXT')])],
+        });
+        expect(sqlite).toContain('export interface NotesInsert {\n  id?: number;\n  body: string;\n}\n');
+
+        const mongo = renderTypeScriptTypes({
+            databaseType: 'mongodb',
+            tables: [table('events', [
+                column('_id', 'ObjectId', { isPrimaryKey: true }),
+                column('payload', 'Mixed(String|Int|Double)', { nullable: true }),
+                column('tags', 'String[]'),
+            ])],
+        });
+        expect(mongo).toContain('export interface Events {\n  _id: string;\n  payload: string | number | null;\n  tags: string[];\n}\n');
+        expect(mongo).toContain('export interface EventsInsert {\n  _id?: string;\n');
+
+        const firestore = renderTypeScriptTypes({
+            databaseType: 'firebase',
+            tables: [table('places', [column('location', 'GeoPoint'), column('owner', 'Reference'), column('seen', 'Timestamp[]')])],
+        });
+        expect(firestore).toContain('  location: { latitude: number; longitude: number };\n  owner: string;\n  seen: Date[];\n');
+    });
+
+    it('should type Prisma models with their enums and without relation fields', async () => {
+        const raw = await new PrismaExtractor(path.join(process.cwd(), 'tests', 'fixtures', 'prisma', 'enums.prisma')).extract();
+        const types = renderTypeScriptTypes(UnifiedSchemaConverter.convert({ ...raw, databaseType: 'prisma' }));
+
+        expect(types).toContain("export type Role = 'USER' | 'ADMIN';\n");
+        expect(types).toContain('export interface User {\n  id: number;\n  email: string;\n  role: Role;\n  scopes: Role[];\n}\n');
+        expect(types).toContain('export interface UserInsert {\n  id?: number;\n  email: string;\n  role?: Role;\n  scopes: Role[];\n}\n');
+        expect(types).toContain('export interface Post {\n  id: number;\n  title: string | null;\n  authorId: number;\n}\n');
+    });
+
+    it('should list only the mappings a schema uses', () => {
+        const schema: UnifiedSchemaInfo = {
+            databaseType: 'sqlite',
+            tables: [table('notes', [column('id', 'INTEGER', { isPrimaryKey: true }), column('body', 'TEXT'), column('tags', 'TEXT[]')])],
+        };
+        expect(usedTypeMappings(schema).map((m) => m.dbType)).toEqual(['INTEGER', 'TEXT']);
+    });
+});
@@ -0,0 +1,60 @@
+import { createReport, locateFindings, renderReport } from '../src/utils/validation-report.js';
+import type { ValidationFinding } from '../src/utils/schema-validation.js';
+
+const claudeMd = [
+    '# Database Context',
+    '',
+    '## Tables',
+    '',
+    '### users',
+    '',
+    '| Column | Type | Nullable | Key | Notes |',
+    '|--------|------|----------|-----|-------|',
+    '| `id` | `uuid` | no | PK/FK | - |',
+    '| `email` | `text` | no | - | - |',
+    '',
+    '## Business Rules',
+].join('\n');
+
+const findings: ValidationFinding[] = [
+    { severity: 'error', rule: 'column-type-changed', message: "users: Changed type of column 'email'", table: 'users', column: 'email' },
+    { severity: 'warning', rule: 'table-undocumented', message: "Table 'audit_log' exists in schema but not in generated context", table: 'audit_log' },
+    { severity: 'warning', rule: 'context-unversioned', message: 'CLAUDE.md has no snapshot marker' },
+];
+
+describe('validation reports', () => {
+    const located = locateFindings(findings, '.ai/CLAUDE.md', claudeMd);
+
+    it('should locate findings in CLAUDE.md', () => {
+        expect(located.map((f) => f.location.line)).toEqual([10, 3, 1]);
+    });
+
+    it('should render SARIF results with rule ids and regions', () => {
+        const sarif = JSON.parse(renderReport(createReport(located, 'errors', 2, false), 'sarif'));
+        const [result] = sarif.runs[0].results;
+
+        expect(sarif.version).toBe('2.1.0');
+        expect(result).toEqual({
+            ruleId: 'column-type-changed',
+            level: 'error',
+            message: { text: "users: Changed type of column 'email'" },
+            locations: [{ physicalLocation: { artifactLocation: { uri: '.ai/CLAUDE.md' }, region: { startLine: 10 } } }],
+        });
+        expect(sarif.runs[0].tool.driver.rules.map((r: { id: string }) => r.id)).toContain('table-undocumented');
+    });
+
+    it('should only fail JUnit cases on warnings in strict mode', () => {
+        const relaxed = renderReport(createReport(located, 'errors', 2, false), 'junit');
+        const strict = renderReport(createReport(located, 'errors', 2, true), 'junit');
+
+        expect(relaxed).toContain('<testsuites name="cohere-db validate" tests="3" failures="1">');
+        expect(relaxed).toContain('<failure type="column-type-changed" message="users: Changed type of column &apos;email&apos;">.ai/CLAUDE.md:10</failure>');
+        expect(relaxed).toContain('<system-out>[warning] table-undocumented');
+        expect(strict).toContain('failures="3"');
+    });
+
+    it('should include status and exit code in the JSON report', () => {
+        const report = JSON.parse(renderReport(createReport(located, 'errors', 2, false), 'json'));
+        expect(report).toMatchObject({ status: 'errors', exitCode: 2, summary: { error: 1, warning: 2, info: 0 } });
+    });
+});
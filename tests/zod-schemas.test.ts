@@ -0,0 +1,143 @@
+import * as path from 'path';
+import { PrismaExtractor } from '../src/extractors/prisma.js';
+import { UnifiedSchemaConverter } from '../src/extractors/index.js';
+import { renderZodSchemas } from '../src/generators/zod-schemas.js';
+import { column, table } from './fixtures/schema.js';
+import type { UnifiedSchemaInfo } from '../src/extractors/index.js';
+
+const schema: UnifiedSchemaInfo = {
+    databaseType: 'postgresql',
+    enums: [{ name: 'order_status', values: ['pending', 'paid'] }],
+    domains: [{ name: 'email', baseType: 'text', nullable: true, default: null, checks: ["CHECK ((VALUE ~* '^.+@.+$'::text))"] }],
+    tables: [
+        table('orders', [
+            column('id', 'integer', { isPrimaryKey: true, identity: 'by-default' }),
+            column('email', 'email'),
+            column('code', 'character varying', { maxLength: 12, nullable: true }),
+            column('status', 'order_status', { default: "'pending'::order_status" }),
+            column('channel', 'text'),
+            column('total', 'numeric', { precision: 10, scale: 2 }),
+            column('quantity', 'integer'),
+            column('total_cents', 'bigint', { generated: { expression: 'total * 100', stored: true } }),
+            column('starts_at', 'timestamp with time zone'),
+            column('ends_at', 'timestamp with time zone', { nullable: true }),
+        ], {
+            description: 'Customer orders',
+            checks: [
+                { name: 'orders_total_check', expression: 'CHECK ((total >= (0)::numeric))', columns: ['total'] },
+                { expression: 'CHECK (((quantity > 0) AND (quantity <= 100)))', columns: ['quantity'] },
+                { expression: "CHECK ((channel = ANY (ARRAY['web'::text, 'store'::text])))", columns: ['channel'] },
+                { expression: 'CHECK ((ends_at > starts_at))', columns: ['starts_at', 'ends_at'] },
+            ],
+        }),
+        table('order_totals', [column('total', 'numeric')], { kind: 'view' }),
+    ],
+};
+
+describe('Zod schemas', () => {
+    const files = renderZodSchemas(schema);
+
+    it('should write one module per table, shared enums and an index', () => {
+        expect(Object.keys(files)).toEqual(['tables/orders.ts', 'tables/order_totals.ts', 'types.ts', 'index.ts']);
+        expect(files['types.ts']).toContain("import { z } from 'zod';\n\nexport const orderStatusSchema = z.enum(['pending', 'paid']);\n");
+        expect(files['index.ts']).toContain([
+            "export * from './types.js';",
+            "export * from './tables/orders.js';",
+            "export * from './tables/order_totals.js';",
+        ].join('\n'));
+    });
+
+    it('should apply nullability, defaults, lengths, precision and checks', () => {
+        const orders = files['tables/orders.ts'];
+
+        expect(orders).toContain("import { orderStatusSchema } from '../types.js';\n");
+        expect(orders).toContain([
+            '/**',
+            ' * Customer orders',
+            ' *',
+            ' * Checked by the database only:',
+            ' * - `CHECK ((ends_at > starts_at))`',
+            ' */',
+            'export const ordersSelectSchema = z.object({',
+            '  id: z.number().int(),',
+            '  email: z.string().regex(/^.+@.+$/i),',
+            '  code: z.string().max(12).nullable(),',
+            '  status: orderStatusSchema,',
+            "  channel: z.enum(['web', 'store']),",
+            '  total: z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/).refine((value) => Number(value) >= 0),',
+            '  quantity: z.number().int().gt(0).lte(100),',
+            '  total_cents: z.coerce.number().int(),',
+            '  starts_at: z.coerce.date(),',
+            '  ends_at: z.coerce.date().nullable(),',
+            '});',
+        ].join('\n'));
+        expect(orders).toContain('  id: z.number().int().optional(),\n  email: z.string().regex(/^.+@.+$/i),\n');
+        expect(orders).toContain('  total: z.string().regex(/^-?\\d{1,8}(\\.\\d{1,2})?$/).refine((value) => Number(value) >= 0),\n  quantity: z.number().int().gt(0).lte(100),\n  starts_at:');
+        expect(orders).toContain('  status: orderStatusSchema.optional(),\n');
+        expect(orders).toContain('  ends_at: z.coerce.date().nullable().optional(),\n});\n');
+        expect(orders).not.toMatch(/InsertSchema = z\.object\(\{[^}]*total_cents/);
+        expect(orders).toContain('export const ordersUpdateSchema = ordersInsertSchema.partial();\n');
+
+        expect(files['tables/order_totals.ts']).toContain('export const orderTotalsSelectSchema = z.object({\n  total: z.string().regex(/^-?\\d+(\\.\\d+)?$/),\n});\n');
+        expect(files['tables/order_totals.ts']).not.toContain('InsertSchema');
+    });
+
+    it('should escape slashes in patterns and leave Postgres-only patterns to the database', () => {
+        const links = renderZodSchemas({
+            databaseType: 'postgresql',
+            tables: [table('links', [
+                column('url', 'text'),
+                column('path', 'text'),
+                column('code', 'text'),
+                column('title', 'text'),
+            ], {
+                checks: [
+                    { expression: "CHECK ((url ~ '^https?:\\/\\/'::text))", columns: ['url'] },
+                    { expression: "CHECK ((path ~ '^/a/b$'::text))", columns: ['path'] },
+                    { expression: "CHECK ((code ~ '^[[:alpha:]]+$'::text))", columns: ['code'] },
+                    { expression: "CHECK ((title ~* '\\mfoo\\M'::text))", columns: ['title'] },
+                ],
+            })],
+        })['tables/links.ts'];
+
+        expect(links).toContain([
+            '  url: z.string().regex(/^https?:\\/\\//),',
+            '  path: z.string().regex(/^\\/a\\/b$/),',
+            '  code: z.string(),',
+            '  title: z.string(),',
+        ].join('\n'));
+        expect(links).toContain(" * - `CHECK ((code ~ '^[[:alpha:]]+$'::text))`\n");
+        expect(links).toContain(" * - `CHECK ((title ~* '\\mfoo\\M'::text))`\n");
+    });
+
+    it('should read MySQL lengths and enums from the column type', () => {
+        const mysql = renderZodSchemas({
+            databaseType: 'mysql',
+            tables: [table('invoices', [
+                column('number', 'varchar(20)'),
+                column('amount', 'decimal(8,2) unsigned'),
+                column('state', "enum('draft','sent')", { default: 'draft' }),
+                column('paid', 'tinyint(1)'),
+            ], { checks: [{ expression: '(`amount` > 0)', columns: ['amount'] }] })],
+        })['tables/invoices.ts'];
+
+        expect(mysql).toContain([
+            '  number: z.string().max(20),',
+            '  amount: z.string().regex(/^-?\\d{1,6}(\\.\\d{1,2})?$/).refine((value) => Number(value) > 0),',
+            "  state: z.enum(['draft', 'sent']),",
+            '  paid: z.boolean(),',
+        ].join('\n'));
+        expect(mysql).toContain("  state: z.enum(['draft', 'sent']).optional(),\n");
+    });
+
+    it('should reference Prisma enums from the shared types', async () => {
+        const raw = await new PrismaExtractor(path.join(process.cwd(), 'tests', 'fixtures', 'prisma', 'enums.prisma')).extract();
+        const prisma = renderZodSchemas(UnifiedSchemaConverter.convert({ ...raw, databaseType: 'prisma' }));
+
+        expect(prisma['types.ts']).toContain("export const roleSchema = z.enum(['USER', 'ADMIN']);\n");
+        expect(prisma['tables/User.ts']).toContain("import { roleSchema } from '../types.js';\n");
+        expect(prisma['tables/User.ts']).toContain('  role: roleSchema,\n  scopes: z.array(roleSchema),\n});\n');
+        expect(prisma['tables/User.ts']).toContain('  role: roleSchema.optional(),\n');
+        expect(prisma['tables/Post.ts']).toContain('  title: z.string().nullable(),\n  authorId: z.number().int(),\n});\n');
+    });
+});